@@ -0,0 +1,87 @@
+import React from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { AlertTriangle, Lightbulb, type LucideIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getYouTubeId, remarkCallouts, sanitizeSchema, type CalloutKind } from '@/lib/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const CALLOUTS: Record<CalloutKind, { title: string; icon: LucideIcon; className: string }> = {
+  tips: { title: 'Tips', icon: Lightbulb, className: 'border-primary/40 bg-primary/10 text-primary' },
+  peringatan: { title: 'Peringatan', icon: AlertTriangle, className: 'border-yellow-500/40 bg-yellow-500/10 text-yellow-300' },
+};
+
+const components: Components = {
+  blockquote: ({ node, children }) => {
+    const callout = CALLOUTS[node?.properties?.dataCallout as CalloutKind];
+    if (!callout) return <blockquote>{children}</blockquote>;
+
+    const Icon = callout.icon;
+    return (
+      <aside className={cn('not-prose my-6 rounded-lg border p-4', callout.className)}>
+        <div className="mb-2 flex items-center gap-2 font-semibold">
+          <Icon className="h-4 w-4" />
+          {callout.title}
+        </div>
+        <div className="prose prose-invert prose-sm max-w-none [&>:first-child]:mt-0 [&>:last-child]:mb-0">
+          {children}
+        </div>
+      </aside>
+    );
+  },
+
+  // ![judul](https://youtu.be/...) embeds the video; any other image is shown as is
+  img: ({ src, alt }) => {
+    const videoId = src ? getYouTubeId(src) : null;
+    if (!videoId) return <img src={src} alt={alt ?? ''} loading="lazy" className="rounded-lg" />;
+
+    return (
+      <span className="not-prose my-6 block aspect-video w-full">
+        <iframe
+          src={`https://www.youtube-nocookie.com/embed/${videoId}`}
+          className="h-full w-full rounded-lg border-0"
+          allowFullScreen
+          allow="accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+          loading="lazy"
+          title={alt || 'Video YouTube'}
+        />
+      </span>
+    );
+  },
+
+  a: ({ href, children }) =>
+    href?.startsWith('http') ? (
+      <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+    ) : (
+      <a href={href}>{children}</a>
+    ),
+
+  // Wide tables scroll instead of stretching the article
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+// Education articles are written in Markdown with GitHub's extensions (tables,
+// strikethrough, task lists). Raw HTML is not rendered and the result is
+// sanitized, so an article cannot run scripts or embed other sites.
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => (
+  <div className={cn('prose prose-invert max-w-none prose-a:text-primary', className)}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkCallouts]}
+      rehypePlugins={[[rehypeSanitize, sanitizeSchema]]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownContent;
@@ -2,7 +2,7 @@ import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
-import { LogOut, User, Crown, GraduationCap, Shield } from 'lucide-react';
+import { LogOut, User, Crown, GraduationCap, Shield, Building2 } from 'lucide-react';
 import logo from '@/logo.png'
 import {
   DropdownMenu,
@@ -12,7 +12,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 
 const Navbar = () => {
-  const { user, profile, signOut } = useAuth();
+  const { user, profile, isPremium, signOut } = useAuth();
   const location = useLocation();
 
   const isActive = (path: string) => location.pathname === path;
@@ -59,7 +59,7 @@ const Navbar = () => {
                 <Button variant="ghost" className="flex items-center space-x-2">
                   <User className="h-4 w-4" />
                   <span className="hidden sm:inline">{profile?.nama || 'User'}</span>
-                  {profile?.role === 'premium' && (
+                  {isPremium && (
                     <Crown className="h-4 w-4 text-primary" />
                   )}
                   {profile?.role === 'admin' && (
@@ -74,6 +74,12 @@ const Navbar = () => {
                     Profil
                   </Link>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to="/organization" className="w-full">
+                    <Building2 className="mr-2 h-4 w-4" />
+                    Organisasi
+                  </Link>
+                </DropdownMenuItem>
                 {profile?.role === 'admin' && (
                   <DropdownMenuItem asChild>
                     <Link to="/admin" className="w-full">
@@ -9,6 +9,8 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import MarkdownContent from '@/components/MarkdownContent';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Plus, Edit, Trash2, Calendar, Crown, FileText, PlayCircle, Image } from 'lucide-react';
@@ -347,13 +349,35 @@ const EducationsManager = () => {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Konten</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          placeholder="Masukkan konten edukasi..." 
-                          className="min-h-[120px]"
-                          {...field} 
-                        />
-                      </FormControl>
+                      <Tabs defaultValue="write">
+                        <TabsList>
+                          <TabsTrigger value="write">Tulis</TabsTrigger>
+                          <TabsTrigger value="preview">Pratinjau</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="write">
+                          <FormControl>
+                            <Textarea 
+                              placeholder="Masukkan konten edukasi..." 
+                              className="min-h-[240px] font-mono text-sm"
+                              {...field} 
+                            />
+                          </FormControl>
+                        </TabsContent>
+                        <TabsContent value="preview">
+                          <div className="min-h-[240px] rounded-md border p-4">
+                            {field.value ? (
+                              <MarkdownContent content={field.value} className="prose-sm" />
+                            ) : (
+                              <p className="text-sm text-muted-foreground">Belum ada konten</p>
+                            )}
+                          </div>
+                        </TabsContent>
+                      </Tabs>
+                      <FormDescription>
+                        Mendukung Markdown: ## judul, **tebal**, daftar dengan -, tabel, dan [tautan](https://...).
+                        Kotak tips atau peringatan diawali baris &gt; [!TIPS] atau &gt; [!PERINGATAN].
+                        Gambar dan video YouTube disisipkan dengan ![keterangan](url).
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
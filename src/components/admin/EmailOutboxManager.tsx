@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+
+interface OutboxEmail {
+  id: string;
+  template: string;
+  recipient: string | null;
+  user_id: string | null;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  transport: string | null;
+  provider_message_id: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+const ALL = 'all';
+const PAGE_SIZE = 100;
+
+const statusBadge = (status: string) => {
+  switch (status) {
+    case 'sent':
+      return <Badge className="bg-green-500/20 text-green-300">Terkirim</Badge>;
+    case 'pending':
+      return <Badge variant="secondary">Antre</Badge>;
+    case 'sending':
+      return <Badge variant="outline">Mengirim</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Gagal</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', { dateStyle: 'short', timeStyle: 'short' });
+
+const EmailOutboxManager = () => {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [loading, setLoading] = useState(true);
+  const [requeueingId, setRequeueingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchEmails = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('email_outbox')
+        .select('id, template, recipient, user_id, status, attempts, max_attempts, next_attempt_at, transport, provider_message_id, last_error, sent_at, created_at')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (statusFilter !== ALL) query = query.eq('status', statusFilter);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEmails(data || []);
+
+      // Emails queued for a user get their address when sent; until then show the name
+      const userIds = Array.from(new Set((data || []).map((email) => email.user_id).filter((id): id is string => !!id)));
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase.from('profiles').select('id, nama').in('id', userIds);
+        const names: Record<string, string> = {};
+        profiles?.forEach((profile) => {
+          names[profile.id] = profile.nama;
+        });
+        setUserNames(names);
+      }
+    } catch (error) {
+      console.error('Error fetching email outbox:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat antrean email',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [fetchEmails]);
+
+  const handleRequeue = async (email: OutboxEmail) => {
+    if (!confirm(`Kirim ulang email ${email.template} ke ${email.recipient || userNames[email.user_id ?? ''] || 'pengguna ini'}?`)) return;
+
+    setRequeueingId(email.id);
+    try {
+      const { error } = await supabase.rpc('requeue_email', { _email_id: email.id });
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: 'Email dimasukkan kembali ke antrean dan akan dikirim dalam satu menit',
+      });
+      fetchEmails();
+    } catch (error) {
+      console.error('Error requeueing email:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal mengirim ulang email',
+        variant: 'destructive',
+      });
+    } finally {
+      setRequeueingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end justify-between gap-3">
+        <div className="w-48">
+          <Label>Status</Label>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua status</SelectItem>
+              <SelectItem value="pending">Antre</SelectItem>
+              <SelectItem value="sending">Mengirim</SelectItem>
+              <SelectItem value="sent">Terkirim</SelectItem>
+              <SelectItem value="failed">Gagal</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" onClick={fetchEmails} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Muat Ulang
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Dibuat</TableHead>
+              <TableHead>Template</TableHead>
+              <TableHead>Penerima</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Percobaan</TableHead>
+              <TableHead>Keterangan</TableHead>
+              <TableHead className="text-right">Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  Memuat antrean email...
+                </TableCell>
+              </TableRow>
+            ) : emails.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  Tidak ada email
+                </TableCell>
+              </TableRow>
+            ) : (
+              emails.map((email) => (
+                <TableRow key={email.id}>
+                  <TableCell className="text-sm">{formatDateTime(email.created_at)}</TableCell>
+                  <TableCell className="font-mono text-xs">{email.template}</TableCell>
+                  <TableCell>
+                    <div>{email.recipient || '-'}</div>
+                    {email.user_id && (
+                      <div className="text-xs text-muted-foreground">
+                        {userNames[email.user_id] || email.user_id.substring(0, 8)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{statusBadge(email.status)}</TableCell>
+                  <TableCell className="text-sm">{email.attempts} / {email.max_attempts}</TableCell>
+                  <TableCell className="text-xs max-w-xs">
+                    {email.status === 'sent' ? (
+                      <span className="text-muted-foreground">
+                        {email.sent_at && formatDateTime(email.sent_at)} via {email.transport}
+                        {email.provider_message_id && <span className="block font-mono break-all">{email.provider_message_id}</span>}
+                      </span>
+                    ) : (
+                      <>
+                        {email.last_error && <span className="block text-destructive break-words">{email.last_error}</span>}
+                        {email.status === 'pending' && email.attempts > 0 && (
+                          <span className="text-muted-foreground">Dicoba lagi {formatDateTime(email.next_attempt_at)}</span>
+                        )}
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(email.status === 'sent' || email.status === 'failed') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRequeue(email)}
+                        disabled={requeueingId === email.id}
+                      >
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        Kirim Ulang
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Menampilkan {PAGE_SIZE} email terbaru. Email yang gagal dicoba lagi otomatis dengan jeda yang makin panjang.
+      </p>
+    </div>
+  );
+};
+
+export default EmailOutboxManager;
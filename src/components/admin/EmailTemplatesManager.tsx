@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Eye, Send } from 'lucide-react';
+
+interface EmailTemplateInfo {
+  name: string;
+  label: string;
+  description: string;
+  sample: Record<string, unknown>;
+}
+
+interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const EmailTemplatesManager = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<EmailTemplateInfo[]>([]);
+  const [selectedName, setSelectedName] = useState('');
+  const [variables, setVariables] = useState('');
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [testRecipient, setTestRecipient] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [previewing, setPreviewing] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const selectedTemplate = templates.find((template) => template.name === selectedName);
+
+  // Variables are edited as JSON; returns null (and says why) when they do not parse
+  const parseVariables = () => {
+    try {
+      return JSON.parse(variables) as Record<string, unknown>;
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Variabel harus berupa JSON yang valid',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  const renderPreview = useCallback(async (template: string, templateVariables: Record<string, unknown>) => {
+    setPreviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('email-templates', {
+        body: { action: 'preview', template, variables: templateVariables }
+      });
+
+      if (error) throw error;
+      setPreview(data);
+    } catch (error) {
+      console.error('Error rendering email preview:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal membuat pratinjau email',
+        variant: 'destructive',
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  }, [toast]);
+
+  const selectTemplate = useCallback((template: EmailTemplateInfo) => {
+    setSelectedName(template.name);
+    setVariables(JSON.stringify(template.sample, null, 2));
+    renderPreview(template.name, template.sample);
+  }, [renderPreview]);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('email-templates', {
+        body: { action: 'list' }
+      });
+
+      if (error) throw error;
+
+      const list: EmailTemplateInfo[] = data?.templates || [];
+      setTemplates(list);
+      if (list.length > 0) selectTemplate(list[0]);
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat template email',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, selectTemplate]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    setTestRecipient(user?.email ?? '');
+  }, [user]);
+
+  const handlePreview = () => {
+    const parsed = parseVariables();
+    if (parsed) renderPreview(selectedName, parsed);
+  };
+
+  const handleSendTest = async () => {
+    const parsed = parseVariables();
+    if (!parsed || !testRecipient.trim()) return;
+
+    setSending(true);
+    try {
+      const { error } = await supabase.functions.invoke('email-templates', {
+        body: { action: 'send_test', template: selectedName, variables: parsed, to: testRecipient.trim() }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: `Email tes dikirim ke ${testRecipient.trim()}`,
+      });
+    } catch (error) {
+      console.error('Error sending test email:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal mengirim email tes',
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Memuat template email...</div>;
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label>Template</Label>
+          <Select
+            value={selectedName}
+            onValueChange={(name) => {
+              const template = templates.find((item) => item.name === name);
+              if (template) selectTemplate(template);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Pilih template" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((template) => (
+                <SelectItem key={template.name} value={template.name}>
+                  {template.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedTemplate && (
+            <p className="text-sm text-muted-foreground">
+              {selectedTemplate.description} <code className="text-xs">{selectedTemplate.name}</code>
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email-variables">Variabel (JSON)</Label>
+          <Textarea
+            id="email-variables"
+            value={variables}
+            onChange={(e) => setVariables(e.target.value)}
+            rows={12}
+            className="font-mono text-xs"
+          />
+        </div>
+
+        <Button onClick={handlePreview} disabled={!selectedName || previewing} variant="outline" className="w-full">
+          <Eye className="mr-2 h-4 w-4" />
+          {previewing ? 'Memuat...' : 'Perbarui Pratinjau'}
+        </Button>
+
+        <div className="rounded-lg border p-4 space-y-2">
+          <Label htmlFor="test-recipient">Kirim email tes ke</Label>
+          <div className="flex gap-2">
+            <Input
+              id="test-recipient"
+              type="email"
+              value={testRecipient}
+              onChange={(e) => setTestRecipient(e.target.value)}
+            />
+            <Button onClick={handleSendTest} disabled={!selectedName || !testRecipient.trim() || sending}>
+              <Send className="mr-2 h-4 w-4" />
+              {sending ? 'Mengirim...' : 'Kirim Tes'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Subjek email tes diawali [Tes].
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {preview ? (
+          <>
+            <p className="text-sm">
+              <span className="text-muted-foreground">Subjek:</span> <strong>{preview.subject}</strong>
+            </p>
+            <Tabs defaultValue="html">
+              <TabsList>
+                <TabsTrigger value="html">HTML</TabsTrigger>
+                <TabsTrigger value="text">Teks</TabsTrigger>
+              </TabsList>
+              <TabsContent value="html">
+                {/* Rendered in a sandbox so the email's styles and links stay inside the frame */}
+                <iframe
+                  title="Pratinjau email"
+                  srcDoc={preview.html}
+                  sandbox=""
+                  className="w-full h-[600px] rounded-lg border bg-white"
+                />
+              </TabsContent>
+              <TabsContent value="text">
+                <pre className="whitespace-pre-wrap rounded-lg border p-4 text-sm h-[600px] overflow-auto">
+                  {preview.text}
+                </pre>
+              </TabsContent>
+            </Tabs>
+          </>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            Pilih template untuk melihat pratinjau.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmailTemplatesManager;
@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { FEATURE_ICONS, getFeatureIcon, type PackageFeature } from '@/lib/package-features';
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+
+interface PackageFeaturesManagerProps {
+  features: PackageFeature[];
+  onChange: () => void;
+}
+
+const featureSchema = z.object({
+  title: z.string().min(1, 'Judul fitur harus diisi'),
+  description: z.string().optional(),
+  icon: z.string(),
+  in_free_tier: z.boolean(),
+  is_active: z.boolean(),
+});
+
+type FeatureFormData = z.infer<typeof featureSchema>;
+
+const defaultValues: FeatureFormData = {
+  title: '',
+  description: '',
+  icon: 'Check',
+  in_free_tier: false,
+  is_active: true,
+};
+
+// The benefits shown on pricing cards, Home, the comparison table and the
+// welcome email. Which package includes which is chosen in the package dialog.
+const PackageFeaturesManager = ({ features, onChange }: PackageFeaturesManagerProps) => {
+  const [editingFeature, setEditingFeature] = useState<PackageFeature | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isReordering, setIsReordering] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<FeatureFormData>({
+    resolver: zodResolver(featureSchema),
+    defaultValues,
+  });
+
+  const openDialog = (feature: PackageFeature | null) => {
+    setEditingFeature(feature);
+    form.reset(feature ? {
+      title: feature.title,
+      description: feature.description || '',
+      icon: feature.icon,
+      in_free_tier: feature.in_free_tier,
+      is_active: feature.is_active,
+    } : defaultValues);
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogClose = () => {
+    setIsDialogOpen(false);
+    setEditingFeature(null);
+    form.reset(defaultValues);
+  };
+
+  const onSubmit = async (formData: FeatureFormData) => {
+    const data = {
+      title: formData.title,
+      description: formData.description || null,
+      icon: formData.icon,
+      in_free_tier: formData.in_free_tier,
+      is_active: formData.is_active,
+    };
+
+    try {
+      if (editingFeature) {
+        const { error } = await supabase
+          .from('package_features')
+          .update(data)
+          .eq('id', editingFeature.id);
+
+        if (error) throw error;
+      } else {
+        // New features go to the end of the list
+        const sortOrder = features.reduce((max, feature) => Math.max(max, feature.sort_order + 1), 0);
+        const { error } = await supabase
+          .from('package_features')
+          .insert({ ...data, sort_order: sortOrder });
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: 'Berhasil',
+        description: editingFeature ? 'Fitur berhasil diperbarui' : 'Fitur berhasil ditambahkan',
+      });
+      handleDialogClose();
+      onChange();
+    } catch (error) {
+      console.error('Error saving feature:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal menyimpan fitur',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (feature: PackageFeature) => {
+    if (!confirm(`Yakin ingin menghapus fitur "${feature.title}"? Fitur ini juga dilepas dari semua paket.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('package_features')
+        .delete()
+        .eq('id', feature.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: 'Fitur berhasil dihapus',
+      });
+      onChange();
+    } catch (error) {
+      console.error('Error deleting feature:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal menghapus fitur',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...features];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, moved);
+
+    setIsReordering(true);
+    try {
+      // Renumber the whole list so gaps and ties from earlier edits disappear
+      const results = await Promise.all(
+        reordered
+          .map((feature, position) => ({ feature, position }))
+          .filter(({ feature, position }) => feature.sort_order !== position)
+          .map(({ feature, position }) =>
+            supabase.from('package_features').update({ sort_order: position }).eq('id', feature.id)
+          )
+      );
+
+      const failed = results.find((result) => result.error);
+      if (failed?.error) throw failed.error;
+
+      onChange();
+    } catch (error) {
+      console.error('Error reordering features:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal mengubah urutan fitur',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold">Fitur Paket</h3>
+          <p className="text-sm text-muted-foreground">
+            Urutan di sini dipakai di beranda dan tabel perbandingan
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Tambah fitur
+        </Button>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : handleDialogClose())}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingFeature ? 'Edit Fitur' : 'Tambah Fitur Baru'}</DialogTitle>
+            <DialogDescription>
+              Fitur ditampilkan di kartu harga setiap paket yang menyertakannya
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Judul</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Contoh: Webinar Eksklusif" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Deskripsi (Opsional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Penjelasan singkat fitur..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="icon"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ikon</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(FEATURE_ICONS).map(([name, Icon]) => (
+                          <SelectItem key={name} value={name}>
+                            <span className="flex items-center gap-2">
+                              <Icon className="h-4 w-4" />
+                              {name}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="in_free_tier"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Tersedia Gratis</FormLabel>
+                      <FormDescription>
+                        Member gratis juga mendapatkan fitur ini
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="is_active"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Status Aktif</FormLabel>
+                      <FormDescription>
+                        Fitur nonaktif disembunyikan dari semua halaman
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={handleDialogClose}>
+                  Batal
+                </Button>
+                <Button type="submit">
+                  {editingFeature ? 'Perbarui' : 'Tambah'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Fitur</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {features.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                  Belum ada fitur
+                </TableCell>
+              </TableRow>
+            ) : (
+              features.map((feature, index) => {
+                const Icon = getFeatureIcon(feature.icon);
+                return (
+                  <TableRow key={feature.id}>
+                    <TableCell>
+                      <div className="flex items-start gap-2">
+                        <Icon className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+                        <div>
+                          <div className="font-medium">{feature.title}</div>
+                          {feature.description && (
+                            <div className="text-sm text-muted-foreground">{feature.description}</div>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {feature.is_active ? (
+                          <Badge className="bg-green-500/20 text-green-300">Aktif</Badge>
+                        ) : (
+                          <Badge variant="secondary">Nonaktif</Badge>
+                        )}
+                        {feature.in_free_tier && <Badge variant="outline">Gratis</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleMove(index, -1)}
+                          disabled={isReordering || index === 0}
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleMove(index, 1)}
+                          disabled={isReordering || index === features.length - 1}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openDialog(feature)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleDelete(feature)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default PackageFeaturesManager;
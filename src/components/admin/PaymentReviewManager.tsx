@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { CheckCircle, RefreshCw, XCircle } from 'lucide-react';
+
+interface ReviewTransaction {
+  id: string;
+  user_id: string;
+  midtrans_order_id: string;
+  midtrans_transaction_id: string | null;
+  package_name: string;
+  amount: number;
+  payment_type: string | null;
+  created_at: string;
+}
+
+type Decision = 'approve' | 'deny';
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(price);
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' });
+
+const payloadField = (payload: Json | undefined, key: string) => {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+  const value = payload[key];
+  return typeof value === 'string' && value ? value : null;
+};
+
+// Card payments the provider's fraud check challenged. Approving or denying
+// goes to the provider, which settles or voids the capture.
+const PaymentReviewManager = () => {
+  const [transactions, setTransactions] = useState<ReviewTransaction[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  // The challenge notification for each order, which carries the card details
+  const [payloads, setPayloads] = useState<Record<string, Json>>({});
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<ReviewTransaction | null>(null);
+  const [decision, setDecision] = useState<Decision>('approve');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id, user_id, midtrans_order_id, midtrans_transaction_id, package_name, amount, payment_type, created_at')
+        .eq('status', 'review')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setTransactions(data || []);
+
+      const orderIds = (data || []).map((tx) => tx.midtrans_order_id);
+      const userIds = Array.from(new Set((data || []).map((tx) => tx.user_id)));
+      if (orderIds.length === 0) return;
+
+      const [eventsResult, profilesResult] = await Promise.all([
+        supabase
+          .from('payment_events')
+          .select('order_id, payload')
+          .in('order_id', orderIds)
+          .eq('fraud_status', 'challenge')
+          .order('created_at', { ascending: true }),
+        supabase.from('profiles').select('id, nama').in('id', userIds),
+      ]);
+
+      if (eventsResult.error) throw eventsResult.error;
+
+      const challenged: Record<string, Json> = {};
+      eventsResult.data?.forEach((event) => {
+        challenged[event.order_id] = event.payload;
+      });
+      setPayloads(challenged);
+
+      const names: Record<string, string> = {};
+      profilesResult.data?.forEach((profile) => {
+        names[profile.id] = profile.nama;
+      });
+      setUserNames(names);
+    } catch (error) {
+      console.error('Error fetching payment review queue:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat antrean tinjauan pembayaran',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const openDecision = (transaction: ReviewTransaction, nextDecision: Decision) => {
+    setSelected(transaction);
+    setDecision(nextDecision);
+    setReason('');
+  };
+
+  const handleSubmit = async () => {
+    if (!selected || !reason.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-transactions', {
+        body: { action: decision, transaction_id: selected.id, reason: reason.trim() }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: decision === 'approve'
+          ? `Pembayaran disetujui, status order: ${data?.status}`
+          : `Pembayaran ditolak, status order: ${data?.status}`,
+      });
+      setSelected(null);
+      fetchQueue();
+    } catch (error) {
+      console.error('Error reviewing payment:', error);
+      toast({
+        title: 'Error',
+        description: decision === 'approve' ? 'Gagal menyetujui pembayaran' : 'Gagal menolak pembayaran',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={fetchQueue} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Muat Ulang
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Dibuat</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>Jumlah</TableHead>
+              <TableHead>Kartu</TableHead>
+              <TableHead className="text-right">Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  Memuat antrean...
+                </TableCell>
+              </TableRow>
+            ) : transactions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  Tidak ada pembayaran yang menunggu tinjauan
+                </TableCell>
+              </TableRow>
+            ) : (
+              transactions.map((tx) => {
+                const payload = payloads[tx.midtrans_order_id];
+                return (
+                  <TableRow key={tx.id}>
+                    <TableCell className="text-sm">{formatDateTime(tx.created_at)}</TableCell>
+                    <TableCell>
+                      <div className="font-mono text-xs">{tx.midtrans_order_id}</div>
+                      <div className="text-sm">{userNames[tx.user_id] || tx.user_id.substring(0, 8)}</div>
+                      <div className="text-xs text-muted-foreground">{tx.package_name}</div>
+                    </TableCell>
+                    <TableCell className="font-medium">{formatPrice(tx.amount)}</TableCell>
+                    <TableCell className="text-sm">
+                      <div className="font-mono">{payloadField(payload, 'masked_card') || tx.payment_type || '-'}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[payloadField(payload, 'bank'), payloadField(payload, 'card_type')].filter(Boolean).join(' · ')}
+                      </div>
+                      {payloadField(payload, 'channel_response_message') && (
+                        <div className="text-xs text-muted-foreground">{payloadField(payload, 'channel_response_message')}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button size="sm" onClick={() => openDecision(tx, 'approve')}>
+                          <CheckCircle className="mr-1 h-3 w-3" />
+                          Setujui
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => openDecision(tx, 'deny')}>
+                          <XCircle className="mr-1 h-3 w-3" />
+                          Tolak
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {decision === 'approve' ? 'Setujui Pembayaran' : 'Tolak Pembayaran'}
+                </DialogTitle>
+                <DialogDescription>
+                  <span className="font-mono">{selected.midtrans_order_id}</span> · {formatPrice(selected.amount)} ·{' '}
+                  {userNames[selected.user_id] || selected.user_id}
+                </DialogDescription>
+              </DialogHeader>
+
+              <p className="text-sm text-muted-foreground">
+                {decision === 'approve'
+                  ? 'Dana ditagihkan ke kartu dan premium diaktifkan.'
+                  : 'Tagihan dibatalkan, pembeli diberi tahu lewat email, dan order ditandai gagal.'}
+              </p>
+
+              {payloads[selected.midtrans_order_id] && (
+                <details className="rounded-lg border p-3">
+                  <summary className="cursor-pointer text-sm">Detail notifikasi Midtrans</summary>
+                  <pre className="mt-2 text-xs overflow-x-auto bg-muted p-2 rounded">
+                    {JSON.stringify(payloads[selected.midtrans_order_id], null, 2)}
+                  </pre>
+                </details>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="review-reason">Alasan</Label>
+                <Textarea
+                  id="review-reason"
+                  placeholder={decision === 'approve'
+                    ? 'Misalnya pemilik kartu sudah dikonfirmasi lewat telepon'
+                    : 'Misalnya nama pemilik kartu tidak cocok dengan akun'}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setSelected(null)}>
+                  Batal
+                </Button>
+                <Button
+                  variant={decision === 'approve' ? 'default' : 'destructive'}
+                  onClick={handleSubmit}
+                  disabled={!reason.trim() || isSubmitting}
+                >
+                  {isSubmitting ? 'Memproses...' : decision === 'approve' ? 'Setujui' : 'Tolak'}
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PaymentReviewManager;
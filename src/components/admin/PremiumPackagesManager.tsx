@@ -1,15 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Plus, Edit, Trash2, Calendar, Crown, Star } from 'lucide-react';
+import {
+  fetchPackageFeatures,
+  getFeatureIcon,
+  type PackageFeature,
+  type PackageFeatureLink,
+} from '@/lib/package-features';
+import PackageFeaturesManager from './PackageFeaturesManager';
+import { Plus, Edit, Trash2, Calendar, Crown, Star, Building2, ArrowUp, ArrowDown } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -22,6 +32,10 @@ interface PremiumPackage {
   description?: string;
   is_popular: boolean;
   is_active: boolean;
+  is_group: boolean;
+  min_seats: number;
+  price_includes_tax: boolean;
+  tax_rate: number | null;
   created_at: string;
 }
 
@@ -32,6 +46,10 @@ const packageSchema = z.object({
   description: z.string().optional(),
   is_popular: z.boolean(),
   is_active: z.boolean(),
+  is_group: z.boolean(),
+  min_seats: z.number().min(1, 'Minimal 1 kursi'),
+  price_includes_tax: z.boolean(),
+  tax_rate: z.number().min(0, 'Tarif tidak boleh negatif').max(99, 'Tarif maksimal 99%').optional(),
 });
 
 type PackageFormData = z.infer<typeof packageSchema>;
@@ -41,6 +59,13 @@ const PremiumPackagesManager = () => {
   const [loading, setLoading] = useState(true);
   const [editingPackage, setEditingPackage] = useState<PremiumPackage | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [defaultTaxRate, setDefaultTaxRate] = useState(11);
+  const [isSavingTaxRate, setIsSavingTaxRate] = useState(false);
+  const [features, setFeatures] = useState<PackageFeature[]>([]);
+  const [featureLinks, setFeatureLinks] = useState<PackageFeatureLink[]>([]);
+  // Features the package in the dialog includes, in the order its card lists them
+  const [selectedFeatureIds, setSelectedFeatureIds] = useState<string[]>([]);
+  const { user } = useAuth();
   const { toast } = useToast();
 
   const form = useForm<PackageFormData>({
@@ -52,6 +77,10 @@ const PremiumPackagesManager = () => {
       description: '',
       is_popular: false,
       is_active: true,
+      is_group: false,
+      min_seats: 1,
+      price_includes_tax: true,
+      tax_rate: undefined,
     },
   });
 
@@ -61,13 +90,15 @@ const PremiumPackagesManager = () => {
 
   const fetchPackages = async () => {
     try {
-      const { data, error } = await supabase
-        .from('premium_packages')
-        .select('*')
-        .order('duration_months', { ascending: true });
-
-      if (error) throw error;
-      setPackages(data || []);
+      const [packagesResult, taxResult] = await Promise.all([
+        supabase.from('premium_packages').select('*').order('duration_months', { ascending: true }),
+        supabase.from('tax_settings').select('default_rate').single(),
+      ]);
+
+      if (packagesResult.error) throw packagesResult.error;
+      if (taxResult.error) throw taxResult.error;
+      setPackages(packagesResult.data || []);
+      setDefaultTaxRate(Number(taxResult.data.default_rate));
     } catch (error) {
       console.error('Error fetching packages:', error);
       toast({
@@ -80,7 +111,65 @@ const PremiumPackagesManager = () => {
     }
   };
 
-  const onSubmit = async (data: PackageFormData) => {
+  const fetchFeatures = useCallback(async () => {
+    try {
+      const { features, links } = await fetchPackageFeatures();
+      setFeatures(features);
+      setFeatureLinks(links);
+    } catch (error) {
+      console.error('Error fetching package features:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat fitur paket',
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchFeatures();
+  }, [fetchFeatures]);
+
+  // Replaces the package's feature list with the one chosen in the dialog
+  const savePackageFeatures = async (packageId: string) => {
+    const { error: deleteError } = await supabase
+      .from('premium_package_features')
+      .delete()
+      .eq('package_id', packageId);
+
+    if (deleteError) throw deleteError;
+    if (selectedFeatureIds.length === 0) return;
+
+    const { error: insertError } = await supabase
+      .from('premium_package_features')
+      .insert(selectedFeatureIds.map((featureId, index) => ({
+        package_id: packageId,
+        feature_id: featureId,
+        sort_order: index,
+      })));
+
+    if (insertError) throw insertError;
+  };
+
+  const toggleFeature = (featureId: string, checked: boolean) => {
+    setSelectedFeatureIds((current) =>
+      checked ? [...current, featureId] : current.filter((id) => id !== featureId)
+    );
+  };
+
+  const moveFeature = (index: number, direction: -1 | 1) => {
+    setSelectedFeatureIds((current) => {
+      const reordered = [...current];
+      const [moved] = reordered.splice(index, 1);
+      reordered.splice(index + direction, 0, moved);
+      return reordered;
+    });
+  };
+
+  const onSubmit = async (formData: PackageFormData) => {
+    // An empty rate falls back to the default PPN rate
+    const data = { ...formData, tax_rate: formData.tax_rate ?? null };
+
     try {
       if (editingPackage) {
         // Update existing package
@@ -90,6 +179,7 @@ const PremiumPackagesManager = () => {
           .eq('id', editingPackage.id);
 
         if (error) throw error;
+        await savePackageFeatures(editingPackage.id);
 
         toast({
           title: 'Berhasil',
@@ -97,11 +187,14 @@ const PremiumPackagesManager = () => {
         });
       } else {
         // Create new package
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('premium_packages')
-          .insert(data as any);
+          .insert(data as any)
+          .select('id')
+          .single();
 
         if (error) throw error;
+        await savePackageFeatures(created.id);
 
         toast({
           title: 'Berhasil',
@@ -113,6 +206,7 @@ const PremiumPackagesManager = () => {
       setEditingPackage(null);
       setIsDialogOpen(false);
       fetchPackages();
+      fetchFeatures();
     } catch (error) {
       console.error('Error saving package:', error);
       toast({
@@ -131,6 +225,16 @@ const PremiumPackagesManager = () => {
     form.setValue('description', pkg.description || '');
     form.setValue('is_popular', pkg.is_popular);
     form.setValue('is_active', pkg.is_active);
+    form.setValue('is_group', pkg.is_group);
+    form.setValue('min_seats', pkg.min_seats);
+    form.setValue('price_includes_tax', pkg.price_includes_tax);
+    form.setValue('tax_rate', pkg.tax_rate ?? undefined);
+    setSelectedFeatureIds(
+      featureLinks
+        .filter((link) => link.package_id === pkg.id)
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map((link) => link.feature_id)
+    );
     setIsDialogOpen(true);
   };
 
@@ -160,9 +264,46 @@ const PremiumPackagesManager = () => {
     }
   };
 
+  const handleSaveTaxRate = async () => {
+    if (!(defaultTaxRate >= 0 && defaultTaxRate < 100)) {
+      toast({
+        title: 'Error',
+        description: 'Tarif PPN harus antara 0 dan 99%',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSavingTaxRate(true);
+    try {
+      const { error } = await supabase
+        .from('tax_settings')
+        .update({ default_rate: defaultTaxRate, updated_by: user?.id ?? null })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: 'Tarif PPN default diperbarui untuk pesanan berikutnya',
+      });
+    } catch (error) {
+      console.error('Error saving tax rate:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal menyimpan tarif PPN',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingTaxRate(false);
+    }
+  };
+
   const handleDialogClose = () => {
     setIsDialogOpen(false);
     setEditingPackage(null);
+    // New packages start with every active feature; admins untick what they leave out
+    setSelectedFeatureIds(features.filter((feature) => feature.is_active).map((feature) => feature.id));
     form.reset();
   };
 
@@ -202,7 +343,7 @@ const PremiumPackagesManager = () => {
               {width < 768 ? '' : 'Tambah paket'}
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-lg">
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingPackage ? 'Edit Paket Premium' : 'Tambah Paket Premium Baru'}
@@ -270,6 +411,50 @@ const PremiumPackagesManager = () => {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="price_includes_tax"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Harga Termasuk PPN</FormLabel>
+                        <FormDescription>
+                          Matikan jika harga di atas belum termasuk pajak; PPN akan ditambahkan saat checkout
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="tax_rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tarif PPN (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="99"
+                          step="0.01"
+                          placeholder={`${defaultTaxRate} (default)`}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormDescription>Kosongkan untuk memakai tarif default</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="description"
@@ -329,6 +514,110 @@ const PremiumPackagesManager = () => {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="is_group"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Lisensi Grup</FormLabel>
+                        <FormDescription>
+                          Harga dihitung per kursi untuk organisasi
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                {form.watch('is_group') && (
+                  <FormField
+                    control={form.control}
+                    name="min_seats"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimal Kursi</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="5"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="space-y-2">
+                  <Label>Fitur Paket</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Fitur yang dicentang tampil di kartu paket sesuai urutan di bawah
+                  </p>
+                  {features.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Belum ada fitur. Tambahkan di bagian Fitur Paket.</p>
+                  ) : (
+                    <div className="rounded-lg border divide-y">
+                      {[
+                        ...selectedFeatureIds
+                          .map((id) => features.find((feature) => feature.id === id))
+                          .filter((feature): feature is PackageFeature => !!feature),
+                        ...features.filter((feature) => !selectedFeatureIds.includes(feature.id)),
+                      ].map((feature) => {
+                        const Icon = getFeatureIcon(feature.icon);
+                        const position = selectedFeatureIds.indexOf(feature.id);
+                        const included = position !== -1;
+                        return (
+                          <div key={feature.id} className="flex items-center gap-2 p-2">
+                            <Checkbox
+                              id={`feature-${feature.id}`}
+                              checked={included}
+                              onCheckedChange={(checked) => toggleFeature(feature.id, checked === true)}
+                            />
+                            <Icon className="h-4 w-4 shrink-0 text-primary" />
+                            <label
+                              htmlFor={`feature-${feature.id}`}
+                              className={`flex-1 text-sm ${feature.is_active ? '' : 'text-muted-foreground line-through'}`}
+                            >
+                              {feature.title}
+                            </label>
+                            {included && (
+                              <>
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => moveFeature(position, -1)}
+                                  disabled={position === 0}
+                                >
+                                  <ArrowUp className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => moveFeature(position, 1)}
+                                  disabled={position === selectedFeatureIds.length - 1}
+                                >
+                                  <ArrowDown className="h-3 w-3" />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
                 <div className="flex justify-end space-x-2">
                   <Button type="button" variant="outline" onClick={handleDialogClose}>
                     Batal
@@ -343,6 +632,28 @@ const PremiumPackagesManager = () => {
         </Dialog>
       </div>
 
+      <div className="flex flex-wrap items-end gap-3 rounded-lg border p-3">
+        <div className="space-y-2">
+          <Label htmlFor="default-tax-rate">Tarif PPN default (%)</Label>
+          <Input
+            id="default-tax-rate"
+            type="number"
+            min={0}
+            max={99}
+            step="0.01"
+            className="w-32"
+            value={defaultTaxRate}
+            onChange={(e) => setDefaultTaxRate(Number(e.target.value))}
+          />
+        </div>
+        <Button variant="outline" onClick={handleSaveTaxRate} disabled={isSavingTaxRate}>
+          {isSavingTaxRate ? 'Menyimpan...' : 'Simpan tarif'}
+        </Button>
+        <p className="text-sm text-muted-foreground">
+          Berlaku untuk paket tanpa tarif khusus. Pesanan yang sudah dibuat tidak berubah.
+        </p>
+      </div>
+
       <div className="border rounded-lg">
         <Table>
           <TableHeader>
@@ -350,6 +661,7 @@ const PremiumPackagesManager = () => {
               <TableHead>Nama Paket</TableHead>
               <TableHead>Durasi</TableHead>
               <TableHead>Harga</TableHead>
+              <TableHead>Fitur</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Tanggal Dibuat</TableHead>
               <TableHead className="text-right">Aksi</TableHead>
@@ -358,7 +670,7 @@ const PremiumPackagesManager = () => {
           <TableBody>
             {packages.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                   Belum ada paket premium
                 </TableCell>
               </TableRow>
@@ -379,6 +691,12 @@ const PremiumPackagesManager = () => {
                           Populer
                         </Badge>
                       )}
+                      {pkg.is_group && (
+                        <Badge variant="outline">
+                          <Building2 className="mr-1 h-3 w-3" />
+                          Grup · min {pkg.min_seats}
+                        </Badge>
+                      )}
                     </div>
                   </TableCell>
                   <TableCell>
@@ -387,7 +705,13 @@ const PremiumPackagesManager = () => {
                     </Badge>
                   </TableCell>
                   <TableCell className="font-medium">
-                    {formatPrice(pkg.price)}
+                    {formatPrice(pkg.price)}{pkg.is_group && ' / kursi'}
+                    <div className="text-xs font-normal text-muted-foreground">
+                      {pkg.price_includes_tax ? 'Termasuk' : '+'} PPN {pkg.tax_rate ?? defaultTaxRate}%
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {featureLinks.filter((link) => link.package_id === pkg.id).length} fitur
                   </TableCell>
                   <TableCell>
                     {pkg.is_active ? (
@@ -426,6 +750,8 @@ const PremiumPackagesManager = () => {
           </TableBody>
         </Table>
       </div>
+
+      <PackageFeaturesManager features={features} onChange={fetchFeatures} />
     </div>
   );
 };
@@ -0,0 +1,687 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Download, Eye, RefreshCw, CheckCircle, Search, Undo2 } from 'lucide-react';
+
+interface Transaction {
+  id: string;
+  user_id: string;
+  midtrans_order_id: string;
+  midtrans_transaction_id: string | null;
+  package_id: string | null;
+  package_name: string;
+  duration_months: number;
+  original_amount: number;
+  discount_amount: number;
+  voucher_code: string | null;
+  amount: number;
+  tax_rate: number;
+  tax_amount: number;
+  status: string;
+  payment_type: string | null;
+  invoice_number: string | null;
+  created_at: string;
+  paid_at: string | null;
+  refunded_amount: number;
+  refunded_at: string | null;
+}
+
+interface PaymentEvent {
+  id: string;
+  midtrans_transaction_id: string;
+  transaction_status: string;
+  fraud_status: string | null;
+  payment_type: string | null;
+  payload: Json;
+  created_at: string;
+}
+
+interface AuditLog {
+  id: string;
+  action: string;
+  actor_id: string | null;
+  details: Json;
+  created_at: string;
+}
+
+interface PackageOption {
+  id: string;
+  name: string;
+}
+
+const ALL = 'all';
+
+// Orders that brought in money, net of what was refunded since
+const COLLECTED_STATUSES = ['paid', 'partially_refunded'];
+
+const statusBadge = (status: string) => {
+  switch (status) {
+    case 'paid':
+      return <Badge className="bg-green-500/20 text-green-300">Lunas</Badge>;
+    case 'pending':
+      return <Badge variant="secondary">Menunggu</Badge>;
+    case 'review':
+      return <Badge className="bg-yellow-500/20 text-yellow-300">Ditinjau</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Gagal</Badge>;
+    case 'partially_refunded':
+      return <Badge className="bg-orange-500/20 text-orange-300">Refund Sebagian</Badge>;
+    case 'refunded':
+      return <Badge variant="outline">Dikembalikan</Badge>;
+    case 'charged_back':
+      return <Badge variant="destructive">Chargeback</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
+
+const csvEscape = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const TransactionsManager = () => {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [packages, setPackages] = useState<PackageOption[]>([]);
+  const [paymentTypes, setPaymentTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [packageFilter, setPackageFilter] = useState(ALL);
+  const [paymentTypeFilter, setPaymentTypeFilter] = useState(ALL);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [userQuery, setUserQuery] = useState('');
+  const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  const [events, setEvents] = useState<PaymentEvent[]>([]);
+  const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+  const [isRechecking, setIsRechecking] = useState(false);
+  const [markPaidReason, setMarkPaidReason] = useState('');
+  const [isMarkingPaid, setIsMarkingPaid] = useState(false);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [isRefunding, setIsRefunding] = useState(false);
+  const { toast } = useToast();
+
+  const fetchOptions = useCallback(async () => {
+    const [profilesResult, packagesResult] = await Promise.all([
+      supabase.from('profiles').select('id, nama'),
+      supabase.from('premium_packages').select('id, name').order('duration_months', { ascending: true }),
+    ]);
+
+    const names: Record<string, string> = {};
+    profilesResult.data?.forEach((profile) => {
+      names[profile.id] = profile.nama;
+    });
+    setUserNames(names);
+    setPackages(packagesResult.data || []);
+  }, []);
+
+  const fetchTransactions = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('transactions')
+        .select('id, user_id, midtrans_order_id, midtrans_transaction_id, package_id, package_name, duration_months, original_amount, discount_amount, voucher_code, amount, tax_rate, tax_amount, status, payment_type, invoice_number, created_at, paid_at, refunded_amount, refunded_at')
+        .order('created_at', { ascending: false });
+
+      if (statusFilter !== ALL) query = query.eq('status', statusFilter);
+      if (packageFilter !== ALL) query = query.eq('package_id', packageFilter);
+      if (paymentTypeFilter !== ALL) query = query.eq('payment_type', paymentTypeFilter);
+      // Dates are whole days in Jakarta time
+      if (dateFrom) query = query.gte('created_at', `${dateFrom}T00:00:00+07:00`);
+      if (dateTo) query = query.lte('created_at', `${dateTo}T23:59:59+07:00`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setTransactions(data || []);
+      setPaymentTypes((previous) =>
+        Array.from(new Set([...previous, ...(data || []).map((tx) => tx.payment_type).filter((type): type is string => !!type)])).sort()
+      );
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat transaksi',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, packageFilter, paymentTypeFilter, dateFrom, dateTo, toast]);
+
+  useEffect(() => {
+    fetchOptions();
+  }, [fetchOptions]);
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [fetchTransactions]);
+
+  // User filter matches the member's name or the order id
+  const filteredTransactions = transactions.filter((tx) => {
+    if (!userQuery) return true;
+    const query = userQuery.toLowerCase();
+    return (
+      (userNames[tx.user_id] || '').toLowerCase().includes(query) ||
+      tx.midtrans_order_id.toLowerCase().includes(query) ||
+      tx.user_id === userQuery
+    );
+  });
+
+  const paidTransactions = filteredTransactions.filter((tx) => COLLECTED_STATUSES.includes(tx.status));
+  // Tax on a partly refunded order shrinks with the amount kept
+  const keptShare = (tx: Transaction) => (tx.amount - tx.refunded_amount) / tx.amount;
+  const totals = {
+    count: filteredTransactions.length,
+    paidCount: paidTransactions.length,
+    pendingCount: filteredTransactions.filter((tx) => tx.status === 'pending').length,
+    revenue: paidTransactions.reduce((sum, tx) => sum + tx.amount - tx.refunded_amount, 0),
+    tax: paidTransactions.reduce((sum, tx) => sum + Math.round(tx.tax_amount * keptShare(tx)), 0),
+    discounts: paidTransactions.reduce((sum, tx) => sum + tx.discount_amount, 0),
+    refunds: filteredTransactions.reduce((sum, tx) => sum + tx.refunded_amount, 0),
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const formatDateTime = (value: string | null) =>
+    value ? new Date(value).toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' }) : '-';
+
+  const openDetail = async (transaction: Transaction) => {
+    setSelectedTransaction(transaction);
+    setMarkPaidReason('');
+    setRefundAmount(String(transaction.amount - transaction.refunded_amount));
+    setRefundReason('');
+    setEvents([]);
+    setAuditLogs([]);
+
+    const [eventsResult, auditResult] = await Promise.all([
+      supabase
+        .from('payment_events')
+        .select('id, midtrans_transaction_id, transaction_status, fraud_status, payment_type, payload, created_at')
+        .eq('order_id', transaction.midtrans_order_id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('audit_logs')
+        .select('id, action, actor_id, details, created_at')
+        .eq('target_type', 'transaction')
+        .eq('target_id', transaction.id)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (eventsResult.error || auditResult.error) {
+      console.error('Error fetching transaction detail:', eventsResult.error || auditResult.error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat riwayat webhook',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setEvents(eventsResult.data || []);
+    setAuditLogs(auditResult.data || []);
+  };
+
+  const refreshSelected = async (transactionId: string) => {
+    const { data } = await supabase
+      .from('transactions')
+      .select('id, user_id, midtrans_order_id, midtrans_transaction_id, package_id, package_name, duration_months, original_amount, discount_amount, voucher_code, amount, tax_rate, tax_amount, status, payment_type, invoice_number, created_at, paid_at, refunded_amount, refunded_at')
+      .eq('id', transactionId)
+      .maybeSingle();
+
+    if (data) await openDetail(data);
+    fetchTransactions();
+  };
+
+  const handleRecheck = async () => {
+    if (!selectedTransaction) return;
+
+    setIsRechecking(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-transactions', {
+        body: { action: 'recheck', transaction_id: selectedTransaction.id }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Status Diperiksa',
+        description: `Midtrans: ${data?.midtrans?.transaction_status || 'belum ada pembayaran'}, status order: ${data?.status}`,
+      });
+      await refreshSelected(selectedTransaction.id);
+    } catch (error) {
+      console.error('Error re-checking transaction:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memeriksa status ke Midtrans',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRechecking(false);
+    }
+  };
+
+  const handleMarkPaid = async () => {
+    if (!selectedTransaction || !markPaidReason.trim()) return;
+    if (!confirm(`Tandai order ${selectedTransaction.midtrans_order_id} sebagai lunas dan aktifkan premium?`)) return;
+
+    setIsMarkingPaid(true);
+    try {
+      const { error } = await supabase.functions.invoke('admin-transactions', {
+        body: { action: 'mark_paid', transaction_id: selectedTransaction.id, reason: markPaidReason.trim() }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: 'Order ditandai lunas dan premium telah diaktifkan',
+      });
+      setMarkPaidReason('');
+      await refreshSelected(selectedTransaction.id);
+    } catch (error) {
+      console.error('Error marking transaction paid:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal menandai order sebagai lunas',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsMarkingPaid(false);
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!selectedTransaction || !refundReason.trim()) return;
+
+    const amount = Number(refundAmount);
+    const remaining = selectedTransaction.amount - selectedTransaction.refunded_amount;
+    if (!Number.isInteger(amount) || amount <= 0 || amount > remaining) {
+      toast({
+        title: 'Jumlah tidak valid',
+        description: `Jumlah refund harus antara 1 dan ${formatPrice(remaining)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!confirm(`Kembalikan ${formatPrice(amount)} untuk order ${selectedTransaction.midtrans_order_id}? Masa premium dari order ini ikut dikurangi.`)) return;
+
+    setIsRefunding(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-transactions', {
+        body: { action: 'refund', transaction_id: selectedTransaction.id, amount, reason: refundReason.trim() }
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: `Refund ${formatPrice(amount)} diproses, status order: ${data?.status}`,
+      });
+      await refreshSelected(selectedTransaction.id);
+    } catch (error) {
+      console.error('Error refunding transaction:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memproses refund',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    const header = [
+      'order_id', 'invoice_number', 'user_id', 'nama', 'package', 'duration_months',
+      'original_amount', 'discount_amount', 'voucher_code', 'amount', 'tax_rate', 'tax_amount', 'net_amount', 'status',
+      'payment_type', 'created_at', 'paid_at', 'refunded_amount', 'refunded_at'
+    ];
+    const rows = filteredTransactions.map((tx) => [
+      tx.midtrans_order_id, tx.invoice_number, tx.user_id, userNames[tx.user_id] ?? null, tx.package_name,
+      tx.duration_months, tx.original_amount, tx.discount_amount, tx.voucher_code, tx.amount,
+      tx.tax_rate, tx.tax_amount, tx.amount - tx.tax_amount, tx.status,
+      tx.payment_type, tx.created_at, tx.paid_at, tx.refunded_amount, tx.refunded_at
+    ]);
+    const csv = [header, ...rows].map((row) => row.map(csvEscape).join(',')).join('\n');
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `transaksi-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <div>
+          <Label>Status</Label>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua status</SelectItem>
+              <SelectItem value="paid">Lunas</SelectItem>
+              <SelectItem value="pending">Menunggu</SelectItem>
+              <SelectItem value="review">Ditinjau</SelectItem>
+              <SelectItem value="failed">Gagal</SelectItem>
+              <SelectItem value="partially_refunded">Refund Sebagian</SelectItem>
+              <SelectItem value="refunded">Dikembalikan</SelectItem>
+              <SelectItem value="charged_back">Chargeback</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Paket</Label>
+          <Select value={packageFilter} onValueChange={setPackageFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua paket</SelectItem>
+              {packages.map((pkg) => (
+                <SelectItem key={pkg.id} value={pkg.id}>{pkg.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Metode</Label>
+          <Select value={paymentTypeFilter} onValueChange={setPaymentTypeFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua metode</SelectItem>
+              {paymentTypes.map((type) => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Dari</Label>
+          <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+        </div>
+        <div>
+          <Label>Sampai</Label>
+          <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+        </div>
+        <div>
+          <Label>Pengguna / Order ID</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Cari..."
+              value={userQuery}
+              onChange={(e) => setUserQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Transaksi</CardDescription>
+            <CardTitle className="text-2xl">{totals.count}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Lunas / Menunggu</CardDescription>
+            <CardTitle className="text-2xl">{totals.paidCount} / {totals.pendingCount}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Pendapatan</CardDescription>
+            <CardTitle className="text-2xl">{formatPrice(totals.revenue)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Pendapatan Bersih (DPP)</CardDescription>
+            <CardTitle className="text-2xl">{formatPrice(totals.revenue - totals.tax)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>PPN Terkumpul</CardDescription>
+            <CardTitle className="text-2xl">{formatPrice(totals.tax)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Diskon</CardDescription>
+            <CardTitle className="text-2xl">{formatPrice(totals.discounts)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Refund</CardDescription>
+            <CardTitle className="text-2xl">{formatPrice(totals.refunds)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">Daftar Transaksi</h3>
+        <Button variant="outline" onClick={handleExportCsv} disabled={filteredTransactions.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Pengguna</TableHead>
+              <TableHead>Paket</TableHead>
+              <TableHead>Jumlah</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Metode</TableHead>
+              <TableHead>Tanggal</TableHead>
+              <TableHead className="text-right">Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                  Memuat transaksi...
+                </TableCell>
+              </TableRow>
+            ) : filteredTransactions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                  Tidak ada transaksi
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredTransactions.map((tx) => (
+                <TableRow key={tx.id}>
+                  <TableCell>
+                    <div className="font-mono text-xs">{tx.midtrans_order_id}</div>
+                    {tx.invoice_number && (
+                      <div className="text-xs text-muted-foreground">{tx.invoice_number}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{userNames[tx.user_id] || tx.user_id.substring(0, 8)}</TableCell>
+                  <TableCell>{tx.package_name}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{formatPrice(tx.amount)}</div>
+                    {tx.voucher_code && (
+                      <div className="text-xs text-muted-foreground">{tx.voucher_code}</div>
+                    )}
+                    {tx.refunded_amount > 0 && (
+                      <div className="text-xs text-muted-foreground">Refund {formatPrice(tx.refunded_amount)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{statusBadge(tx.status)}</TableCell>
+                  <TableCell>{tx.payment_type || '-'}</TableCell>
+                  <TableCell className="text-sm">{new Date(tx.created_at).toLocaleDateString('id-ID')}</TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => openDetail(tx)}>
+                      <Eye className="h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Drill-down */}
+      <Dialog open={!!selectedTransaction} onOpenChange={(open) => !open && setSelectedTransaction(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {selectedTransaction && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-mono">{selectedTransaction.midtrans_order_id}</DialogTitle>
+                <DialogDescription>
+                  {userNames[selectedTransaction.user_id] || selectedTransaction.user_id} · {selectedTransaction.package_name}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>Status: {statusBadge(selectedTransaction.status)}</div>
+                <div>Jumlah: {formatPrice(selectedTransaction.amount)}</div>
+                <div>PPN {Number(selectedTransaction.tax_rate)}%: {formatPrice(selectedTransaction.tax_amount)}</div>
+                <div>Dibuat: {formatDateTime(selectedTransaction.created_at)}</div>
+                <div>Dibayar: {formatDateTime(selectedTransaction.paid_at)}</div>
+                <div>Metode: {selectedTransaction.payment_type || '-'}</div>
+                <div>Midtrans ID: {selectedTransaction.midtrans_transaction_id || '-'}</div>
+                {selectedTransaction.refunded_amount > 0 && (
+                  <div>
+                    Dikembalikan: {formatPrice(selectedTransaction.refunded_amount)} ·{' '}
+                    {formatDateTime(selectedTransaction.refunded_at)}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Notifikasi Midtrans</h4>
+                {events.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Belum ada notifikasi untuk order ini</p>
+                ) : (
+                  events.map((event) => (
+                    <details key={event.id} className="rounded-lg border p-3">
+                      <summary className="cursor-pointer text-sm">
+                        {formatDateTime(event.created_at)} · {event.transaction_status}
+                        {event.fraud_status ? ` (${event.fraud_status})` : ''} · {event.payment_type || '-'}
+                      </summary>
+                      <pre className="mt-2 text-xs overflow-x-auto bg-muted p-2 rounded">
+                        {JSON.stringify(event.payload, null, 2)}
+                      </pre>
+                    </details>
+                  ))
+                )}
+              </div>
+
+              {auditLogs.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Tindakan Admin</h4>
+                  {auditLogs.map((log) => (
+                    <div key={log.id} className="rounded-lg border p-3 text-sm">
+                      <div>{formatDateTime(log.created_at)} · {log.action} oleh {userNames[log.actor_id ?? ''] || 'sistem'}</div>
+                      <pre className="mt-1 text-xs text-muted-foreground whitespace-pre-wrap">
+                        {JSON.stringify(log.details, null, 2)}
+                      </pre>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-3 border-t pt-4">
+                <Button variant="outline" onClick={handleRecheck} disabled={isRechecking}>
+                  <RefreshCw className={`mr-2 h-4 w-4 ${isRechecking ? 'animate-spin' : ''}`} />
+                  Periksa Ulang ke Midtrans
+                </Button>
+
+                {selectedTransaction.status === 'review' && (
+                  <p className="text-sm text-muted-foreground">
+                    Pembayaran ini ditahan pemeriksaan fraud. Setujui atau tolak dari Antrean Tinjauan Pembayaran.
+                  </p>
+                )}
+
+                {COLLECTED_STATUSES.includes(selectedTransaction.status) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="refund-amount">Refund</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Dana dikembalikan lewat Midtrans dan masa premium dari order ini dikurangi sebanding
+                      dengan jumlahnya. Pembeli menerima email konfirmasi.
+                    </p>
+                    <Input
+                      id="refund-amount"
+                      type="number"
+                      min={1}
+                      max={selectedTransaction.amount - selectedTransaction.refunded_amount}
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                    />
+                    <Textarea
+                      placeholder="Alasan, misalnya permintaan pembatalan dari pembeli"
+                      value={refundReason}
+                      onChange={(e) => setRefundReason(e.target.value)}
+                    />
+                    <Button variant="destructive" onClick={handleRefund} disabled={!refundReason.trim() || isRefunding}>
+                      <Undo2 className="mr-2 h-4 w-4" />
+                      {isRefunding ? 'Memproses...' : 'Proses Refund'}
+                    </Button>
+                  </div>
+                )}
+
+                {(selectedTransaction.status === 'pending' || selectedTransaction.status === 'failed') && (
+                  <div className="space-y-2">
+                    <Label htmlFor="mark-paid-reason">Tandai Lunas Manual</Label>
+                    <Textarea
+                      id="mark-paid-reason"
+                      placeholder="Alasan, misalnya bukti transfer yang sudah diverifikasi"
+                      value={markPaidReason}
+                      onChange={(e) => setMarkPaidReason(e.target.value)}
+                    />
+                    <Button onClick={handleMarkPaid} disabled={!markPaidReason.trim() || isMarkingPaid}>
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                      {isMarkingPaid ? 'Memproses...' : 'Tandai Lunas'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TransactionsManager;
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface TrialReportRow {
+  month: string;
+  started: number;
+  active: number;
+  converted: number;
+  converted_during_trial: number;
+}
+
+const formatRate = (converted: number, started: number) =>
+  started > 0 ? `${((converted / started) * 100).toFixed(1)}%` : '-';
+
+const TrialManager = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [durationDays, setDurationDays] = useState(7);
+  const [report, setReport] = useState<TrialReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTrials = useCallback(async () => {
+    try {
+      const [settingsResult, reportResult] = await Promise.all([
+        supabase.from('trial_settings').select('enabled, duration_days').single(),
+        supabase.rpc('trial_report'),
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+      if (reportResult.error) throw reportResult.error;
+
+      setEnabled(settingsResult.data.enabled);
+      setDurationDays(settingsResult.data.duration_days);
+      setReport(reportResult.data || []);
+    } catch (error) {
+      console.error('Error fetching trials:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat data trial',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTrials();
+  }, [fetchTrials]);
+
+  const handleSave = async () => {
+    if (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > 90) {
+      toast({
+        title: 'Error',
+        description: 'Durasi trial harus antara 1 dan 90 hari',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('trial_settings')
+        .update({ enabled, duration_days: durationDays, updated_by: user?.id ?? null })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: enabled
+          ? `Pengguna baru kini mendapat trial premium ${durationDays} hari`
+          : 'Trial untuk pengguna baru dinonaktifkan',
+      });
+    } catch (error) {
+      console.error('Error saving trial settings:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal menyimpan pengaturan trial',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Memuat data trial...</div>;
+  }
+
+  const totals = report.reduce(
+    (sum, row) => ({
+      started: sum.started + row.started,
+      active: sum.active + row.active,
+      converted: sum.converted + row.converted,
+      converted_during_trial: sum.converted_during_trial + row.converted_during_trial,
+    }),
+    { started: 0, active: 0, converted: 0, converted_during_trial: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="trial-enabled" className="text-base">Trial untuk pengguna baru</Label>
+            <p className="text-sm text-muted-foreground">
+              Setiap akun dan email hanya bisa mendapat satu kali trial. Perubahan berlaku untuk pendaftaran berikutnya.
+            </p>
+          </div>
+          <Switch id="trial-enabled" checked={enabled} onCheckedChange={setEnabled} />
+        </div>
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="trial-duration">Durasi (hari)</Label>
+            <Input
+              id="trial-duration"
+              type="number"
+              min={1}
+              max={90}
+              className="w-32"
+              value={durationDays}
+              onChange={(e) => setDurationDays(Number(e.target.value))}
+            />
+          </div>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Menyimpan...' : 'Simpan'}
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Konversi Trial</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Bulan</TableHead>
+              <TableHead className="text-right">Trial dimulai</TableHead>
+              <TableHead className="text-right">Masih aktif</TableHead>
+              <TableHead className="text-right">Berlangganan</TableHead>
+              <TableHead className="text-right">Selama trial</TableHead>
+              <TableHead className="text-right">Konversi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.map((row) => (
+              <TableRow key={row.month}>
+                <TableCell>
+                  {new Date(row.month).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}
+                </TableCell>
+                <TableCell className="text-right">{row.started}</TableCell>
+                <TableCell className="text-right">{row.active}</TableCell>
+                <TableCell className="text-right">{row.converted}</TableCell>
+                <TableCell className="text-right">{row.converted_during_trial}</TableCell>
+                <TableCell className="text-right">{formatRate(row.converted, row.started)}</TableCell>
+              </TableRow>
+            ))}
+            {report.length > 0 ? (
+              <TableRow className="font-semibold">
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{totals.started}</TableCell>
+                <TableCell className="text-right">{totals.active}</TableCell>
+                <TableCell className="text-right">{totals.converted}</TableCell>
+                <TableCell className="text-right">{totals.converted_during_trial}</TableCell>
+                <TableCell className="text-right">{formatRate(totals.converted, totals.started)}</TableCell>
+              </TableRow>
+            ) : (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  Belum ada trial
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default TrialManager;
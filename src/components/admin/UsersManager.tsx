@@ -17,8 +17,14 @@ interface Profile {
   id: string;
   nama: string;
   role: 'biasa' | 'premium' | 'admin';
+  is_premium: boolean;
   premium_until?: string;
   created_at: string;
+  auto_renewal?: {
+    status: string;
+    next_charge_at: string;
+    failed_attempts: number;
+  };
 }
 
 const userUpdateSchema = z.object({
@@ -65,12 +71,31 @@ const UsersManager = () => {
 
       if (rolesError) throw rolesError;
 
-      // Combine profiles with their roles
+      // Fetch premium entitlements
+      const { data: entitlementsData, error: entitlementsError } = await supabase
+        .rpc('list_entitlements');
+
+      if (entitlementsError) throw entitlementsError;
+
+      // Fetch auto renewal state
+      const { data: renewalsData, error: renewalsError } = await supabase
+        .from('auto_renewal_details')
+        .select('user_id, status, next_charge_at, failed_attempts');
+
+      if (renewalsError) throw renewalsError;
+
+      // Combine profiles with their roles and entitlements
       const usersWithRoles = (profilesData || []).map(profile => {
-        const userRole = rolesData?.find(r => r.user_id === profile.id);
+        const isAdmin = rolesData?.some(r => r.user_id === profile.id && r.role === 'admin');
+        const entitlement = entitlementsData?.find(e => e.user_id === profile.id);
+        const isPremium = entitlement?.is_premium ?? false;
+        const renewal = renewalsData?.find(r => r.user_id === profile.id);
         return {
           ...profile,
-          role: (userRole?.role || 'biasa') as 'biasa' | 'premium' | 'admin'
+          role: (isAdmin ? 'admin' : isPremium ? 'premium' : 'biasa') as 'biasa' | 'premium' | 'admin',
+          is_premium: isPremium,
+          premium_until: entitlement?.premium_until ?? undefined,
+          auto_renewal: renewal,
         };
       });
 
@@ -95,41 +120,17 @@ const UsersManager = () => {
     if (!editingUser) return;
 
     try {
-      // Update profile's premium_until
-      const profileUpdateData: any = {};
-      
-      // Only include premium_until if role is premium and date is provided
-      if (data.role === 'premium' && data.premium_until) {
-        profileUpdateData.premium_until = new Date(data.premium_until).toISOString();
-      } else if (data.role !== 'premium') {
-        profileUpdateData.premium_until = null;
-      }
-
-      // Update profiles table if there are changes
-      if (Object.keys(profileUpdateData).length > 0) {
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .update(profileUpdateData)
-          .eq('id', editingUser.id);
-
-        if (profileError) throw profileError;
-      }
-
-      // Update role in user_roles table
-      // First, delete existing role
-      const { error: deleteError } = await supabase
-        .from('user_roles')
-        .delete()
-        .eq('user_id', editingUser.id);
-
-      if (deleteError) throw deleteError;
-
-      // Then insert new role
-      const { error: insertError } = await supabase
-        .from('user_roles')
-        .insert({ user_id: editingUser.id, role: data.role });
+      // Role and premium access are updated together through the entitlement model.
+      // An empty date for a premium user means premium without expiry.
+      const { error } = await supabase.rpc('admin_update_user_access', {
+        _user_id: editingUser.id,
+        _role: data.role,
+        _premium_until: data.role === 'premium' && data.premium_until
+          ? new Date(data.premium_until).toISOString()
+          : undefined,
+      });
 
-      if (insertError) throw insertError;
+      if (error) throw error;
 
       toast({
         title: 'Berhasil',
@@ -184,12 +185,11 @@ const UsersManager = () => {
       );
     }
     
-    if (user.role === 'premium') {
-      const isPremiumActive = !user.premium_until || new Date(user.premium_until) > new Date();
+    if (user.is_premium) {
       return (
-        <Badge className={isPremiumActive ? "premium-badge" : "bg-gray-500/20 text-gray-300"}>
+        <Badge className="premium-badge">
           <Crown className="mr-1 h-3 w-3" />
-          Premium {!isPremiumActive ? '(Expired)' : ''}
+          Premium
         </Badge>
       );
     }
@@ -202,6 +202,30 @@ const UsersManager = () => {
     );
   };
 
+  const getAutoRenewalBadge = (user: Profile) => {
+    if (!user.auto_renewal) {
+      return <span className="text-muted-foreground text-sm">-</span>;
+    }
+
+    const { status, next_charge_at, failed_attempts } = user.auto_renewal;
+    if (status === 'canceled') {
+      return <Badge variant="outline">Dibatalkan</Badge>;
+    }
+
+    return (
+      <div className="space-y-1">
+        {status === 'past_due' ? (
+          <Badge variant="destructive">Tertunda ({failed_attempts}x gagal)</Badge>
+        ) : (
+          <Badge variant="secondary">Aktif</Badge>
+        )}
+        <div className="text-xs text-muted-foreground">
+          Tagih {new Date(next_charge_at).toLocaleDateString('id-ID')}
+        </div>
+      </div>
+    );
+  };
+
   const [width, setWidth] = useState(window.innerWidth);
   const [height, setHeight] = useState(window.innerHeight);
 
@@ -253,7 +277,7 @@ const UsersManager = () => {
             <div>
               <p className="text-sm text-muted-foreground">Premium Aktif</p>
               <p className="text-2xl font-bold">
-                {users.filter(u => u.role === 'premium' && (!u.premium_until || new Date(u.premium_until) > new Date())).length}
+                {users.filter(u => u.is_premium).length}
               </p>
             </div>
             <Crown className="h-8 w-8 text-primary" />
@@ -279,6 +303,7 @@ const UsersManager = () => {
               <TableHead>Nama</TableHead>
               <TableHead>Role</TableHead>
               <TableHead>Premium Hingga</TableHead>
+              <TableHead>Perpanjang Otomatis</TableHead>
               <TableHead>Bergabung</TableHead>
               <TableHead className="text-right">Aksi</TableHead>
             </TableRow>
@@ -286,7 +311,7 @@ const UsersManager = () => {
           <TableBody>
             {filteredUsers.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
                   {searchQuery ? 'Pengguna tidak ditemukan' : 'Belum ada pengguna terdaftar'}
                 </TableCell>
               </TableRow>
@@ -299,16 +324,14 @@ const UsersManager = () => {
                     {user.premium_until ? (
                       <div className="text-sm">
                         {new Date(user.premium_until).toLocaleDateString('id-ID')}
-                        {new Date(user.premium_until) <= new Date() && (
-                          <Badge variant="destructive" className="ml-2 text-xs">
-                            Expired
-                          </Badge>
-                        )}
                       </div>
+                    ) : user.is_premium ? (
+                      <span className="text-sm">Tanpa batas</span>
                     ) : (
                       <span className="text-muted-foreground text-sm">-</span>
                     )}
                   </TableCell>
+                  <TableCell>{getAutoRenewalBadge(user)}</TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1 text-sm text-muted-foreground">
                       <Calendar className="h-3 w-3" />
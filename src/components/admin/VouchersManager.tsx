@@ -0,0 +1,594 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Plus, Edit, Trash2, Ticket } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+
+interface Voucher {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: string;
+  discount_value: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  max_uses: number | null;
+  max_uses_per_user: number | null;
+  package_ids: string[] | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+interface VoucherUsage {
+  paid_uses: number;
+  pending_uses: number;
+  total_discount: number;
+}
+
+interface PackageOption {
+  id: string;
+  name: string;
+}
+
+const voucherSchema = z.object({
+  code: z.string().min(3, 'Kode minimal 3 karakter').regex(/^[A-Z0-9_-]+$/, 'Gunakan huruf kapital, angka, - atau _'),
+  description: z.string().optional(),
+  discount_type: z.enum(['percentage', 'fixed']),
+  discount_value: z.number().min(1, 'Nilai diskon minimal 1'),
+  starts_at: z.string().optional(),
+  ends_at: z.string().optional(),
+  max_uses: z.number().min(1).optional(),
+  max_uses_per_user: z.number().min(1).optional(),
+  package_ids: z.array(z.string()),
+  is_active: z.boolean(),
+}).refine((data) => data.discount_type !== 'percentage' || data.discount_value <= 100, {
+  message: 'Diskon persentase maksimal 100%',
+  path: ['discount_value'],
+}).refine((data) => !data.starts_at || !data.ends_at || data.starts_at <= data.ends_at, {
+  message: 'Tanggal berakhir harus setelah tanggal mulai',
+  path: ['ends_at'],
+});
+
+type VoucherFormData = z.infer<typeof voucherSchema>;
+
+// Validity dates are entered as whole days in Jakarta time
+const toStartOfDay = (date?: string) => (date ? `${date}T00:00:00+07:00` : null);
+const toEndOfDay = (date?: string) => (date ? `${date}T23:59:59+07:00` : null);
+const toDateInput = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-CA', { timeZone: 'Asia/Jakarta' }) : '';
+
+const VouchersManager = () => {
+  const [vouchers, setVouchers] = useState<Voucher[]>([]);
+  const [usage, setUsage] = useState<Record<string, VoucherUsage>>({});
+  const [packages, setPackages] = useState<PackageOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingVoucher, setEditingVoucher] = useState<Voucher | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<VoucherFormData>({
+    resolver: zodResolver(voucherSchema),
+    defaultValues: {
+      code: '',
+      description: '',
+      discount_type: 'percentage',
+      discount_value: 10,
+      starts_at: '',
+      ends_at: '',
+      max_uses: undefined,
+      max_uses_per_user: 1,
+      package_ids: [],
+      is_active: true,
+    },
+  });
+
+  const fetchVouchers = useCallback(async () => {
+    try {
+      const [vouchersResult, usageResult, packagesResult] = await Promise.all([
+        supabase.from('vouchers').select('*').order('created_at', { ascending: false }),
+        supabase.rpc('list_voucher_usage'),
+        supabase.from('premium_packages').select('id, name').order('duration_months', { ascending: true }),
+      ]);
+
+      if (vouchersResult.error) throw vouchersResult.error;
+      if (usageResult.error) throw usageResult.error;
+      if (packagesResult.error) throw packagesResult.error;
+
+      const usageMap: Record<string, VoucherUsage> = {};
+      usageResult.data?.forEach((row) => {
+        usageMap[row.voucher_id] = {
+          paid_uses: row.paid_uses,
+          pending_uses: row.pending_uses,
+          total_discount: row.total_discount,
+        };
+      });
+
+      setVouchers(vouchersResult.data || []);
+      setUsage(usageMap);
+      setPackages(packagesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching vouchers:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat voucher',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchVouchers();
+  }, [fetchVouchers]);
+
+  const onSubmit = async (data: VoucherFormData) => {
+    const payload = {
+      code: data.code,
+      description: data.description || null,
+      discount_type: data.discount_type,
+      discount_value: data.discount_value,
+      starts_at: toStartOfDay(data.starts_at),
+      ends_at: toEndOfDay(data.ends_at),
+      max_uses: data.max_uses ?? null,
+      max_uses_per_user: data.max_uses_per_user ?? null,
+      package_ids: data.package_ids.length > 0 ? data.package_ids : null,
+      is_active: data.is_active,
+    };
+
+    try {
+      if (editingVoucher) {
+        const { error } = await supabase
+          .from('vouchers')
+          .update(payload)
+          .eq('id', editingVoucher.id);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Berhasil',
+          description: 'Voucher berhasil diperbarui',
+        });
+      } else {
+        const { error } = await supabase
+          .from('vouchers')
+          .insert(payload);
+
+        if (error) throw error;
+
+        toast({
+          title: 'Berhasil',
+          description: 'Voucher berhasil ditambahkan',
+        });
+      }
+
+      form.reset();
+      setEditingVoucher(null);
+      setIsDialogOpen(false);
+      fetchVouchers();
+    } catch (error) {
+      console.error('Error saving voucher:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal menyimpan voucher. Pastikan kode belum digunakan.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleEdit = (voucher: Voucher) => {
+    setEditingVoucher(voucher);
+    form.reset({
+      code: voucher.code,
+      description: voucher.description || '',
+      discount_type: voucher.discount_type === 'fixed' ? 'fixed' : 'percentage',
+      discount_value: voucher.discount_value,
+      starts_at: toDateInput(voucher.starts_at),
+      ends_at: toDateInput(voucher.ends_at),
+      max_uses: voucher.max_uses ?? undefined,
+      max_uses_per_user: voucher.max_uses_per_user ?? undefined,
+      package_ids: voucher.package_ids || [],
+      is_active: voucher.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Yakin ingin menghapus voucher ini? Riwayat transaksi tetap menyimpan kodenya.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('vouchers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Berhasil',
+        description: 'Voucher berhasil dihapus',
+      });
+      fetchVouchers();
+    } catch (error) {
+      console.error('Error deleting voucher:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal menghapus voucher',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDialogClose = () => {
+    setIsDialogOpen(false);
+    setEditingVoucher(null);
+    form.reset();
+  };
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const formatDiscount = (voucher: Voucher) =>
+    voucher.discount_type === 'percentage'
+      ? `${voucher.discount_value}%`
+      : formatPrice(voucher.discount_value);
+
+  const formatValidity = (voucher: Voucher) => {
+    if (!voucher.starts_at && !voucher.ends_at) return 'Tanpa batas';
+    const start = voucher.starts_at ? new Date(voucher.starts_at).toLocaleDateString('id-ID') : '...';
+    const end = voucher.ends_at ? new Date(voucher.ends_at).toLocaleDateString('id-ID') : '...';
+    return `${start} - ${end}`;
+  };
+
+  const packageNames = (voucher: Voucher) => {
+    if (!voucher.package_ids || voucher.package_ids.length === 0) return 'Semua paket';
+    return voucher.package_ids
+      .map((id) => packages.find((pkg) => pkg.id === id)?.name)
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Memuat voucher...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">Daftar Voucher</h3>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => handleDialogClose()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Tambah voucher
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingVoucher ? 'Edit Voucher' : 'Tambah Voucher Baru'}
+              </DialogTitle>
+              <DialogDescription>
+                Atur diskon, masa berlaku, dan batas penggunaan kode promo
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Kode Voucher</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Contoh: TIKTOK50"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Deskripsi (Opsional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Contoh: Kampanye TikTok Oktober" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="discount_type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Jenis Diskon</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Pilih jenis" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="percentage">Persentase (%)</SelectItem>
+                            <SelectItem value="fixed">Nominal (IDR)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="discount_value"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nilai Diskon</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="starts_at"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Berlaku Mulai</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="ends_at"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Berlaku Hingga</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="max_uses"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Kuota Total</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="Tanpa batas"
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="max_uses_per_user"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Kuota per Pengguna</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="Tanpa batas"
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="package_ids"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Berlaku untuk Paket</FormLabel>
+                      <FormDescription>
+                        Kosongkan untuk semua paket
+                      </FormDescription>
+                      <div className="space-y-2">
+                        {packages.map((pkg) => (
+                          <label key={pkg.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(pkg.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...field.value, pkg.id]
+                                    : field.value.filter((id) => id !== pkg.id)
+                                )
+                              }
+                            />
+                            {pkg.name}
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="is_active"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Status Aktif</FormLabel>
+                        <FormDescription>
+                          Voucher dapat digunakan saat checkout
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={handleDialogClose}>
+                    Batal
+                  </Button>
+                  <Button type="submit">
+                    {editingVoucher ? 'Perbarui' : 'Tambah'}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Kode</TableHead>
+              <TableHead>Diskon</TableHead>
+              <TableHead>Masa Berlaku</TableHead>
+              <TableHead>Paket</TableHead>
+              <TableHead>Penggunaan</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {vouchers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  Belum ada voucher
+                </TableCell>
+              </TableRow>
+            ) : (
+              vouchers.map((voucher) => {
+                const voucherUsage = usage[voucher.id];
+
+                return (
+                  <TableRow key={voucher.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        <Ticket className="h-4 w-4 text-primary" />
+                        {voucher.code}
+                      </div>
+                      {voucher.description && (
+                        <div className="text-sm text-muted-foreground">{voucher.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{formatDiscount(voucher)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatValidity(voucher)}</TableCell>
+                    <TableCell className="text-sm">{packageNames(voucher)}</TableCell>
+                    <TableCell className="text-sm">
+                      <div className="font-medium">
+                        {voucherUsage?.paid_uses ?? 0}
+                        {voucher.max_uses ? ` / ${voucher.max_uses}` : ''} terpakai
+                      </div>
+                      {(voucherUsage?.pending_uses ?? 0) > 0 && (
+                        <div className="text-muted-foreground">{voucherUsage.pending_uses} menunggu pembayaran</div>
+                      )}
+                      {(voucherUsage?.total_discount ?? 0) > 0 && (
+                        <div className="text-muted-foreground">Total diskon {formatPrice(voucherUsage.total_discount)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {voucher.is_active ? (
+                        <Badge className="bg-green-500/20 text-green-300">Aktif</Badge>
+                      ) : (
+                        <Badge variant="secondary">Nonaktif</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleEdit(voucher)}
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => handleDelete(voucher.id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default VouchersManager;
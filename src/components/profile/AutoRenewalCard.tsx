@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Repeat, CreditCard, AlertTriangle } from 'lucide-react';
+
+interface AutoRenewal {
+  id: string;
+  status: string;
+  payment_type: string;
+  masked_account: string | null;
+  next_charge_at: string;
+  failed_attempts: number;
+  last_error: string | null;
+  cancel_reason: string | null;
+  premium_packages: { name: string; price: number } | null;
+}
+
+const statusLabels: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  active: { label: 'Aktif', variant: 'default' },
+  past_due: { label: 'Pembayaran Tertunda', variant: 'destructive' },
+  canceled: { label: 'Dibatalkan', variant: 'outline' },
+};
+
+const paymentTypeLabels: Record<string, string> = {
+  credit_card: 'Kartu',
+  gopay: 'GoPay',
+};
+
+// Only shown once the member has opted in to auto-renew at checkout
+const AutoRenewalCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [renewal, setRenewal] = useState<AutoRenewal | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const fetchRenewal = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('auto_renewal_details')
+      .select('id, status, payment_type, masked_account, next_charge_at, failed_attempts, last_error, cancel_reason, premium_packages(name, price)')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching auto renewal:', error);
+      return;
+    }
+
+    setRenewal(data);
+  }, [user]);
+
+  useEffect(() => {
+    fetchRenewal();
+  }, [fetchRenewal]);
+
+  const handleToggle = async (resume: boolean) => {
+    setIsUpdating(true);
+    const { error } = resume
+      ? await supabase.rpc('resume_auto_renewal')
+      : await supabase.rpc('cancel_auto_renewal');
+    setIsUpdating(false);
+
+    if (error) {
+      console.error('Error updating auto renewal:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Gagal memperbarui perpanjangan otomatis',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Berhasil',
+      description: resume
+        ? 'Perpanjangan otomatis diaktifkan kembali'
+        : 'Perpanjangan otomatis dibatalkan. Premium tetap aktif hingga masa berlakunya habis.',
+    });
+    fetchRenewal();
+  };
+
+  if (!renewal) return null;
+
+  const status = statusLabels[renewal.status] ?? { label: renewal.status, variant: 'outline' as const };
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+  const formatPrice = (price: number) =>
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(price);
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Repeat className="mr-2 h-5 w-5" />
+            Perpanjangan Otomatis
+          </span>
+          <Badge variant={status.variant}>{status.label}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Premium diperpanjang otomatis dengan metode pembayaran tersimpan
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Paket</p>
+            <p className="font-medium">
+              {renewal.premium_packages
+                ? `${renewal.premium_packages.name} · ${formatPrice(renewal.premium_packages.price)}`
+                : '-'}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Metode Pembayaran</p>
+            <p className="font-medium flex items-center">
+              <CreditCard className="mr-1 h-4 w-4" />
+              {paymentTypeLabels[renewal.payment_type] ?? renewal.payment_type}
+              {renewal.masked_account && ` ${renewal.masked_account}`}
+            </p>
+          </div>
+          {renewal.status !== 'canceled' && (
+            <div>
+              <p className="text-muted-foreground">
+                {renewal.status === 'past_due' ? 'Percobaan Berikutnya' : 'Penagihan Berikutnya'}
+              </p>
+              <p className="font-medium">{formatDate(renewal.next_charge_at)}</p>
+            </div>
+          )}
+        </div>
+
+        {renewal.status === 'past_due' && (
+          <div className="flex items-start rounded-lg border border-destructive/50 p-3 text-sm">
+            <AlertTriangle className="mr-2 h-4 w-4 text-destructive flex-shrink-0 mt-0.5" />
+            <span>
+              Penagihan terakhir gagal{renewal.last_error ? `: ${renewal.last_error}` : ''}.
+              Kami akan mencoba lagi secara otomatis.
+            </span>
+          </div>
+        )}
+
+        {renewal.status === 'canceled' && renewal.cancel_reason === 'payment_failed' && (
+          <p className="text-sm text-muted-foreground">
+            Perpanjangan otomatis dihentikan karena penagihan gagal beberapa kali.
+          </p>
+        )}
+
+        {renewal.status === 'canceled' ? (
+          <Button onClick={() => handleToggle(true)} disabled={isUpdating} className="w-full">
+            Aktifkan Kembali
+          </Button>
+        ) : (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={isUpdating} className="w-full">
+                Batalkan Perpanjangan Otomatis
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Batalkan perpanjangan otomatis?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Premium Anda tetap aktif hingga masa berlakunya habis, tetapi tidak akan diperpanjang lagi.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Kembali</AlertDialogCancel>
+                <AlertDialogAction onClick={() => handleToggle(false)}>
+                  Ya, Batalkan
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AutoRenewalCard;
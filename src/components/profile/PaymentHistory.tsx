@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { openInvoice, type InvoiceTransaction } from '@/lib/invoice';
+import { Receipt, FileText, Gift } from 'lucide-react';
+
+interface Transaction extends InvoiceTransaction {
+  id: string;
+  status: string;
+  canceled_at: string | null;
+  refunded_amount: number;
+  gifts: {
+    recipient_email: string;
+    code: string | null;
+    redeemed_at: string | null;
+    revoked_at: string | null;
+  } | null;
+}
+
+const statusLabels: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  paid: { label: 'Lunas', variant: 'default' },
+  pending: { label: 'Menunggu', variant: 'secondary' },
+  review: { label: 'Sedang Ditinjau', variant: 'secondary' },
+  failed: { label: 'Gagal', variant: 'destructive' },
+  expired: { label: 'Kedaluwarsa', variant: 'outline' },
+  canceled: { label: 'Dibatalkan', variant: 'outline' },
+  partially_refunded: { label: 'Dikembalikan Sebagian', variant: 'secondary' },
+  refunded: { label: 'Dikembalikan', variant: 'outline' },
+  charged_back: { label: 'Chargeback', variant: 'destructive' },
+};
+
+// Orders that keep an invoice; a partial refund leaves the purchase standing
+const INVOICED_STATUSES = ['paid', 'partially_refunded'];
+
+const PaymentHistory = () => {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchTransactions = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('id, status, canceled_at, refunded_amount, amount, created_at, paid_at, payment_type, package_name, duration_months, invoice_number, midtrans_order_id, original_amount, discount_amount, voucher_code, proration_credit, upgrade_from_package_name, tax_rate, tax_inclusive, tax_amount, gifts(recipient_email, code, redeemed_at, revoked_at)')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setTransactions(data || []);
+      } catch (error) {
+        console.error('Error fetching transactions:', error);
+        toast({
+          title: 'Error',
+          description: 'Gagal memuat riwayat pembayaran',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTransactions();
+  }, [user, toast]);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString('id-ID') : '-';
+
+  const handleDownloadInvoice = (transaction: Transaction) => {
+    const opened = openInvoice(transaction, {
+      nama: profile?.nama ?? null,
+      email: user?.email,
+    });
+
+    if (!opened) {
+      toast({
+        title: 'Error',
+        description: 'Izinkan pop-up untuk mengunduh invoice',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Receipt className="mr-2 h-5 w-5" />
+          Riwayat Pembayaran
+        </CardTitle>
+        <CardDescription>
+          Daftar pesanan premium Anda beserta invoice untuk keperluan reimburse
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center text-muted-foreground py-4">Memuat riwayat pembayaran...</div>
+        ) : transactions.length === 0 ? (
+          <div className="text-center text-muted-foreground py-4">Belum ada transaksi</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Paket</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Metode</TableHead>
+                <TableHead>Jumlah</TableHead>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Invoice</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((transaction) => {
+                // Orders the member canceled are failed orders with canceled_at set
+                const statusKey = transaction.canceled_at ? 'canceled' : transaction.status;
+                const status = statusLabels[statusKey] ?? { label: transaction.status, variant: 'outline' as const };
+
+                return (
+                  <TableRow key={transaction.id}>
+                    <TableCell className="font-medium">
+                      {transaction.package_name}
+                      {transaction.upgrade_from_package_name && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          Upgrade dari {transaction.upgrade_from_package_name}
+                        </div>
+                      )}
+                      {transaction.gifts && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          <div className="flex items-center">
+                            <Gift className="mr-1 h-3 w-3" />
+                            Hadiah untuk {transaction.gifts.recipient_email}
+                          </div>
+                          {transaction.gifts.code && (
+                            <div className="font-mono">
+                              {transaction.gifts.code}
+                              {transaction.gifts.redeemed_at && ' (sudah ditukar)'}
+                              {transaction.gifts.revoked_at && ' (dibatalkan)'}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>{transaction.payment_type || '-'}</TableCell>
+                    <TableCell>
+                      {formatPrice(transaction.amount)}
+                      {transaction.refunded_amount > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          Dikembalikan {formatPrice(transaction.refunded_amount)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>Dipesan: {formatDate(transaction.created_at)}</div>
+                      {transaction.paid_at && (
+                        <div className="text-muted-foreground">Dibayar: {formatDate(transaction.paid_at)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {INVOICED_STATUSES.includes(transaction.status) && transaction.invoice_number ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDownloadInvoice(transaction)}
+                        >
+                          <FileText className="mr-1 h-4 w-4" />
+                          {transaction.invoice_number}
+                        </Button>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentHistory;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Share2, Copy, Users, Crown, Gift } from 'lucide-react';
+
+interface Referral {
+  referred_name: string;
+  joined_at: string;
+  converted_at: string | null;
+  reward_days: number | null;
+  note: string | null;
+}
+
+const ReferralCard = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState<string | null>(null);
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+
+  const fetchReferrals = useCallback(async () => {
+    if (!user) return;
+
+    const [profileResult, referralsResult] = await Promise.all([
+      supabase.from('profiles').select('referral_code').eq('id', user.id).single(),
+      supabase.rpc('my_referrals'),
+    ]);
+
+    if (profileResult.error || referralsResult.error) {
+      console.error('Error fetching referrals:', profileResult.error || referralsResult.error);
+      return;
+    }
+
+    setCode(profileResult.data.referral_code);
+    setReferrals(referralsResult.data || []);
+  }, [user]);
+
+  useEffect(() => {
+    fetchReferrals();
+  }, [fetchReferrals]);
+
+  if (!code) return null;
+
+  const referralLink = `${window.location.origin}/auth?ref=${code}`;
+  const conversions = referrals.filter((r) => r.converted_at).length;
+  const rewardDays = referrals.reduce((total, r) => total + (r.reward_days ?? 0), 0);
+  const shareText = `Yuk belajar keuangan bareng di Circle Belajar Bareng! Daftar lewat link ini: ${referralLink}`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(referralLink);
+      toast({ title: 'Tersalin!', description: 'Link referral disalin ke clipboard' });
+    } catch (error) {
+      console.error('Error copying referral link:', error);
+      toast({ title: 'Error', description: 'Gagal menyalin link', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Share2 className="mr-2 h-5 w-5" />
+          Ajak Teman
+        </CardTitle>
+        <CardDescription>
+          Dapatkan 7 hari premium gratis setiap kali teman yang Anda ajak melakukan pembayaran pertamanya
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input value={referralLink} readOnly className="font-mono text-sm" />
+          <Button variant="outline" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button asChild variant="outline" size="sm">
+            <a href={`https://wa.me/?text=${encodeURIComponent(shareText)}`} target="_blank" rel="noopener noreferrer">
+              Bagikan ke WhatsApp
+            </a>
+          </Button>
+          <span className="text-sm text-muted-foreground self-center">
+            Kode Anda: <span className="font-mono font-semibold">{code}</span>
+          </span>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="rounded-lg border p-3">
+            <Users className="h-5 w-5 mx-auto mb-1 text-primary" />
+            <p className="text-2xl font-bold">{referrals.length}</p>
+            <p className="text-xs text-muted-foreground">Mendaftar</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <Crown className="h-5 w-5 mx-auto mb-1 text-primary" />
+            <p className="text-2xl font-bold">{conversions}</p>
+            <p className="text-xs text-muted-foreground">Berlangganan</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <Gift className="h-5 w-5 mx-auto mb-1 text-primary" />
+            <p className="text-2xl font-bold">{rewardDays}</p>
+            <p className="text-xs text-muted-foreground">Hari Premium</p>
+          </div>
+        </div>
+
+        {referrals.length > 0 && (
+          <div className="space-y-2">
+            {referrals.map((referral, index) => (
+              <div key={index} className="flex items-center justify-between text-sm border-b border-border/50 pb-2">
+                <div>
+                  <p className="font-medium">{referral.referred_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Bergabung {new Date(referral.joined_at).toLocaleDateString('id-ID')}
+                  </p>
+                </div>
+                {referral.reward_days ? (
+                  <Badge className="bg-green-500/20 text-green-300">+{referral.reward_days} hari</Badge>
+                ) : referral.converted_at ? (
+                  <Badge variant="outline" title={referral.note ?? undefined}>Berlangganan</Badge>
+                ) : (
+                  <Badge variant="secondary">Belum berlangganan</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReferralCard;
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -10,13 +10,22 @@ interface Profile {
   created_at?: string;
 }
 
+interface Entitlement {
+  is_premium: boolean;
+  premium_until: string | null;
+  source: string | null;
+}
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   profile: Profile | null;
+  entitlement: Entitlement | null;
+  isPremium: boolean;
+  premiumUntil: string | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string, nama: string) => Promise<{ error: any }>;
+  signUp: (email: string, password: string, nama: string, redirectPath?: string, referralCode?: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
@@ -35,10 +44,22 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [entitlement, setEntitlement] = useState<Entitlement | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const fetchProfile = async (userId: string) => {
+  const fetchProfile = useCallback(async (userId: string) => {
     try {
+      // Premium access comes from the entitlement, not from the role
+      const { data: entitlementData, error: entitlementError } = await supabase
+        .rpc('current_entitlement', { _user_id: userId })
+        .maybeSingle();
+
+      if (entitlementError) {
+        console.error('Error fetching entitlement:', entitlementError);
+      } else {
+        setEntitlement(entitlementData ?? { is_premium: false, premium_until: null, source: null });
+      }
+
       // Fetch profile data
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
@@ -76,13 +97,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     } catch (error) {
       console.error('Error fetching profile:', error);
     }
-  };
+  }, []);
 
-  const refreshProfile = async () => {
-    if (user) {
-      await fetchProfile(user.id);
+  // Stable per signed-in user, so pages can list it as an effect dependency
+  const userId = user?.id;
+  const refreshProfile = useCallback(async () => {
+    if (userId) {
+      await fetchProfile(userId);
     }
-  };
+  }, [userId, fetchProfile]);
 
   // Auto-refresh profile every 30 seconds when user is authenticated
   useEffect(() => {
@@ -93,7 +116,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }, 30000); // 30 seconds
 
     return () => clearInterval(interval);
-  }, [user]);
+  }, [user, fetchProfile]);
 
   useEffect(() => {
     // Set up auth state listener
@@ -108,6 +131,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           }, 0);
         } else {
           setProfile(null);
+          setEntitlement(null);
         }
         
         setLoading(false);
@@ -127,7 +151,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [fetchProfile]);
 
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
@@ -137,8 +161,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return { error };
   };
 
-  const signUp = async (email: string, password: string, nama: string) => {
-    const redirectUrl = `${window.location.origin}/`;
+  const signUp = async (email: string, password: string, nama: string, redirectPath = '/', referralCode?: string) => {
+    // The verification link brings new users back to where they signed up from
+    const redirectUrl = `${window.location.origin}${redirectPath}`;
     
     const { error } = await supabase.auth.signUp({
       email,
@@ -146,7 +171,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       options: {
         emailRedirectTo: redirectUrl,
         data: {
-          nama: nama
+          nama: nama,
+          // Picked up by the record_referral_signup trigger
+          referral_code: referralCode || undefined
         }
       }
     });
@@ -161,6 +188,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     user,
     session,
     profile,
+    entitlement,
+    isPremium: entitlement?.is_premium ?? false,
+    premiumUntil: entitlement?.premium_until ?? null,
     loading,
     signIn,
     signUp,
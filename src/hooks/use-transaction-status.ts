@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type TransactionStatus =
+  | 'loading'
+  | 'not_found'
+  | 'pending'
+  | 'review'
+  | 'paid'
+  | 'failed'
+  | 'expired'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'charged_back';
+
+// Statuses as stored on the order
+const STORED_STATUSES: Record<string, TransactionStatus> = {
+  pending: 'pending',
+  review: 'review',
+  paid: 'paid',
+  failed: 'failed',
+  partially_refunded: 'partially_refunded',
+  refunded: 'refunded',
+  charged_back: 'charged_back',
+};
+
+interface TransactionRow {
+  status: string;
+  expires_at: string | null;
+}
+
+// Orders that ran out of time are stored as failed; tell them apart for the user
+const toStatus = (row: TransactionRow | null): TransactionStatus => {
+  if (!row) return 'not_found';
+  if (row.status === 'failed' && row.expires_at && new Date(row.expires_at) <= new Date()) {
+    return 'expired';
+  }
+  // A status this page does not know yet is treated as still in progress
+  return STORED_STATUSES[row.status] ?? 'pending';
+};
+
+// Follows the signed-in user's order by its order_id and updates as soon as the
+// webhook or reconciliation job changes the row
+export function useTransactionStatus(orderId: string | null) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<TransactionStatus>('loading');
+  // Set when the order is premium bought for someone else
+  const [giftRecipient, setGiftRecipient] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user || !orderId) return;
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('status, expires_at, gifts(recipient_email)')
+      .eq('midtrans_order_id', orderId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching transaction status:', error);
+      return;
+    }
+
+    setGiftRecipient(data?.gifts?.recipient_email ?? null);
+    setStatus(toStatus(data));
+  }, [user, orderId]);
+
+  useEffect(() => {
+    if (!orderId) {
+      setStatus('not_found');
+      return;
+    }
+    if (!user) return;
+
+    refresh();
+
+    const channel = supabase
+      .channel(`transaction-${orderId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'transactions',
+          filter: `midtrans_order_id=eq.${orderId}`,
+        },
+        (payload) => setStatus(toStatus(payload.new as TransactionRow))
+      )
+      .subscribe((state) => {
+        // Read the row again once we are listening so an update in between is not missed
+        if (state === 'SUBSCRIBED') refresh();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, orderId, refresh]);
+
+  return { status, giftRecipient, refresh };
+}
@@ -14,6 +14,104 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_logs: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_id: string
+          target_type: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id: string
+          target_type: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string
+          target_type?: string
+        }
+        Relationships: []
+      }
+      auto_renewals: {
+        Row: {
+          account_id: string | null
+          cancel_reason: string | null
+          canceled_at: string | null
+          created_at: string
+          failed_attempts: number
+          id: string
+          last_charge_at: string | null
+          last_error: string | null
+          masked_account: string | null
+          next_charge_at: string
+          package_id: string
+          payment_token: string
+          payment_type: string
+          status: string
+          token_expires_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          created_at?: string
+          failed_attempts?: number
+          id?: string
+          last_charge_at?: string | null
+          last_error?: string | null
+          masked_account?: string | null
+          next_charge_at: string
+          package_id: string
+          payment_token: string
+          payment_type: string
+          status?: string
+          token_expires_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          cancel_reason?: string | null
+          canceled_at?: string | null
+          created_at?: string
+          failed_attempts?: number
+          id?: string
+          last_charge_at?: string | null
+          last_error?: string | null
+          masked_account?: string | null
+          next_charge_at?: string
+          package_id?: string
+          payment_token?: string
+          payment_type?: string
+          status?: string
+          token_expires_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_renewals_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "premium_packages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
@@ -79,6 +177,372 @@ export type Database = {
           },
         ]
       }
+      email_outbox: {
+        Row: {
+          attempts: number
+          claimed_at: string | null
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          provider_message_id: string | null
+          recipient: string | null
+          sent_at: string | null
+          status: string
+          template: string
+          transport: string | null
+          updated_at: string
+          user_id: string | null
+          variables: Json
+        }
+        Insert: {
+          attempts?: number
+          claimed_at?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          provider_message_id?: string | null
+          recipient?: string | null
+          sent_at?: string | null
+          status?: string
+          template: string
+          transport?: string | null
+          updated_at?: string
+          user_id?: string | null
+          variables?: Json
+        }
+        Update: {
+          attempts?: number
+          claimed_at?: string | null
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          provider_message_id?: string | null
+          recipient?: string | null
+          sent_at?: string | null
+          status?: string
+          template?: string
+          transport?: string | null
+          updated_at?: string
+          user_id?: string | null
+          variables?: Json
+        }
+        Relationships: []
+      }
+      gifts: {
+        Row: {
+          code: string | null
+          created_at: string
+          duration_months: number
+          id: string
+          issued_at: string | null
+          message: string | null
+          package_name: string
+          purchaser_id: string
+          recipient_email: string
+          redeemed_at: string | null
+          redeemed_by: string | null
+          revoked_at: string | null
+          transaction_id: string
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string
+          duration_months: number
+          id?: string
+          issued_at?: string | null
+          message?: string | null
+          package_name: string
+          purchaser_id: string
+          recipient_email: string
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          revoked_at?: string | null
+          transaction_id: string
+        }
+        Update: {
+          code?: string | null
+          created_at?: string
+          duration_months?: number
+          id?: string
+          issued_at?: string | null
+          message?: string | null
+          package_name?: string
+          purchaser_id?: string
+          recipient_email?: string
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          revoked_at?: string | null
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gifts_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_licenses: {
+        Row: {
+          created_at: string
+          ends_at: string
+          id: string
+          organization_id: string
+          seats: number
+          starts_at: string
+          transaction_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          ends_at: string
+          id?: string
+          organization_id: string
+          seats: number
+          starts_at: string
+          transaction_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string
+          id?: string
+          organization_id?: string
+          seats?: number
+          starts_at?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_licenses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_licenses_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          revoked_at: string | null
+          revoked_by: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      package_features: {
+        Row: {
+          created_at: string
+          description: string | null
+          icon: string
+          id: string
+          in_free_tier: boolean
+          is_active: boolean
+          sort_order: number
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          icon?: string
+          id?: string
+          in_free_tier?: boolean
+          is_active?: boolean
+          sort_order?: number
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          icon?: string
+          id?: string
+          in_free_tier?: boolean
+          is_active?: boolean
+          sort_order?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_events: {
+        Row: {
+          created_at: string
+          fraud_status: string | null
+          gross_amount: string | null
+          id: string
+          midtrans_transaction_id: string
+          order_id: string
+          payload: Json
+          payment_type: string | null
+          status_code: string | null
+          transaction_status: string
+        }
+        Insert: {
+          created_at?: string
+          fraud_status?: string | null
+          gross_amount?: string | null
+          id?: string
+          midtrans_transaction_id: string
+          order_id: string
+          payload: Json
+          payment_type?: string | null
+          status_code?: string | null
+          transaction_status: string
+        }
+        Update: {
+          created_at?: string
+          fraud_status?: string | null
+          gross_amount?: string | null
+          id?: string
+          midtrans_transaction_id?: string
+          order_id?: string
+          payload?: Json
+          payment_type?: string | null
+          status_code?: string | null
+          transaction_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["midtrans_order_id"]
+          },
+        ]
+      }
+      premium_notifications: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          premium_until: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          premium_until: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          premium_until?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      premium_package_features: {
+        Row: {
+          feature_id: string
+          package_id: string
+          sort_order: number
+        }
+        Insert: {
+          feature_id: string
+          package_id: string
+          sort_order?: number
+        }
+        Update: {
+          feature_id?: string
+          package_id?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "premium_package_features_feature_id_fkey"
+            columns: ["feature_id"]
+            isOneToOne: false
+            referencedRelation: "package_features"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "premium_package_features_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "premium_packages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       premium_packages: {
         Row: {
           created_at: string
@@ -86,9 +550,13 @@ export type Database = {
           duration_months: number
           id: string
           is_active: boolean | null
+          is_group: boolean
           is_popular: boolean | null
+          min_seats: number
           name: string
           price: number
+          price_includes_tax: boolean
+          tax_rate: number | null
           updated_at: string
         }
         Insert: {
@@ -97,9 +565,13 @@ export type Database = {
           duration_months: number
           id?: string
           is_active?: boolean | null
+          is_group?: boolean
           is_popular?: boolean | null
+          min_seats?: number
           name: string
           price: number
+          price_includes_tax?: boolean
+          tax_rate?: number | null
           updated_at?: string
         }
         Update: {
@@ -108,9 +580,13 @@ export type Database = {
           duration_months?: number
           id?: string
           is_active?: boolean | null
+          is_group?: boolean
           is_popular?: boolean | null
+          min_seats?: number
           name?: string
           price?: number
+          price_includes_tax?: boolean
+          tax_rate?: number | null
           updated_at?: string
         }
         Relationships: []
@@ -121,6 +597,7 @@ export type Database = {
           id: string
           nama: string
           premium_until: string | null
+          referral_code: string
           role: Database["public"]["Enums"]["user_role"]
           updated_at: string
         }
@@ -129,6 +606,7 @@ export type Database = {
           id: string
           nama: string
           premium_until?: string | null
+          referral_code?: string
           role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
         }
@@ -137,50 +615,417 @@ export type Database = {
           id?: string
           nama?: string
           premium_until?: string | null
+          referral_code?: string
           role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
         }
         Relationships: []
       }
+      referrals: {
+        Row: {
+          code: string
+          conversion_transaction_id: string | null
+          converted_at: string | null
+          created_at: string
+          id: string
+          note: string | null
+          referred_id: string
+          referrer_id: string
+          reward_days: number | null
+          subscription_id: string | null
+        }
+        Insert: {
+          code: string
+          conversion_transaction_id?: string | null
+          converted_at?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          referred_id: string
+          referrer_id: string
+          reward_days?: number | null
+          subscription_id?: string | null
+        }
+        Update: {
+          code?: string
+          conversion_transaction_id?: string | null
+          converted_at?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          referred_id?: string
+          referrer_id?: string
+          reward_days?: number | null
+          subscription_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "referrals_conversion_transaction_id_fkey"
+            columns: ["conversion_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referrals_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          provider_response: Json | null
+          reason: string
+          refund_key: string
+          refunded_before: number
+          requested_by: string | null
+          status: string
+          transaction_id: string
+        }
+        Insert: {
+          amount: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          provider_response?: Json | null
+          reason: string
+          refund_key: string
+          refunded_before: number
+          requested_by?: string | null
+          status?: string
+          transaction_id: string
+        }
+        Update: {
+          amount?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          provider_response?: Json | null
+          reason?: string
+          refund_key?: string
+          refunded_before?: number
+          requested_by?: string | null
+          status?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ends_at: string | null
+          id: string
+          note: string | null
+          revoked_at: string | null
+          source: string
+          starts_at: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string | null
+          id?: string
+          note?: string | null
+          revoked_at?: string | null
+          source: string
+          starts_at?: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ends_at?: string | null
+          id?: string
+          note?: string | null
+          revoked_at?: string | null
+          source?: string
+          starts_at?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: true
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_settings: {
+        Row: {
+          default_rate: number
+          id: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          default_rate?: number
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          default_rate?: number
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       transactions: {
         Row: {
           amount: number
+          auto_renew: boolean
+          auto_renewal_id: string | null
+          canceled_at: string
           created_at: string
+          discount_amount: number
+          duration_months: number
+          expires_at: string | null
           id: string
+          invoice_number: string | null
           midtrans_order_id: string
           midtrans_transaction_id: string | null
-          paket: string
+          organization_id: string | null
+          organization_name: string | null
+          original_amount: number
+          package_id: string | null
+          package_name: string
+          paid_at: string | null
+          paket: string | null
           payment_type: string | null
+          proration_credit: number
+          refunded_amount: number
+          refunded_at: string | null
+          review_decision: string | null
+          review_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          seats: number | null
+          snap_token: string
           status: string
+          tax_amount: number
+          tax_inclusive: boolean
+          tax_rate: number
           updated_at: string
+          upgrade_from_package_name: string | null
           user_id: string
+          voucher_code: string | null
+          voucher_id: string | null
         }
         Insert: {
           amount: number
+          auto_renew?: boolean
+          auto_renewal_id?: string | null
+          canceled_at?: string
           created_at?: string
+          discount_amount?: number
+          duration_months: number
+          expires_at?: string | null
           id?: string
+          invoice_number?: string | null
           midtrans_order_id: string
           midtrans_transaction_id?: string | null
-          paket: string
+          organization_id?: string | null
+          organization_name?: string | null
+          original_amount: number
+          package_id?: string | null
+          package_name: string
+          paid_at?: string | null
+          paket?: string | null
           payment_type?: string | null
+          proration_credit?: number
+          refunded_amount?: number
+          refunded_at?: string | null
+          review_decision?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          seats?: number | null
+          snap_token?: string
           status?: string
+          tax_amount?: number
+          tax_inclusive?: boolean
+          tax_rate?: number
           updated_at?: string
+          upgrade_from_package_name?: string | null
           user_id: string
+          voucher_code?: string | null
+          voucher_id?: string | null
         }
         Update: {
           amount?: number
+          auto_renew?: boolean
+          auto_renewal_id?: string | null
+          canceled_at?: string
           created_at?: string
+          discount_amount?: number
+          duration_months?: number
+          expires_at?: string | null
           id?: string
+          invoice_number?: string | null
           midtrans_order_id?: string
           midtrans_transaction_id?: string | null
-          paket?: string
+          organization_id?: string | null
+          organization_name?: string | null
+          original_amount?: number
+          package_id?: string | null
+          package_name?: string
+          paid_at?: string | null
+          paket?: string | null
           payment_type?: string | null
+          proration_credit?: number
+          refunded_amount?: number
+          refunded_at?: string | null
+          review_decision?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          seats?: number | null
+          snap_token?: string
           status?: string
+          tax_amount?: number
+          tax_inclusive?: boolean
+          tax_rate?: number
           updated_at?: string
+          upgrade_from_package_name?: string | null
           user_id?: string
+          voucher_code?: string | null
+          voucher_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "premium_packages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_voucher_id_fkey"
+            columns: ["voucher_id"]
+            isOneToOne: false
+            referencedRelation: "vouchers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_auto_renewal_id_fkey"
+            columns: ["auto_renewal_id"]
+            isOneToOne: false
+            referencedRelation: "auto_renewals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trial_settings: {
+        Row: {
+          duration_days: number
+          enabled: boolean
+          id: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          duration_days?: number
+          enabled?: boolean
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          duration_days?: number
+          enabled?: boolean
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: []
       }
+      trials: {
+        Row: {
+          conversion_transaction_id: string | null
+          converted_at: string | null
+          duration_days: number
+          email: string
+          ends_at: string
+          expiry_notified_at: string | null
+          id: string
+          started_at: string
+          subscription_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          conversion_transaction_id?: string | null
+          converted_at?: string | null
+          duration_days: number
+          email: string
+          ends_at: string
+          expiry_notified_at?: string | null
+          id?: string
+          started_at?: string
+          subscription_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          conversion_transaction_id?: string | null
+          converted_at?: string | null
+          duration_days?: number
+          email?: string
+          ends_at?: string
+          expiry_notified_at?: string | null
+          id?: string
+          started_at?: string
+          subscription_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trials_conversion_transaction_id_fkey"
+            columns: ["conversion_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trials_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -202,11 +1047,243 @@ export type Database = {
         }
         Relationships: []
       }
+      vouchers: {
+        Row: {
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          ends_at: string | null
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          max_uses_per_user: number | null
+          package_ids: string[] | null
+          starts_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value: number
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          package_ids?: string[] | null
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          package_ids?: string[] | null
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      auto_renewal_details: {
+        Row: {
+          cancel_reason: string | null
+          canceled_at: string | null
+          created_at: string | null
+          failed_attempts: number | null
+          id: string | null
+          last_charge_at: string | null
+          last_error: string | null
+          masked_account: string | null
+          next_charge_at: string | null
+          package_id: string | null
+          payment_type: string | null
+          status: string | null
+          token_expires_at: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_renewals_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "premium_packages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      admin_update_user_access: {
+        Args: {
+          _premium_until?: string
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      apply_payment_notification: { Args: { _payload: Json }; Returns: Json }
+      apply_refund: {
+        Args: {
+          _actor_id?: string
+          _chargeback?: boolean
+          _reason?: string
+          _refunded_total: number
+          _transaction_id: string
+        }
+        Returns: Json
+      }
+      award_referral: {
+        Args: { _transaction_id: string }
+        Returns: Json
+      }
+      begin_refund: {
+        Args: {
+          _actor_id: string
+          _amount: number
+          _reason: string
+          _transaction_id: string
+        }
+        Returns: Json
+      }
+      cancel_auto_renewal: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["auto_renewals"]["Row"]
+      }
+      cancel_checkout_transaction: {
+        Args: {
+          _transaction_id: string
+          _user_id: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      claim_email_outbox: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          claimed_at: string | null
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          provider_message_id: string | null
+          recipient: string | null
+          sent_at: string | null
+          status: string
+          template: string
+          transport: string | null
+          updated_at: string
+          user_id: string | null
+          variables: Json
+        }[]
+      }
+      claim_ended_trials: {
+        Args: { _limit?: number }
+        Returns: {
+          duration_days: number
+          ends_at: string
+          trial_id: string
+          user_id: string
+        }[]
+      }
+      claim_expired_premium: {
+        Args: { _limit?: number }
+        Returns: {
+          premium_until: string
+          user_id: string
+        }[]
+      }
+      claim_premium_reminders: {
+        Args: { _limit?: number }
+        Returns: {
+          days_left: number
+          kind: string
+          premium_until: string
+          user_id: string
+        }[]
+      }
+      create_checkout_transaction: {
+        Args: {
+          _auto_renew?: boolean
+          _expiry_minutes?: number
+          _gift_message?: string
+          _gift_recipient_email?: string
+          _order_id: string
+          _package_id: string
+          _user_id: string
+          _voucher_code?: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      create_group_checkout_transaction: {
+        Args: {
+          _expiry_minutes?: number
+          _order_id: string
+          _organization_id?: string
+          _organization_name?: string
+          _package_id: string
+          _seats: number
+          _user_id: string
+        }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      current_entitlement: {
+        Args: { _user_id: string }
+        Returns: {
+          is_premium: boolean
+          premium_until: string
+          source: string
+        }[]
+      }
+      enroll_auto_renewal: {
+        Args: {
+          _payload: Json
+          _premium_until: string
+          _transaction_id: string
+        }
+        Returns: boolean
+      }
+      evaluate_upgrade: {
+        Args: { _package_id: string; _user_id: string }
+        Returns: Json
+      }
+      evaluate_voucher: {
+        Args: { _code: string; _package_id: string; _user_id: string }
+        Returns: Json
+      }
+      expire_transaction: {
+        Args: { _transaction_id: string }
+        Returns: boolean
+      }
+      finish_refund: {
+        Args: { _error?: string; _refund_id: string; _response?: Json }
+        Returns: Json
+      }
+      grant_premium: {
+        Args: {
+          _months: number
+          _note?: string
+          _source: string
+          _transaction_id?: string
+          _user_id: string
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -214,7 +1291,137 @@ export type Database = {
         }
         Returns: boolean
       }
+      invite_organization_member: {
+        Args: { _actor_id: string; _email: string; _organization_id: string }
+        Returns: Json
+      }
       is_admin_user: { Args: { user_id?: string }; Returns: boolean }
+      is_organization_admin: {
+        Args: { _organization_id: string; _user_id: string }
+        Returns: boolean
+      }
+      issue_gift: {
+        Args: { _transaction_id: string }
+        Returns: Json
+      }
+      issue_organization_license: {
+        Args: { _transaction_id: string }
+        Returns: Json
+      }
+      list_entitlements: {
+        Args: never
+        Returns: {
+          is_premium: boolean
+          premium_until: string
+          source: string
+          user_id: string
+        }[]
+      }
+      list_voucher_usage: {
+        Args: never
+        Returns: {
+          paid_uses: number
+          pending_uses: number
+          total_discount: number
+          voucher_id: string
+        }[]
+      }
+      mark_transaction_paid: {
+        Args: { _actor_id: string; _reason: string; _transaction_id: string }
+        Returns: Json
+      }
+      my_referrals: {
+        Args: never
+        Returns: {
+          converted_at: string
+          joined_at: string
+          note: string
+          referred_name: string
+          reward_days: number
+        }[]
+      }
+      normalize_referral_email: { Args: { _email: string }; Returns: string }
+      organization_seat_usage: {
+        Args: { _organization_id: string }
+        Returns: {
+          license_ends_at: string
+          seats: number
+          used: number
+        }[]
+      }
+      personal_premium_until: { Args: { _user_id: string }; Returns: string }
+      preview_gift: {
+        Args: { _code: string }
+        Returns: Json
+      }
+      preview_upgrade: { Args: { _package_id: string }; Returns: Json }
+      preview_voucher: {
+        Args: { _code: string; _package_id: string }
+        Returns: Json
+      }
+      record_payment_review: {
+        Args: {
+          _actor_id: string
+          _decision: string
+          _reason: string
+          _transaction_id: string
+        }
+        Returns: undefined
+      }
+      record_renewal_failure: {
+        Args: {
+          _error: string
+          _renewal_id: string
+          _transaction_id: string
+        }
+        Returns: Json
+      }
+      redeem_gift: {
+        Args: { _code: string }
+        Returns: Json
+      }
+      renewal_charge_time: {
+        Args: { _premium_until: string }
+        Returns: string
+      }
+      requeue_email: {
+        Args: { _email_id: string }
+        Returns: undefined
+      }
+      resume_auto_renewal: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["auto_renewals"]["Row"]
+      }
+      revoke_organization_member: {
+        Args: { _actor_id: string; _member_id: string }
+        Returns: undefined
+      }
+      revoke_premium_time: {
+        Args: {
+          _removed: unknown
+          _transaction_id: string
+        }
+        Returns: Json
+      }
+      shorten_subscription: {
+        Args: { _note: string; _removed: unknown; _subscription_id: string }
+        Returns: string
+      }
+      start_renewal_charge: {
+        Args: { _order_id: string; _renewal_id: string }
+        Returns: Database["public"]["Tables"]["transactions"]["Row"]
+      }
+      sync_premium_role: { Args: { _user_id: string }; Returns: undefined }
+      trial_report: {
+        Args: never
+        Returns: {
+          active: number
+          converted: number
+          converted_during_trial: number
+          month: string
+          started: number
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "premium" | "biasa"
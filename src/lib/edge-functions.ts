@@ -0,0 +1,10 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Edge functions answer rule violations with a 4xx and a readable message in the body
+export const functionErrorMessage = async (error: Error, fallback: string) => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return body.error as string;
+  }
+  return fallback;
+};
@@ -0,0 +1,180 @@
+export interface InvoiceTransaction {
+  amount: number;
+  created_at: string;
+  discount_amount: number;
+  duration_months: number;
+  invoice_number: string | null;
+  midtrans_order_id: string;
+  original_amount: number;
+  package_name: string;
+  paid_at: string | null;
+  payment_type: string | null;
+  proration_credit: number;
+  tax_amount: number;
+  tax_inclusive: boolean;
+  tax_rate: number;
+  upgrade_from_package_name: string | null;
+  voucher_code: string | null;
+}
+
+export const COMPANY_DETAILS = {
+  name: 'Circle Belajar Bareng',
+  email: 'support@circlebelajarbareng.com',
+  description: 'Platform edukasi keuangan dan investasi',
+};
+
+export interface InvoiceCustomer {
+  nama: string | null;
+  email: string | undefined;
+}
+
+const formatRupiah = (amount: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+
+const formatDate = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('id-ID', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'Asia/Jakarta',
+      })
+    : '-';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const buildInvoiceHtml = (transaction: InvoiceTransaction, customer: InvoiceCustomer) => {
+  const invoiceNumber = escapeHtml(transaction.invoice_number ?? '');
+  const packageName = escapeHtml(transaction.package_name);
+  const amount = formatRupiah(transaction.amount);
+  const discountRow = transaction.discount_amount > 0
+    ? `
+      <tr>
+        <td>Voucher ${escapeHtml(transaction.voucher_code ?? '')}</td>
+        <td></td>
+        <td class="amount">-${formatRupiah(transaction.discount_amount)}</td>
+      </tr>`
+    : '';
+  const upgradeRow = transaction.proration_credit > 0
+    ? `
+      <tr>
+        <td>Kredit sisa ${escapeHtml(transaction.upgrade_from_package_name ?? 'paket sebelumnya')}</td>
+        <td></td>
+        <td class="amount">-${formatRupiah(transaction.proration_credit)}</td>
+      </tr>`
+    : '';
+  // DPP (dasar pengenaan pajak) is the taxable base; orders from before PPN was recorded have no tax rows
+  const taxRows = transaction.tax_amount > 0
+    ? `
+      <tr class="subtotal">
+        <td colspan="2">DPP</td>
+        <td class="amount">${formatRupiah(transaction.amount - transaction.tax_amount)}</td>
+      </tr>
+      <tr class="subtotal">
+        <td colspan="2">PPN ${Number(transaction.tax_rate)}%${transaction.tax_inclusive ? ' (termasuk dalam harga)' : ''}</td>
+        <td class="amount">${formatRupiah(transaction.tax_amount)}</td>
+      </tr>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="id">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${invoiceNumber}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #1f2937; max-width: 720px; margin: 40px auto; padding: 0 24px; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #f59e0b; padding-bottom: 16px; }
+    h1 { margin: 0; font-size: 28px; color: #f59e0b; }
+    .muted { color: #6b7280; font-size: 14px; }
+    .meta { margin: 24px 0; display: flex; justify-content: space-between; gap: 24px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { text-align: left; padding: 12px; border-bottom: 1px solid #e5e7eb; }
+    td.amount, th.amount { text-align: right; }
+    tfoot td { font-weight: bold; border-bottom: none; }
+    tfoot tr.subtotal td { font-weight: normal; color: #6b7280; }
+    .status { display: inline-block; padding: 4px 12px; border-radius: 999px; background: #dcfce7; color: #166534; font-weight: bold; }
+    footer { margin-top: 48px; font-size: 12px; color: #6b7280; text-align: center; }
+    @media print { body { margin: 0 auto; } }
+  </style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>INVOICE</h1>
+      <div class="muted">${invoiceNumber}</div>
+    </div>
+    <div style="text-align: right;">
+      <strong>${escapeHtml(COMPANY_DETAILS.name)}</strong><br>
+      <span class="muted">${escapeHtml(COMPANY_DETAILS.description)}</span><br>
+      <span class="muted">${escapeHtml(COMPANY_DETAILS.email)}</span>
+    </div>
+  </header>
+
+  <section class="meta">
+    <div>
+      <div class="muted">Ditagihkan kepada</div>
+      <strong>${escapeHtml(customer.nama || customer.email || '-')}</strong><br>
+      <span class="muted">${escapeHtml(customer.email ?? '')}</span>
+    </div>
+    <div style="text-align: right;">
+      <div class="muted">Tanggal pesanan: ${formatDate(transaction.created_at)}</div>
+      <div class="muted">Tanggal pembayaran: ${formatDate(transaction.paid_at)}</div>
+      <div class="muted">Order ID: ${escapeHtml(transaction.midtrans_order_id)}</div>
+      <div class="muted">Metode pembayaran: ${escapeHtml(transaction.payment_type ?? '-')}</div>
+    </div>
+  </section>
+
+  <span class="status">LUNAS</span>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Deskripsi</th>
+        <th>Durasi</th>
+        <th class="amount">Jumlah</th>
+      </tr>
+    </thead>
+    <tbody>
+      <tr>
+        <td>Premium Membership - ${packageName}</td>
+        <td>${transaction.duration_months} bulan</td>
+        <td class="amount">${formatRupiah(transaction.original_amount)}</td>
+      </tr>${discountRow}${upgradeRow}
+    </tbody>
+    <tfoot>${taxRows}
+      <tr>
+        <td colspan="2">Total</td>
+        <td class="amount">${amount}</td>
+      </tr>
+    </tfoot>
+  </table>
+
+  <footer>
+    Invoice ini dibuat secara otomatis dan sah tanpa tanda tangan.<br>
+    Simpan sebagai PDF melalui menu cetak browser Anda.
+  </footer>
+</body>
+</html>`;
+};
+
+// Opens the invoice in a new tab and brings up the print dialog so it can be saved as PDF
+export const openInvoice = (transaction: InvoiceTransaction, customer: InvoiceCustomer) => {
+  const invoiceWindow = window.open('', '_blank');
+  if (!invoiceWindow) return false;
+
+  invoiceWindow.document.write(buildInvoiceHtml(transaction, customer));
+  invoiceWindow.document.close();
+  invoiceWindow.focus();
+  invoiceWindow.print();
+  return true;
+};
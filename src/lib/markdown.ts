@@ -0,0 +1,63 @@
+import { defaultSchema, type Options as SanitizeSchema } from 'rehype-sanitize';
+
+export type CalloutKind = 'tips' | 'peringatan';
+
+// The parts of a Markdown syntax tree the callout plugin looks at
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: { hProperties?: Record<string, string> };
+}
+
+const CALLOUT_MARKER = /^\[!(tips|peringatan)\][ \t]*\n?/i;
+
+const markCallouts = (node: MarkdownNode) => {
+  node.children?.forEach(markCallouts);
+  if (node.type !== 'blockquote') return;
+
+  const paragraph = node.children?.[0];
+  const text = paragraph?.type === 'paragraph' ? paragraph.children?.[0] : undefined;
+  const match = text?.type === 'text' ? text.value?.match(CALLOUT_MARKER) : null;
+  if (!paragraph || !text || !match) return;
+
+  text.value = text.value?.slice(match[0].length);
+  // A marker on a line of its own leaves nothing of the first paragraph
+  if (!text.value) paragraph.children?.shift();
+  if (paragraph.children?.length === 0) node.children?.shift();
+
+  node.data = { ...node.data, hProperties: { dataCallout: match[1].toLowerCase() } };
+};
+
+// A blockquote that starts with [!TIPS] or [!PERINGATAN] becomes a callout:
+//
+//   > [!TIPS]
+//   > Sisihkan tabungan di awal bulan, bukan dari sisa gaji.
+export const remarkCallouts = () => markCallouts;
+
+// GitHub's sanitization rules, plus the attribute that marks a callout
+export const sanitizeSchema: SanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    blockquote: [...(defaultSchema.attributes?.blockquote ?? []), ['dataCallout', 'tips', 'peringatan']],
+  },
+};
+
+// Video id of a YouTube watch, share, shorts or embed link
+export const getYouTubeId = (url: string) =>
+  url.match(/(?:youtu\.be\/|youtube(?:-nocookie)?\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/))([a-zA-Z0-9_-]{11})/)?.[1] ?? null;
+
+// Markdown reduced to its words, for excerpts on cards
+export const markdownToPlainText = (markdown: string) =>
+  markdown
+    .replace(/<[^>]*>/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[!(tips|peringatan)\]/gi, '')
+    .replace(/^[ \t]*(#{1,6}|>|[-*+]|\d+\.)[ \t]+/gm, '')
+    .replace(/^[ \t]*\|?[ \t:|-]*-[ \t:|-]*$/gm, '')
+    .replace(/[*~`]/g, '')
+    .replace(/\|/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
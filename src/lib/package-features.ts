@@ -0,0 +1,94 @@
+import {
+  Award,
+  BookOpen,
+  Calendar,
+  Check,
+  FileText,
+  Headphones,
+  MessageCircle,
+  Shield,
+  Star,
+  TrendingUp,
+  Users,
+  Video,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface PackageFeature {
+  id: string;
+  title: string;
+  description: string | null;
+  icon: string;
+  in_free_tier: boolean;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface PackageFeatureLink {
+  package_id: string;
+  feature_id: string;
+  sort_order: number;
+}
+
+// Icons admins can pick for a feature, stored by name in package_features.icon
+export const FEATURE_ICONS: Record<string, LucideIcon> = {
+  Check,
+  BookOpen,
+  Video,
+  MessageCircle,
+  TrendingUp,
+  Users,
+  Zap,
+  Star,
+  Shield,
+  Award,
+  Calendar,
+  FileText,
+  Headphones,
+};
+
+export const getFeatureIcon = (name: string) => FEATURE_ICONS[name] ?? Check;
+
+// Features in display order and which package includes which. Only active
+// features come back for members; admins also see inactive ones.
+export const fetchPackageFeatures = async () => {
+  const [featuresResult, linksResult] = await Promise.all([
+    supabase.from('package_features').select('*').order('sort_order', { ascending: true }),
+    supabase.from('premium_package_features').select('package_id, feature_id, sort_order'),
+  ]);
+
+  if (featuresResult.error) throw featuresResult.error;
+  if (linksResult.error) throw linksResult.error;
+
+  return {
+    features: (featuresResult.data || []) as PackageFeature[],
+    links: (linksResult.data || []) as PackageFeatureLink[],
+  };
+};
+
+// The active features one package includes, in that package's own order
+export const getFeaturesForPackage = (
+  packageId: string,
+  features: PackageFeature[],
+  links: PackageFeatureLink[]
+) =>
+  links
+    .filter((link) => link.package_id === packageId)
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((link) => features.find((feature) => feature.id === link.feature_id))
+    .filter((feature): feature is PackageFeature => !!feature && feature.is_active);
+
+// What premium adds over a free account: active features that some package
+// includes and free members do not have
+export const getPremiumBenefits = (
+  features: PackageFeature[],
+  links: PackageFeatureLink[],
+  packageIds: string[]
+) =>
+  features.filter((feature) =>
+    feature.is_active
+    && !feature.in_free_tier
+    && links.some((link) => link.feature_id === feature.id && packageIds.includes(link.package_id))
+  );
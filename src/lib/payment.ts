@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface SnapResult {
+  order_id?: string;
+  transaction_status?: string;
+  status_code?: string;
+  [key: string]: unknown;
+}
+
+export interface SnapCallbacks {
+  onSuccess?: (result: SnapResult) => void;
+  onPending?: (result: SnapResult) => void;
+  onError?: (result: SnapResult) => void;
+  onClose?: () => void;
+}
+
+interface Snap {
+  pay: (token: string, callbacks: SnapCallbacks) => void;
+}
+
+declare global {
+  interface Window {
+    snap?: Snap;
+  }
+}
+
+// Must match PAYMENT_PROVIDER of the edge functions
+const provider = import.meta.env.VITE_PAYMENT_PROVIDER ?? 'midtrans_sandbox';
+// Only the sandbox has a default key; production must be configured explicitly
+const clientKey = import.meta.env.VITE_MIDTRANS_CLIENT_KEY
+  ?? (provider === 'midtrans_sandbox' ? 'SB-Mid-client-jfWS2Dh6iG0LvPHS' : undefined);
+
+const snapUrls = {
+  midtrans_sandbox: 'https://app.sandbox.midtrans.com/snap/snap.js',
+  midtrans_production: 'https://app.midtrans.com/snap/snap.js',
+};
+
+// Offline stand-in for the Snap popup: the payer picks the outcome and the
+// fake-payment function sends the matching notification through the webhook
+const fakeSnap: Snap = {
+  pay: async (token, callbacks) => {
+    const orderId = token.replace(/^fake-/, '');
+    const outcome = window.prompt(
+      `[Pembayaran simulasi] Order ${orderId}\nKetik success, pending, challenge, atau failure:`,
+      'success'
+    );
+
+    if (!outcome) {
+      callbacks.onClose?.();
+      return;
+    }
+
+    const { data, error } = await supabase.functions.invoke('fake-payment', {
+      body: { order_id: orderId, outcome: outcome.trim().toLowerCase() }
+    });
+
+    const result: SnapResult = { order_id: orderId, transaction_status: data?.status };
+    if (error) {
+      callbacks.onError?.(result);
+    } else if (outcome.trim().toLowerCase() === 'success') {
+      callbacks.onSuccess?.(result);
+      // Snap reports a card held by the fraud check as pending
+    } else if (['pending', 'challenge'].includes(outcome.trim().toLowerCase())) {
+      callbacks.onPending?.(result);
+    } else {
+      callbacks.onError?.(result);
+    }
+  },
+};
+
+let snapPromise: Promise<Snap> | null = null;
+
+// Load snap.js for the configured provider once, on first checkout
+export const loadSnap = (): Promise<Snap> => {
+  if (provider === 'fake') return Promise.resolve(fakeSnap);
+
+  if (!clientKey) {
+    console.error(`VITE_MIDTRANS_CLIENT_KEY is not set for ${provider}`);
+    return Promise.reject(new Error('Midtrans client key not configured'));
+  }
+
+  if (!snapPromise) {
+    snapPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = snapUrls[provider];
+      script.setAttribute('data-client-key', clientKey);
+      script.onload = () => (window.snap ? resolve(window.snap) : reject(new Error('Midtrans Snap.js not loaded')));
+      script.onerror = () => {
+        snapPromise = null;
+        reject(new Error('Midtrans Snap.js not loaded. Please refresh the page and try again.'));
+      };
+      document.body.appendChild(script);
+    });
+  }
+
+  return snapPromise;
+};
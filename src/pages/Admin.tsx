@@ -5,12 +5,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { Shield, Users, BookOpen, Crown, Settings } from 'lucide-react';
+import { Shield, Users, BookOpen, Crown, Settings, Ticket, Receipt, Timer, Mail, ShieldAlert } from 'lucide-react';
 import { Navigate } from 'react-router-dom';
 import CategoriesManager from '@/components/admin/CategoriesManager';
 import EducationsManager from '@/components/admin/EducationsManager';
+import EmailOutboxManager from '@/components/admin/EmailOutboxManager';
+import EmailTemplatesManager from '@/components/admin/EmailTemplatesManager';
+import PaymentReviewManager from '@/components/admin/PaymentReviewManager';
 import PremiumPackagesManager from '@/components/admin/PremiumPackagesManager';
+import TransactionsManager from '@/components/admin/TransactionsManager';
+import TrialManager from '@/components/admin/TrialManager';
 import UsersManager from '@/components/admin/UsersManager';
+import VouchersManager from '@/components/admin/VouchersManager';
 
 const Admin = () => {
   const { profile, loading } = useAuth();
@@ -63,7 +69,7 @@ const Admin = () => {
           <TabsList className={`w-full mb-8 ${
             isMobile 
               ? "grid grid-cols-2 gap-2 h-auto p-2" 
-              : "grid grid-cols-4"
+              : "grid grid-cols-8"
           }`}>
             <TabsTrigger 
               value="categories" 
@@ -98,6 +104,50 @@ const Admin = () => {
                 {isMobile ? "Premium" : "Paket Premium"}
               </span>
             </TabsTrigger>
+            <TabsTrigger 
+              value="vouchers" 
+              className={`flex items-center justify-center gap-2 ${
+                isMobile ? "flex-col p-3 h-auto text-xs" : "gap-2"
+              }`}
+            >
+              <Ticket className={isMobile ? "h-5 w-5" : "h-4 w-4"} />
+              <span className={isMobile ? "text-center" : ""}>
+                {isMobile ? "Voucher" : "Voucher"}
+              </span>
+            </TabsTrigger>
+            <TabsTrigger 
+              value="transactions" 
+              className={`flex items-center justify-center gap-2 ${
+                isMobile ? "flex-col p-3 h-auto text-xs" : "gap-2"
+              }`}
+            >
+              <Receipt className={isMobile ? "h-5 w-5" : "h-4 w-4"} />
+              <span className={isMobile ? "text-center" : ""}>
+                {isMobile ? "Transaksi" : "Transaksi"}
+              </span>
+            </TabsTrigger>
+            <TabsTrigger 
+              value="trial" 
+              className={`flex items-center justify-center gap-2 ${
+                isMobile ? "flex-col p-3 h-auto text-xs" : "gap-2"
+              }`}
+            >
+              <Timer className={isMobile ? "h-5 w-5" : "h-4 w-4"} />
+              <span className={isMobile ? "text-center" : ""}>
+                {isMobile ? "Trial" : "Trial"}
+              </span>
+            </TabsTrigger>
+            <TabsTrigger 
+              value="emails" 
+              className={`flex items-center justify-center gap-2 ${
+                isMobile ? "flex-col p-3 h-auto text-xs" : "gap-2"
+              }`}
+            >
+              <Mail className={isMobile ? "h-5 w-5" : "h-4 w-4"} />
+              <span className={isMobile ? "text-center" : ""}>
+                {isMobile ? "Email" : "Email"}
+              </span>
+            </TabsTrigger>
             <TabsTrigger 
               value="users" 
               className={`flex items-center justify-center gap-2 ${
@@ -162,6 +212,104 @@ const Admin = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="vouchers">
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Ticket className="h-5 w-5" />
+                  Manajemen Voucher
+                </CardTitle>
+                <CardDescription>
+                  Kelola kode promo kampanye dan pantau penggunaannya
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <VouchersManager />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="transactions" className="space-y-6">
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5" />
+                  Antrean Tinjauan Pembayaran
+                </CardTitle>
+                <CardDescription>
+                  Pembayaran kartu yang ditahan pemeriksaan fraud Midtrans menunggu persetujuan Anda
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PaymentReviewManager />
+              </CardContent>
+            </Card>
+
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Receipt className="h-5 w-5" />
+                  Manajemen Transaksi
+                </CardTitle>
+                <CardDescription>
+                  Pantau pembayaran, periksa status ke Midtrans, dan export data untuk keuangan
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TransactionsManager />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="trial">
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Timer className="h-5 w-5" />
+                  Trial Premium
+                </CardTitle>
+                <CardDescription>
+                  Atur trial gratis untuk pengguna baru dan pantau konversinya ke paket berbayar
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TrialManager />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="emails" className="space-y-6">
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Mail className="h-5 w-5" />
+                  Antrean Email
+                </CardTitle>
+                <CardDescription>
+                  Pantau pengiriman email transaksional dan kirim ulang yang gagal
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EmailOutboxManager />
+              </CardContent>
+            </Card>
+
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Mail className="h-5 w-5" />
+                  Template Email
+                </CardTitle>
+                <CardDescription>
+                  Pratinjau email yang dikirim ke member dan kirim email tes
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EmailTemplatesManager />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="users">
             <Card className="card-gradient">
               <CardHeader>
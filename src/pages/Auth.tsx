@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -7,21 +7,43 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, GraduationCap } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2, GraduationCap, Crown } from 'lucide-react';
 
 const Auth = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [loginForm, setLoginForm] = useState({ email: '', password: '' });
   const [signupForm, setSignupForm] = useState({ email: '', password: '', nama: '' });
+  const [trialDays, setTrialDays] = useState<number | null>(null);
   const { signIn, signUp, user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  // Pages such as /redeem send visitors here and expect them back; only allow local paths
+  const redirect = searchParams.get('redirect');
+  const redirectTo = redirect?.startsWith('/') && !redirect.startsWith('//') ? redirect : '/';
+  // Referral links land here as /auth?ref=<code>
+  const referralCode = searchParams.get('ref')?.trim().toUpperCase() || undefined;
 
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(redirectTo);
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
+
+  useEffect(() => {
+    const fetchTrialSettings = async () => {
+      const { data } = await supabase
+        .from('trial_settings')
+        .select('enabled, duration_days')
+        .maybeSingle();
+
+      setTrialDays(data?.enabled ? data.duration_days : null);
+    };
+
+    fetchTrialSettings();
+  }, []);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -40,7 +62,7 @@ const Auth = () => {
         title: 'Berhasil!',
         description: 'Anda berhasil masuk.',
       });
-      navigate('/');
+      navigate(redirectTo);
     }
 
     setIsLoading(false);
@@ -50,7 +72,7 @@ const Auth = () => {
     e.preventDefault();
     setIsLoading(true);
 
-    const { error } = await signUp(signupForm.email, signupForm.password, signupForm.nama);
+    const { error } = await signUp(signupForm.email, signupForm.password, signupForm.nama, redirectTo, referralCode);
 
     if (error) {
       toast({
@@ -85,7 +107,7 @@ const Auth = () => {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="login" className="w-full">
+            <Tabs defaultValue={referralCode ? 'signup' : 'login'} className="w-full">
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="login">Masuk</TabsTrigger>
                 <TabsTrigger value="signup">Daftar</TabsTrigger>
@@ -168,6 +190,17 @@ const Auth = () => {
                       minLength={6}
                     />
                   </div>
+                  {trialDays && (
+                    <div className="flex items-center gap-2 rounded-md border border-primary/30 bg-primary/10 p-3 text-sm">
+                      <Crown className="h-4 w-4 text-primary" />
+                      <span>Coba premium gratis {trialDays} hari setelah mendaftar</span>
+                    </div>
+                  )}
+                  {referralCode && (
+                    <p className="text-xs text-muted-foreground">
+                      Anda diundang dengan kode referral <span className="font-mono font-semibold">{referralCode}</span>
+                    </p>
+                  )}
                   <Button type="submit" className="w-full btn-premium" disabled={isLoading}>
                     {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                     Daftar
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { markdownToPlainText } from '@/lib/markdown';
 import { Search, Crown, PlayCircle, FileText, Image, Clock, Filter } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
@@ -30,7 +31,7 @@ interface Category {
 }
 
 const Edukasi = () => {
-  const { profile } = useAuth();
+  const { isPremium } = useAuth();
   const { toast } = useToast();
   const [educations, setEducations] = useState<Education[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -90,9 +91,7 @@ const Edukasi = () => {
                            education.categories.nama_kategori === selectedCategory;
     
     // If content is premium and user is not premium, don't show it
-    const canView = !education.is_premium || 
-                   (profile?.role === 'premium' && 
-                    (!profile.premium_until || new Date(profile.premium_until) > new Date()));
+    const canView = !education.is_premium || isPremium;
     
     return matchesSearch && matchesCategory && canView;
   });
@@ -193,7 +192,7 @@ const Edukasi = () => {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <p className="text-sm text-muted-foreground line-clamp-3">
-                    {education.konten}
+                    {markdownToPlainText(education.konten)}
                   </p>
                   <div className="flex items-center justify-between text-xs text-muted-foreground">
                     <div className="flex items-center gap-1">
@@ -230,7 +229,7 @@ const Edukasi = () => {
         )}
 
         {/* Premium CTA for non-premium users */}
-        {profile?.role !== 'premium' && (
+        {!isPremium && (
           <div className="mt-16">
             <Card className="card-gradient border-primary/20 text-center">
               <CardHeader>
@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, Link, Navigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
+import MarkdownContent from '@/components/MarkdownContent';
 import { supabase } from '@/integrations/supabase/client';
 import { ArrowLeft, Crown, PlayCircle, FileText, Image, Clock, User } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
@@ -24,19 +25,15 @@ interface Education {
 
 const EdukasiDetail = () => {
   const { id } = useParams<{ id: string }>();
-  const { profile } = useAuth();
+  const { isPremium, loading: authLoading } = useAuth();
   const { toast } = useToast();
   const [education, setEducation] = useState<Education | null>(null);
   const [loading, setLoading] = useState(true);
   const [accessDenied, setAccessDenied] = useState(false);
 
-  useEffect(() => {
-    if (id) {
-      fetchEducation();
-    }
-  }, [id]);
-
-  const fetchEducation = async () => {
+  // Access depends on the entitlement, which loads after the page does; check
+  // again when it arrives
+  const fetchEducation = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('educations')
@@ -53,15 +50,10 @@ const EdukasiDetail = () => {
 
       if (data) {
         // Check if user can access premium content
-        const canAccessPremium = !data.is_premium || 
-          (profile?.role === 'premium' && 
-           (!profile.premium_until || new Date(profile.premium_until) > new Date()));
+        const canAccessPremium = !data.is_premium || isPremium;
 
-        if (!canAccessPremium) {
-          setAccessDenied(true);
-        } else {
-          setEducation(data);
-        }
+        setAccessDenied(!canAccessPremium);
+        setEducation(canAccessPremium ? data : null);
       }
     } catch (error) {
       console.error('Error fetching education:', error);
@@ -73,7 +65,13 @@ const EdukasiDetail = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [id, isPremium, toast]);
+
+  useEffect(() => {
+    if (id && !authLoading) {
+      fetchEducation();
+    }
+  }, [id, authLoading, fetchEducation]);
 
   const getTypeIcon = (type: string) => {
     switch (type) {
@@ -263,11 +261,7 @@ const EdukasiDetail = () => {
             {renderMedia()}
 
             {/* Text Content */}
-            <div className="prose prose-gray dark:prose-invert max-w-none">
-              <div className="text-base leading-relaxed whitespace-pre-wrap">
-                {education.konten}
-              </div>
-            </div>
+            <MarkdownContent content={education.konten} className="text-base leading-relaxed" />
           </CardContent>
         </Card>
 
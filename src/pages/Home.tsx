@@ -1,9 +1,11 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchPackageFeatures, getPremiumBenefits } from '@/lib/package-features';
 import { 
   TrendingUp, 
   PiggyBank, 
@@ -55,14 +57,27 @@ const Home = () => {
     }
   ];
 
-  const premiumBenefits = [
-    'Akses materi eksklusif dan mendalam',
-    'Video tutorial premium & studi kasus nyata',
-    'Konsultasi singkat dengan mentor berpengalaman',
-    'Template dan tools perencanaan keuangan',
-    'Webinar eksklusif dengan ahli keuangan',
-    'Akses prioritas ke fitur terbaru'
-  ];
+  const [premiumBenefits, setPremiumBenefits] = useState<string[]>([]);
+
+  const fetchPremiumBenefits = useCallback(async () => {
+    try {
+      const [{ data: packages, error }, { features, links }] = await Promise.all([
+        supabase.from('premium_packages').select('id').eq('is_active', true),
+        fetchPackageFeatures(),
+      ]);
+
+      if (error) throw error;
+
+      const packageIds = (packages || []).map((pkg) => pkg.id);
+      setPremiumBenefits(getPremiumBenefits(features, links, packageIds).map((feature) => feature.title));
+    } catch (error) {
+      console.error('Error fetching premium benefits:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPremiumBenefits();
+  }, [fetchPremiumBenefits]);
 
   const communityPlatforms = [
     {
@@ -237,8 +252,8 @@ const Home = () => {
               </CardHeader>
               <CardContent className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {premiumBenefits.map((benefit, index) => (
-                    <div key={index} className="flex items-start space-x-3">
+                  {premiumBenefits.map((benefit) => (
+                    <div key={benefit} className="flex items-start space-x-3">
                       <CheckCircle className="h-5 w-5 text-primary mt-0.5 flex-shrink-0" />
                       <span className="text-sm">{benefit}</span>
                     </div>
@@ -0,0 +1,396 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { functionErrorMessage } from '@/lib/edge-functions';
+import { Building2, UserPlus, UserMinus, Users, Calendar, Crown } from 'lucide-react';
+
+interface Organization {
+  id: string;
+  name: string;
+  owner_id: string;
+}
+
+interface SeatUsage {
+  seats: number;
+  used: number;
+  license_ends_at: string | null;
+}
+
+interface Member {
+  id: string;
+  email: string;
+  user_id: string | null;
+  created_at: string;
+}
+
+interface Membership {
+  id: string;
+  organization_id: string;
+  organizations: { name: string } | null;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const Organization = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [usage, setUsage] = useState<SeatUsage | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchOrganizations = useCallback(async () => {
+    if (!user) return;
+
+    const [ownedResult, membershipResult] = await Promise.all([
+      supabase
+        .from('organizations')
+        .select('id, name, owner_id')
+        .eq('owner_id', user.id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('organization_members')
+        .select('id, organization_id, organizations(name)')
+        .eq('user_id', user.id)
+        .is('revoked_at', null),
+    ]);
+
+    if (ownedResult.error || membershipResult.error) {
+      console.error('Error fetching organizations:', ownedResult.error || membershipResult.error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memuat data organisasi',
+        variant: 'destructive',
+      });
+    }
+
+    const owned = ownedResult.data || [];
+    setOrganizations(owned);
+    setMemberships(membershipResult.data || []);
+    setSelectedId((current) => current ?? owned[0]?.id ?? null);
+    setLoading(false);
+  }, [user, toast]);
+
+  const fetchSeats = useCallback(async () => {
+    if (!selectedId) return;
+
+    const [usageResult, membersResult] = await Promise.all([
+      supabase.rpc('organization_seat_usage', { _organization_id: selectedId }),
+      supabase
+        .from('organization_members')
+        .select('id, email, user_id, created_at')
+        .eq('organization_id', selectedId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (usageResult.error || membersResult.error) {
+      console.error('Error fetching seats:', usageResult.error || membersResult.error);
+      return;
+    }
+
+    setUsage(usageResult.data?.[0] ?? null);
+    setMembers(membersResult.data || []);
+  }, [selectedId]);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  useEffect(() => {
+    fetchSeats();
+  }, [fetchSeats]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId || !inviteEmail.trim()) return;
+
+    setIsInviting(true);
+    const { data, error } = await supabase.functions.invoke('organization-members', {
+      body: { action: 'invite', organization_id: selectedId, email: inviteEmail.trim() },
+    });
+    setIsInviting(false);
+
+    if (error) {
+      console.error('Error inviting member:', error);
+      toast({
+        title: 'Gagal Mengundang',
+        description: await functionErrorMessage(error, 'Gagal mengundang anggota'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Anggota Diundang',
+      description: data.has_account
+        ? `${data.email} sekarang mendapat akses premium`
+        : `${data.email} akan mendapat akses premium setelah mendaftar`,
+    });
+    setInviteEmail('');
+    fetchSeats();
+  };
+
+  const handleRevoke = async (member: Member) => {
+    setRevokingId(member.id);
+    const { error } = await supabase.functions.invoke('organization-members', {
+      body: { action: 'revoke', member_id: member.id },
+    });
+    setRevokingId(null);
+
+    if (error) {
+      console.error('Error revoking member:', error);
+      toast({
+        title: 'Gagal Mencabut Kursi',
+        description: await functionErrorMessage(error, 'Gagal mencabut kursi anggota'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Kursi Dicabut',
+      description: `${member.email} tidak lagi mendapat akses premium dari organisasi ini`,
+    });
+    fetchSeats();
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-12 px-4">
+        <Card className="card-gradient max-w-md w-full text-center">
+          <CardHeader>
+            <Building2 className="h-12 w-12 text-primary mx-auto mb-4" />
+            <CardTitle>Organisasi</CardTitle>
+            <CardDescription>Silakan masuk untuk mengelola lisensi grup Anda</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button onClick={() => navigate(`/auth?redirect=${encodeURIComponent('/organization')}`)} className="btn-premium w-full">
+              Masuk
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return <div className="text-center py-12 text-muted-foreground">Memuat organisasi...</div>;
+  }
+
+  const selected = organizations.find((org) => org.id === selectedId);
+  const seatsLeft = usage ? Math.max(usage.seats - usage.used, 0) : 0;
+  // Seats in organizations the user does not own
+  const joined = memberships.filter((m) => !organizations.some((org) => org.id === m.organization_id));
+
+  return (
+    <div className="min-h-screen py-8 px-4">
+      <div className="container mx-auto max-w-4xl space-y-6">
+        <div className="text-center mb-8">
+          <Building2 className="h-16 w-16 text-primary mx-auto mb-4" />
+          <h1 className="text-3xl font-bold mb-2">Organisasi</h1>
+          <p className="text-muted-foreground">Kelola kursi lisensi grup premium</p>
+        </div>
+
+        {joined.length > 0 && (
+          <Card className="card-gradient">
+            <CardContent className="pt-6 space-y-2">
+              {joined.map((membership) => (
+                <p key={membership.id} className="flex items-center text-sm">
+                  <Crown className="mr-2 h-4 w-4 text-primary" />
+                  Anda mendapat kursi premium dari <span className="font-semibold ml-1">{membership.organizations?.name}</span>
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {organizations.length === 0 ? (
+          <Card className="card-gradient text-center">
+            <CardHeader>
+              <CardTitle>Belum Ada Organisasi</CardTitle>
+              <CardDescription>
+                Beli lisensi grup untuk perusahaan atau komunitas Anda, lalu undang anggota lewat email.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild className="btn-premium">
+                <Link to="/premium">Lihat Lisensi Grup</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {organizations.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {organizations.map((org) => (
+                  <Button
+                    key={org.id}
+                    variant={org.id === selectedId ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setSelectedId(org.id)}
+                  >
+                    {org.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {selected && (
+              <Card className="card-gradient">
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <div>
+                    <CardTitle className="flex items-center">
+                      <Users className="mr-2 h-5 w-5" />
+                      {selected.name}
+                    </CardTitle>
+                    <CardDescription className="flex items-center mt-1">
+                      <Calendar className="mr-1 h-3 w-3" />
+                      {usage?.license_ends_at
+                        ? `Lisensi aktif hingga ${formatDate(usage.license_ends_at)}`
+                        : 'Lisensi tidak aktif'}
+                    </CardDescription>
+                  </div>
+                  <Button asChild variant="outline" size="sm">
+                    <Link to={`/premium?organization=${selected.id}`}>Perpanjang</Link>
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>{usage?.used ?? 0} dari {usage?.seats ?? 0} kursi terpakai</span>
+                    <span className="text-muted-foreground">{seatsLeft} tersisa</span>
+                  </div>
+                  <Progress value={usage?.seats ? (usage.used / usage.seats) * 100 : 0} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <UserPlus className="mr-2 h-5 w-5" />
+                  Undang Anggota
+                </CardTitle>
+                <CardDescription>
+                  Anggota yang belum punya akun mendapat akses setelah mendaftar dengan email ini
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleInvite} className="flex gap-2">
+                  <Input
+                    type="email"
+                    placeholder="email@contoh.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    disabled={seatsLeft === 0}
+                  />
+                  <Button type="submit" disabled={isInviting || seatsLeft === 0 || !inviteEmail.trim()}>
+                    {isInviting ? 'Mengundang...' : 'Undang'}
+                  </Button>
+                </form>
+                {usage && seatsLeft === 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {usage.seats === 0
+                      ? 'Perpanjang lisensi untuk mengundang anggota.'
+                      : 'Semua kursi terpakai. Cabut kursi anggota atau perpanjang dengan kursi lebih banyak.'}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Diundang</TableHead>
+                    <TableHead className="text-right">Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                        Belum ada anggota
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    members.map((member) => (
+                      <TableRow key={member.id}>
+                        <TableCell className="font-medium">{member.email}</TableCell>
+                        <TableCell>
+                          {member.user_id === selected?.owner_id ? (
+                            <Badge className="premium-badge">Pemilik</Badge>
+                          ) : member.user_id ? (
+                            <Badge className="bg-green-500/20 text-green-300">Aktif</Badge>
+                          ) : (
+                            <Badge variant="secondary">Menunggu Pendaftaran</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDate(member.created_at)}</TableCell>
+                        <TableCell className="text-right">
+                          {member.user_id !== selected?.owner_id && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button size="sm" variant="outline" disabled={revokingId === member.id}>
+                                  <UserMinus className="h-3 w-3" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Cabut kursi {member.email}?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Akses premium dari organisasi ini langsung berakhir dan kursinya bisa diberikan ke orang lain.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Batal</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleRevoke(member)}>
+                                    Ya, Cabut
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Organization;
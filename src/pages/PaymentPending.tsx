@@ -1,17 +1,43 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Clock, RefreshCw, ArrowLeft, Info } from 'lucide-react';
+import { useTransactionStatus } from '@/hooks/use-transaction-status';
 
 const PaymentPending = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const orderId = searchParams.get('order_id');
+  const { status, refresh } = useTransactionStatus(orderId);
+  // A card payment held by the provider's fraud check waits for our admins
+  const underReview = status === 'review';
+
+  const steps = underReview
+    ? [
+        'Pembayaran kartu Anda sedang ditinjau oleh sistem keamanan pembayaran',
+        'Peninjauan biasanya selesai dalam 1x24 jam',
+        'Kami akan mengirim email begitu ada keputusan',
+      ]
+    : [
+        'Pembayaran sedang diverifikasi oleh bank',
+        'Proses biasanya memakan waktu 1-10 menit',
+        'Anda akan menerima notifikasi setelah selesai',
+      ];
+
+  // Leave this page as soon as the order settles either way
+  useEffect(() => {
+    if (!orderId) return;
+
+    if (status === 'paid' || status === 'partially_refunded' || status === 'refunded' || status === 'charged_back') {
+      navigate(`/payment-success?order_id=${encodeURIComponent(orderId)}`, { replace: true });
+    } else if (status === 'failed' || status === 'expired') {
+      navigate(`/payment-failed?order_id=${encodeURIComponent(orderId)}`, { replace: true });
+    }
+  }, [status, orderId, navigate]);
 
   const handleCheckStatus = () => {
-    // Refresh the page to check updated status
-    window.location.reload();
+    refresh();
   };
 
   const handleBackToHome = () => {
@@ -33,10 +59,10 @@ const PaymentPending = () => {
               </div>
             </div>
             <CardTitle className="text-3xl font-bold text-yellow-500 mb-2">
-              Pembayaran Pending
+              {underReview ? 'Pembayaran Sedang Ditinjau' : 'Pembayaran Pending'}
             </CardTitle>
             <p className="text-lg text-muted-foreground">
-              Pembayaran Anda sedang diproses
+              {underReview ? 'Pembayaran Anda perlu diperiksa sebelum premium diaktifkan' : 'Pembayaran Anda sedang diproses'}
             </p>
           </CardHeader>
           
@@ -51,18 +77,12 @@ const PaymentPending = () => {
             <div className="space-y-4">
               <h3 className="text-xl font-semibold">Status Pembayaran:</h3>
               <div className="text-left space-y-3">
-                <div className="flex items-start space-x-3">
-                  <Clock className="w-5 h-5 text-yellow-500 mt-0.5 flex-shrink-0" />
-                  <span className="text-sm">Pembayaran sedang diverifikasi oleh bank</span>
-                </div>
-                <div className="flex items-start space-x-3">
-                  <Clock className="w-5 h-5 text-yellow-500 mt-0.5 flex-shrink-0" />
-                  <span className="text-sm">Proses biasanya memakan waktu 1-10 menit</span>
-                </div>
-                <div className="flex items-start space-x-3">
-                  <Clock className="w-5 h-5 text-yellow-500 mt-0.5 flex-shrink-0" />
-                  <span className="text-sm">Anda akan menerima notifikasi setelah selesai</span>
-                </div>
+                {steps.map((step) => (
+                  <div key={step} className="flex items-start space-x-3">
+                    <Clock className="w-5 h-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+                    <span className="text-sm">{step}</span>
+                  </div>
+                ))}
               </div>
             </div>
 
@@ -71,11 +91,12 @@ const PaymentPending = () => {
                 <Info className="w-5 h-5 text-blue-500 mt-0.5 flex-shrink-0" />
                 <div className="text-left">
                   <p className="text-sm text-blue-700 dark:text-blue-300 font-medium">
-                    Jangan tutup halaman ini
+                    {underReview ? 'Jangan membayar ulang' : 'Jangan tutup halaman ini'}
                   </p>
                   <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                    Kami akan mengupdate status pembayaran secara otomatis. 
-                    Jika pembayaran berhasil, akun premium Anda akan langsung aktif.
+                    {underReview
+                      ? 'Pembayaran Anda sudah tercatat. Jika disetujui, akun premium Anda aktif otomatis tanpa perlu membayar lagi.'
+                      : 'Kami akan mengupdate status pembayaran secara otomatis. Jika pembayaran berhasil, akun premium Anda akan langsung aktif.'}
                   </p>
                 </div>
               </div>
@@ -89,13 +110,15 @@ const PaymentPending = () => {
                 <RefreshCw className="w-4 h-4 mr-2" />
                 Periksa Status
               </Button>
-              <Button 
-                variant="outline" 
-                onClick={handleTryAgain}
-                className="flex-1"
-              >
-                Pembayaran Baru
-              </Button>
+              {!underReview && (
+                <Button 
+                  variant="outline" 
+                  onClick={handleTryAgain}
+                  className="flex-1"
+                >
+                  Pembayaran Baru
+                </Button>
+              )}
             </div>
             
             <Button 
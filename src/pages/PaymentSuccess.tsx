@@ -2,23 +2,43 @@ import React, { useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Crown, CheckCircle, ArrowRight, BookOpen } from 'lucide-react';
+import { Crown, CheckCircle, ArrowRight, BookOpen, Loader2, HelpCircle, Gift, RotateCcw } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTransactionStatus, type TransactionStatus } from '@/hooks/use-transaction-status';
+
+// Orders whose money went back after they were paid
+const REFUNDED_STATES: Partial<Record<TransactionStatus, { title: string; description: string }>> = {
+  partially_refunded: {
+    title: 'Sebagian Pembayaran Dikembalikan',
+    description: 'Sebagian pembayaran pesanan ini telah dikembalikan, dan masa premium disesuaikan dengan jumlah yang tetap dibayar.',
+  },
+  refunded: {
+    title: 'Pembayaran Dikembalikan',
+    description: 'Pembayaran pesanan ini telah dikembalikan sepenuhnya, sehingga premium dari pesanan ini tidak lagi aktif.',
+  },
+  charged_back: {
+    title: 'Pembayaran Dibatalkan Bank',
+    description: 'Bank Anda membatalkan pembayaran pesanan ini, sehingga premium dari pesanan ini tidak lagi aktif.',
+  },
+};
 
 const PaymentSuccess = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { refreshProfile } = useAuth();
   const orderId = searchParams.get('order_id');
+  const { status, giftRecipient } = useTransactionStatus(orderId);
 
   useEffect(() => {
-    // Refresh user profile to get updated premium status
-    const timer = setTimeout(() => {
+    // Only the server's confirmation counts; Snap's redirect alone proves nothing
+    if (status === 'paid' && !giftRecipient) {
       refreshProfile();
-    }, 2000);
-
-    return () => clearTimeout(timer);
-  }, [refreshProfile]);
+    } else if (orderId && (status === 'failed' || status === 'expired')) {
+      navigate(`/payment-failed?order_id=${encodeURIComponent(orderId)}`, { replace: true });
+    } else if (orderId && status === 'review') {
+      navigate(`/payment-pending?order_id=${encodeURIComponent(orderId)}`, { replace: true });
+    }
+  }, [status, giftRecipient, orderId, refreshProfile, navigate]);
 
   const handleContinueToEducation = () => {
     navigate('/edukasi');
@@ -28,6 +48,145 @@ const PaymentSuccess = () => {
     navigate('/');
   };
 
+  if (status === 'not_found') {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-12 px-4">
+        <div className="container mx-auto max-w-2xl">
+          <Card className="card-gradient text-center">
+            <CardHeader className="pb-4">
+              <div className="mx-auto mb-6">
+                <div className="w-20 h-20 mx-auto bg-muted rounded-full flex items-center justify-center">
+                  <HelpCircle className="w-12 h-12 text-muted-foreground" />
+                </div>
+              </div>
+              <CardTitle className="text-3xl font-bold mb-2">
+                Pesanan Tidak Ditemukan
+              </CardTitle>
+              <p className="text-lg text-muted-foreground">
+                Kami tidak menemukan pesanan ini di akun Anda
+              </p>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" onClick={() => navigate('/premium')} className="w-full">
+                Kembali ke Premium
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const refundedState = REFUNDED_STATES[status];
+  if (refundedState) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-12 px-4">
+        <div className="container mx-auto max-w-2xl">
+          <Card className="card-gradient text-center">
+            <CardHeader className="pb-4">
+              <div className="mx-auto mb-6">
+                <div className="w-20 h-20 mx-auto bg-muted rounded-full flex items-center justify-center">
+                  <RotateCcw className="w-12 h-12 text-muted-foreground" />
+                </div>
+              </div>
+              <CardTitle className="text-3xl font-bold mb-2">
+                {refundedState.title}
+              </CardTitle>
+              <p className="text-lg text-muted-foreground">
+                {refundedState.description}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {orderId && (
+                <div className="bg-muted p-4 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Order ID:</p>
+                  <p className="font-mono text-sm">{orderId}</p>
+                </div>
+              )}
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button onClick={() => navigate('/profile')} className="btn-premium flex-1">
+                  Lihat Riwayat Pembayaran
+                </Button>
+                <Button variant="outline" onClick={handleBackToHome} className="flex-1">
+                  Kembali ke Home
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (status !== 'paid') {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-12 px-4">
+        <div className="container mx-auto max-w-2xl">
+          <Card className="card-gradient text-center">
+            <CardHeader className="pb-4">
+              <div className="mx-auto mb-6">
+                <div className="w-20 h-20 mx-auto bg-primary/20 rounded-full flex items-center justify-center">
+                  <Loader2 className="w-12 h-12 text-primary animate-spin" />
+                </div>
+              </div>
+              <CardTitle className="text-3xl font-bold mb-2">
+                Memverifikasi Pembayaran
+              </CardTitle>
+              <p className="text-lg text-muted-foreground">
+                Kami sedang menunggu konfirmasi dari penyedia pembayaran. Halaman ini akan diperbarui otomatis.
+              </p>
+            </CardHeader>
+            {orderId && (
+              <CardContent>
+                <div className="bg-muted p-4 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Order ID:</p>
+                  <p className="font-mono text-sm">{orderId}</p>
+                </div>
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (giftRecipient) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-12 px-4">
+        <div className="container mx-auto max-w-2xl">
+          <Card className="card-gradient text-center">
+            <CardHeader className="pb-4">
+              <div className="mx-auto mb-6">
+                <div className="w-20 h-20 mx-auto bg-green-500/20 rounded-full flex items-center justify-center">
+                  <Gift className="w-12 h-12 text-green-500" />
+                </div>
+              </div>
+              <CardTitle className="text-3xl font-bold text-green-500 mb-2">
+                Hadiah Terkirim! 🎁
+              </CardTitle>
+              <p className="text-lg text-muted-foreground">
+                Kode hadiah telah dikirim ke <span className="font-semibold">{giftRecipient}</span>
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Kode juga tersimpan di Riwayat Pembayaran pada halaman Profil jika penerima belum menerima email.
+              </p>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button onClick={() => navigate('/profile')} className="btn-premium flex-1">
+                  Lihat Riwayat Pembayaran
+                </Button>
+                <Button variant="outline" onClick={handleBackToHome} className="flex-1">
+                  Kembali ke Home
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center py-12 px-4">
       <div className="container mx-auto max-w-2xl">
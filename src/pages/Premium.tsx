@@ -1,21 +1,47 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { loadSnap, type SnapResult } from '@/lib/payment';
+import { functionErrorMessage } from '@/lib/edge-functions';
+import {
+  fetchPackageFeatures,
+  getFeatureIcon,
+  getFeaturesForPackage,
+  getPremiumBenefits,
+  type PackageFeature,
+  type PackageFeatureLink,
+} from '@/lib/package-features';
 import { 
   Crown, 
   Check, 
   Star, 
-  Users, 
-  VideoIcon,
-  BookOpen,
-  MessageCircle,
-  TrendingUp,
   Shield,
-  Zap
+  Ticket,
+  Gift,
+  Building2,
+  Clock,
+  X
 } from 'lucide-react';
 
 interface PremiumPackage {
@@ -26,30 +52,113 @@ interface PremiumPackage {
   duration_months: number;
   is_popular: boolean;
   is_active: boolean;
+  is_group: boolean;
+  min_seats: number;
+  price_includes_tax: boolean;
+  tax_rate: number | null;
+}
+
+interface VoucherQuote {
+  valid: boolean;
+  message?: string;
+  code?: string;
+  original_amount?: number;
+  discount_amount?: number;
+  final_amount?: number;
+}
+
+interface AppliedVoucher {
+  code: string;
+  packageId: string;
+  quote: VoucherQuote;
+}
+
+interface UpgradeQuote {
+  eligible: boolean;
+  credit?: number;
+  current_package_name?: string;
+  current_until?: string;
+  remaining_days?: number;
+}
+
+interface CheckoutRequest {
+  package_id: string;
+  voucher_code?: string;
+  auto_renew?: boolean;
+  gift?: { recipient_email: string; message?: string };
+  organization?: { id?: string; name?: string; seats: number };
+}
+
+interface RenewingOrganization {
+  id: string;
+  name: string;
+}
+
+interface PendingOrder {
+  id: string;
+  midtrans_order_id: string;
+  package_name: string;
+  amount: number;
+  expires_at: string | null;
+  snap_token: string | null;
+  gifts: { recipient_email: string } | null;
 }
 
 const Premium = () => {
-  const { profile, user } = useAuth();
+  const { user, isPremium, premiumUntil } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [selectedPlan, setSelectedPlan] = useState<string>('');
   const [packages, setPackages] = useState<PremiumPackage[]>([]);
   const [loading, setLoading] = useState(true);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [appliedVoucher, setAppliedVoucher] = useState<AppliedVoucher | null>(null);
+  const [isApplyingVoucher, setIsApplyingVoucher] = useState(false);
+  const [autoRenew, setAutoRenew] = useState(false);
+  const [isGift, setIsGift] = useState(false);
+  const [giftEmail, setGiftEmail] = useState('');
+  const [giftMessage, setGiftMessage] = useState('');
+  const [groupPackageId, setGroupPackageId] = useState('');
+  const [seats, setSeats] = useState(5);
+  const [organizationName, setOrganizationName] = useState('');
+  const [renewingOrganization, setRenewingOrganization] = useState<RenewingOrganization | null>(null);
+  const [upgradeQuotes, setUpgradeQuotes] = useState<Record<string, UpgradeQuote>>({});
+  const [defaultTaxRate, setDefaultTaxRate] = useState(0);
+  const [features, setFeatures] = useState<PackageFeature[]>([]);
+  const [featureLinks, setFeatureLinks] = useState<PackageFeatureLink[]>([]);
+  const [pendingOrder, setPendingOrder] = useState<PendingOrder | null>(null);
+  const [isCancelingOrder, setIsCancelingOrder] = useState(false);
 
   const fetchPackages = async () => {
     try {
-      const { data, error } = await supabase
-        .from('premium_packages')
-        .select('*')
-        .eq('is_active', true)
-        .order('duration_months', { ascending: true });
+      const [{ data, error }, taxResult, packageFeatures] = await Promise.all([
+        supabase
+          .from('premium_packages')
+          .select('*')
+          .eq('is_active', true)
+          .order('duration_months', { ascending: true }),
+        supabase.from('tax_settings').select('default_rate').maybeSingle(),
+        fetchPackageFeatures(),
+      ]);
 
       if (error) throw error;
 
       setPackages(data || []);
+      setDefaultTaxRate(Number(taxResult.data?.default_rate ?? 0));
+      setFeatures(packageFeatures.features);
+      setFeatureLinks(packageFeatures.links);
       
       // Set default selected plan to the first package if none selected
-      if (data && data.length > 0 && !selectedPlan) {
-        setSelectedPlan(data[0].id);
+      const firstPersonal = data?.find(pkg => !pkg.is_group);
+      if (firstPersonal && !selectedPlan) {
+        setSelectedPlan(firstPersonal.id);
+      }
+
+      const firstGroup = data?.find(pkg => pkg.is_group);
+      if (firstGroup) {
+        setGroupPackageId(firstGroup.id);
+        setSeats(Math.max(5, firstGroup.min_seats));
       }
     } catch (error) {
       console.error('Error fetching packages:', error);
@@ -67,6 +176,104 @@ const Premium = () => {
     fetchPackages();
   }, []);
 
+  // Owners renewing from the organization page arrive with ?organization=<id>
+  const renewOrganizationId = searchParams.get('organization');
+  useEffect(() => {
+    if (!renewOrganizationId || !user) return;
+
+    supabase
+      .from('organizations')
+      .select('id, name')
+      .eq('id', renewOrganizationId)
+      .eq('owner_id', user.id)
+      .maybeSingle()
+      .then(({ data }) => setRenewingOrganization(data));
+  }, [renewOrganizationId, user]);
+
+  // The member's latest order still waiting for payment, which they can continue or cancel
+  const fetchPendingOrder = useCallback(async () => {
+    if (!user) {
+      setPendingOrder(null);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, midtrans_order_id, package_name, amount, expires_at, snap_token, gifts(recipient_email)')
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .is('auto_renewal_id', null)
+      .not('snap_token', 'is', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching pending order:', error);
+      return;
+    }
+    setPendingOrder(data);
+  }, [user]);
+
+  useEffect(() => {
+    fetchPendingOrder();
+  }, [fetchPendingOrder]);
+
+  const personalPackages = packages.filter(pkg => !pkg.is_group);
+
+  // Members with paid time left get credit for it on longer packages
+  const fetchUpgradeQuotes = useCallback(async () => {
+    if (!user || !isPremium) {
+      setUpgradeQuotes({});
+      return;
+    }
+
+    const personalIds = packages.filter(pkg => !pkg.is_group).map(pkg => pkg.id);
+    const results = await Promise.all(
+      personalIds.map((id) => supabase.rpc('preview_upgrade', { _package_id: id }))
+    );
+
+    const quotes: Record<string, UpgradeQuote> = {};
+    results.forEach(({ data, error }, index) => {
+      if (error) {
+        console.error('Error fetching upgrade quote:', error);
+        return;
+      }
+      quotes[personalIds[index]] = data as unknown as UpgradeQuote;
+    });
+    setUpgradeQuotes(quotes);
+  }, [user, isPremium, packages]);
+
+  useEffect(() => {
+    fetchUpgradeQuotes();
+  }, [fetchUpgradeQuotes]);
+
+  // Mirrors set_transaction_tax(): net prices get PPN added at checkout
+  const getTaxRate = (pkg: PremiumPackage) => Number(pkg.tax_rate ?? defaultTaxRate);
+  const getTaxAdded = (pkg: PremiumPackage, amount: number) =>
+    pkg.price_includes_tax ? 0 : Math.round(amount * getTaxRate(pkg) / 100);
+  const getTaxNote = (pkg: PremiumPackage) =>
+    getTaxRate(pkg) > 0
+      ? `${pkg.price_includes_tax ? 'Termasuk' : 'Belum termasuk'} PPN ${getTaxRate(pkg)}%`
+      : null;
+
+  const getVoucherPrice = (pkg: PremiumPackage) =>
+    appliedVoucher?.packageId === pkg.id ? appliedVoucher.quote.final_amount ?? pkg.price : pkg.price;
+
+  // Mirrors create_checkout_transaction: the credit comes off after the voucher,
+  // and only when it leaves something to pay
+  const getUpgradeCredit = (pkg: PremiumPackage) => {
+    const quote = upgradeQuotes[pkg.id];
+    if (isGift || !quote?.eligible || !quote.credit) return 0;
+
+    return quote.credit < getVoucherPrice(pkg) ? quote.credit : 0;
+  };
+
+  const getUpgradeSubtotal = (pkg: PremiumPackage) => getVoucherPrice(pkg) - getUpgradeCredit(pkg);
+  const groupPackages = packages.filter(pkg => pkg.is_group);
+  const selectedGroupPackage = groupPackages.find(pkg => pkg.id === groupPackageId);
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -75,38 +282,78 @@ const Premium = () => {
     }).format(price);
   };
 
-  const benefits = [
-    {
-      icon: BookOpen,
-      title: 'Akses Materi Eksklusif',
-      description: 'Dapatkan akses ke semua konten premium termasuk panduan mendalam dan strategi advanced'
-    },
-    {
-      icon: VideoIcon,
-      title: 'Video Premium & Studi Kasus',
-      description: 'Tonton video tutorial eksklusif dan analisis studi kasus nyata dari para ahli'
-    },
-    {
-      icon: MessageCircle,
-      title: 'Konsultasi dengan Mentor',
-      description: 'Dapatkan kesempatan konsultasi singkat dengan mentor berpengalaman'
-    },
-    {
-      icon: TrendingUp,
-      title: 'Template & Tools Premium',
-      description: 'Akses template perencanaan keuangan dan tools kalkulasi yang powerful'
-    },
-    {
-      icon: Users,
-      title: 'Webinar Eksklusif',
-      description: 'Ikuti webinar khusus member premium dengan pembicara ahli keuangan'
-    },
-    {
-      icon: Zap,
-      title: 'Akses Prioritas',
-      description: 'Dapatkan akses lebih awal ke fitur-fitur terbaru dan konten yang akan datang'
+  const applyVoucher = async (code: string, packageId: string) => {
+    if (!user) {
+      toast({
+        title: 'Login Required',
+        description: 'Silakan login terlebih dahulu untuk menggunakan kode voucher',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!code.trim() || !packageId) return;
+
+    setIsApplyingVoucher(true);
+    try {
+      const { data, error } = await supabase.rpc('preview_voucher', {
+        _code: code.trim(),
+        _package_id: packageId,
+      });
+
+      if (error) throw error;
+
+      const quote = data as unknown as VoucherQuote;
+      if (!quote.valid) {
+        setAppliedVoucher(null);
+        toast({
+          title: 'Voucher Tidak Berlaku',
+          description: quote.message || 'Kode voucher tidak valid',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setAppliedVoucher({ code: quote.code || code.trim(), packageId, quote });
+      toast({
+        title: 'Voucher Diterapkan',
+        description: `Hemat ${formatPrice(quote.discount_amount || 0)} untuk paket ini`,
+      });
+    } catch (error) {
+      console.error('Error applying voucher:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memeriksa kode voucher',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsApplyingVoucher(false);
+    }
+  };
+
+  const handleSelectPlan = (packageId: string) => {
+    setSelectedPlan(packageId);
+
+    // Re-price the voucher for the newly selected package
+    if (appliedVoucher && appliedVoucher.packageId !== packageId) {
+      applyVoucher(appliedVoucher.code, packageId);
     }
-  ];
+  };
+
+  const removeVoucher = () => {
+    setAppliedVoucher(null);
+    setVoucherCode('');
+  };
+
+  const premiumEndDate = premiumUntil
+    ? new Date(premiumUntil).toLocaleDateString('id-ID', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+      })
+    : null;
+
+  const benefits = getPremiumBenefits(features, featureLinks, packages.map((pkg) => pkg.id));
 
   const handleUpgrade = async (planId: string) => {
     if (!user) {
@@ -120,7 +367,7 @@ const Premium = () => {
       return;
     }
 
-    // Find the selected package to get duration
+    // Make sure the selected package is still offered
     const selectedPackage = packages.find(pkg => pkg.id === planId);
     if (!selectedPackage) {
       toast({
@@ -131,63 +378,114 @@ const Premium = () => {
       return;
     }
 
-    // Convert duration to paket format expected by backend
-    const paket = selectedPackage.duration_months === 1 ? 'monthly' : 'yearly';
+    if (isGift && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(giftEmail.trim())) {
+      toast({
+        title: 'Email Penerima Diperlukan',
+        description: 'Masukkan email yang valid untuk penerima hadiah',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    await openCheckout({
+      package_id: selectedPackage.id,
+      voucher_code: appliedVoucher?.packageId === selectedPackage.id ? appliedVoucher.code : undefined,
+      auto_renew: !isGift && autoRenew,
+      gift: isGift ? { recipient_email: giftEmail.trim(), message: giftMessage.trim() || undefined } : undefined
+    });
+  };
+
+  const handleGroupPurchase = async () => {
+    if (!user) {
+      navigate(`/auth?redirect=${encodeURIComponent('/premium')}`);
+      return;
+    }
+
+    if (!selectedGroupPackage) return;
+
+    if (seats < selectedGroupPackage.min_seats) {
+      toast({
+        title: 'Jumlah Kursi Kurang',
+        description: `Paket ini minimal ${selectedGroupPackage.min_seats} kursi`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!renewingOrganization && organizationName.trim().length < 3) {
+      toast({
+        title: 'Nama Organisasi Diperlukan',
+        description: 'Masukkan nama perusahaan atau komunitas Anda',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    await openCheckout({
+      package_id: selectedGroupPackage.id,
+      organization: renewingOrganization
+        ? { id: renewingOrganization.id, seats }
+        : { name: organizationName.trim(), seats }
+    });
+  };
+
+  const openSnap = async (token: string, orderId: string) => {
+    const snap = await loadSnap();
 
+    // Use Snap.js popup
+    snap.pay(token, {
+      onSuccess: function(result: SnapResult) {
+        console.log('Payment success:', result);
+        // The success page waits for the webhook before confirming the upgrade
+        navigate(`/payment-success?order_id=${encodeURIComponent(orderId)}`);
+      },
+      onPending: function(result: SnapResult) {
+        console.log('Payment pending:', result);
+        navigate(`/payment-pending?order_id=${encodeURIComponent(orderId)}`);
+      },
+      onError: function(result: SnapResult) {
+        console.log('Payment error:', result);
+        toast({
+          title: 'Pembayaran Gagal',
+          description: 'Terjadi kesalahan saat memproses pembayaran. Silakan coba lagi.',
+          variant: 'destructive',
+        });
+        fetchPendingOrder();
+      },
+      onClose: function() {
+        console.log('Payment popup closed');
+        toast({
+          title: 'Pembayaran Belum Selesai',
+          description: 'Anda dapat melanjutkan atau membatalkan pembayaran ini dari halaman premium.',
+        });
+        fetchPendingOrder();
+      }
+    });
+  };
+
+  const openCheckout = async (body: CheckoutRequest) => {
     try {
       toast({
         title: 'Memproses...',
         description: 'Sedang menyiapkan pembayaran Anda',
       });
 
-      const { data, error } = await supabase.functions.invoke('create-payment', {
-        body: { paket }
-      });
+      const { data, error } = await supabase.functions.invoke('create-payment', { body });
 
       if (error) {
         throw error;
       }
 
       if (data?.token) {
-        // Check if Snap.js is loaded
-        if (typeof (window as any).snap === 'undefined') {
-          throw new Error('Midtrans Snap.js not loaded. Please refresh the page and try again.');
+        // create-payment hands back an unpaid order for the same package instead of a new one
+        if (data.resumed) {
+          toast({
+            title: 'Melanjutkan Pembayaran',
+            description: 'Anda masih punya order yang belum dibayar untuk paket ini',
+          });
         }
-        
-        // Use Snap.js popup
-        (window as any).snap.pay(data.token, {
-          onSuccess: function(result: any) {
-            console.log('Payment success:', result);
-            toast({
-              title: 'Pembayaran Berhasil!',
-              description: 'Selamat! Akun Anda telah diupgrade ke Premium.',
-            });
-            // Refresh page to update premium status
-            window.location.reload();
-          },
-          onPending: function(result: any) {
-            console.log('Payment pending:', result);
-            toast({
-              title: 'Pembayaran Pending',
-              description: 'Pembayaran Anda sedang diproses. Mohon tunggu konfirmasi.',
-            });
-          },
-          onError: function(result: any) {
-            console.log('Payment error:', result);
-            toast({
-              title: 'Pembayaran Gagal',
-              description: 'Terjadi kesalahan saat memproses pembayaran. Silakan coba lagi.',
-              variant: 'destructive',
-            });
-          },
-          onClose: function() {
-            console.log('Payment popup closed');
-            toast({
-              title: 'Pembayaran Dibatalkan',
-              description: 'Anda membatalkan proses pembayaran.',
-            });
-          }
-        });
+
+        await openSnap(data.token, data.order_id);
       } else {
         throw new Error('Payment token not received');
       }
@@ -195,14 +493,56 @@ const Premium = () => {
       console.error('Payment error:', error);
       toast({
         title: 'Gagal Memproses Pembayaran',
-        description: error.message || 'Terjadi kesalahan saat memproses pembayaran. Silakan coba lagi.',
+        description: await functionErrorMessage(
+          error,
+          error.message || 'Terjadi kesalahan saat memproses pembayaran. Silakan coba lagi.'
+        ),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const resumePendingOrder = async () => {
+    if (!pendingOrder?.snap_token) return;
+
+    try {
+      await openSnap(pendingOrder.snap_token, pendingOrder.midtrans_order_id);
+    } catch (error) {
+      console.error('Error resuming payment:', error);
+      toast({
+        title: 'Gagal Membuka Pembayaran',
+        description: 'Muat ulang halaman lalu coba lagi.',
         variant: 'destructive',
       });
     }
   };
 
-  const isPremium = profile?.role === 'premium' && 
-                   (!profile.premium_until || new Date(profile.premium_until) > new Date());
+  const cancelPendingOrder = async () => {
+    if (!pendingOrder) return;
+
+    setIsCancelingOrder(true);
+    const { error } = await supabase.functions.invoke('cancel-payment', {
+      body: { order_id: pendingOrder.midtrans_order_id },
+    });
+    setIsCancelingOrder(false);
+
+    if (error) {
+      console.error('Error canceling order:', error);
+      toast({
+        title: 'Gagal Membatalkan Pembayaran',
+        description: await functionErrorMessage(error, 'Terjadi kesalahan saat membatalkan pembayaran'),
+        variant: 'destructive',
+      });
+      fetchPendingOrder();
+      return;
+    }
+
+    toast({
+      title: 'Pembayaran Dibatalkan',
+      description: `Order ${pendingOrder.package_name} dibatalkan. Anda dapat memilih paket lain.`,
+    });
+    fetchPendingOrder();
+  };
 
   return (
     <div className="min-h-screen py-12 px-4">
@@ -225,73 +565,371 @@ const Premium = () => {
                 <Crown className="mr-2 h-5 w-5" />
                 Anda sudah menjadi Member Premium!
               </Badge>
+              {premiumEndDate && (
+                <p className="text-muted-foreground mt-3">Aktif hingga {premiumEndDate}</p>
+              )}
             </div>
           )}
         </div>
 
-        {!isPremium && (
-          <>
-            {/* Pricing Plans */}
-            <div className="mb-16">
-              <h2 className="text-3xl font-bold text-center mb-8">Pilih Paket Berlangganan</h2>
-              
-              {loading ? (
-                <div className="text-center">
-                  <div className="text-muted-foreground">Memuat paket premium...</div>
-                </div>
-              ) : packages.length === 0 ? (
-                <div className="text-center">
-                  <div className="text-muted-foreground">Tidak ada paket premium tersedia</div>
+        {/* Unpaid order from an earlier checkout */}
+        {pendingOrder && (
+          <Card className="card-gradient border-primary/50 max-w-3xl mx-auto mb-12">
+            <CardHeader>
+              <CardTitle className="flex items-center text-xl">
+                <Clock className="mr-2 h-5 w-5 text-primary" />
+                Pembayaran Belum Selesai
+              </CardTitle>
+              <CardDescription>
+                {pendingOrder.package_name}
+                {pendingOrder.gifts && ` (hadiah untuk ${pendingOrder.gifts.recipient_email})`} · {formatPrice(pendingOrder.amount)}
+                {pendingOrder.expires_at && (
+                  <> · bayar sebelum {new Date(pendingOrder.expires_at).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}</>
+                )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col sm:flex-row gap-3">
+              <Button className="btn-premium" onClick={resumePendingOrder}>
+                Lanjutkan Pembayaran
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={isCancelingOrder}>
+                    <X className="mr-2 h-4 w-4" />
+                    {isCancelingOrder ? 'Membatalkan...' : 'Batalkan'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Batalkan order {pendingOrder.package_name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Kode pembayaran atau virtual account dari order ini tidak bisa dipakai lagi. Anda dapat memulai pembayaran baru setelahnya.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Kembali</AlertDialogCancel>
+                    <AlertDialogAction onClick={cancelPendingOrder}>
+                      Ya, Batalkan
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pricing Plans */}
+        <div className="mb-16">
+          <h2 className="text-3xl font-bold text-center mb-8">
+            {isPremium ? 'Perpanjang Premium' : 'Pilih Paket Berlangganan'}
+          </h2>
+          {isPremium && premiumEndDate && (
+            <p className="text-center text-muted-foreground -mt-4 mb-8">
+              Masa aktif baru akan ditambahkan setelah {premiumEndDate}, sisa hari Anda tidak hilang.
+              {Object.values(upgradeQuotes).some(quote => quote.eligible) &&
+                ' Upgrade ke paket yang lebih panjang dimulai hari ini, dan sisa nilai paket Anda dipotong dari harganya.'}
+            </p>
+          )}
+          
+          {loading ? (
+            <div className="text-center">
+              <div className="text-muted-foreground">Memuat paket premium...</div>
+            </div>
+          ) : personalPackages.length === 0 ? (
+            <div className="text-center">
+              <div className="text-muted-foreground">Tidak ada paket premium tersedia</div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
+              {personalPackages.map((pkg) => (
+                <Card 
+                  key={pkg.id}
+                  className={`card-gradient relative cursor-pointer transition-all duration-300 ${
+                    selectedPlan === pkg.id 
+                      ? 'ring-2 ring-primary scale-105' 
+                      : 'hover:scale-102'
+                  } ${pkg.is_popular ? 'border-primary/50' : ''}`}
+                  onClick={() => handleSelectPlan(pkg.id)}
+                >
+                  {pkg.is_popular && (
+                    <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
+                      <Badge className="premium-badge">
+                        <Star className="mr-1 h-3 w-3" />
+                        Paling Populer
+                      </Badge>
+                    </div>
+                  )}
+                  
+                  <CardHeader className="text-center">
+                    <CardTitle className="text-2xl">{pkg.name}</CardTitle>
+                    <div className="py-4">
+                      {getUpgradeCredit(pkg) > 0 ? (
+                        <div className="space-y-1 text-sm text-left">
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Harga paket</span>
+                            <span>{formatPrice(pkg.price)}</span>
+                          </div>
+                          {appliedVoucher?.packageId === pkg.id && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">Voucher {appliedVoucher.code}</span>
+                              <span>-{formatPrice(appliedVoucher.quote.discount_amount || 0)}</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">
+                              Sisa {upgradeQuotes[pkg.id].current_package_name} ({upgradeQuotes[pkg.id].remaining_days} hari)
+                            </span>
+                            <span>-{formatPrice(getUpgradeCredit(pkg))}</span>
+                          </div>
+                          {!pkg.price_includes_tax && getTaxRate(pkg) > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">PPN {getTaxRate(pkg)}%</span>
+                              <span>+{formatPrice(getTaxAdded(pkg, getUpgradeSubtotal(pkg)))}</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between items-baseline border-t border-border/50 pt-2">
+                            <span className="text-muted-foreground">Bayar</span>
+                            <span className="text-3xl font-bold text-primary">
+                              {formatPrice(getUpgradeSubtotal(pkg) + getTaxAdded(pkg, getUpgradeSubtotal(pkg)))}
+                            </span>
+                          </div>
+                        </div>
+                      ) : appliedVoucher?.packageId === pkg.id ? (
+                        <>
+                          <div className="text-lg text-muted-foreground line-through">{formatPrice(pkg.price)}</div>
+                          <div className="text-4xl font-bold text-primary">
+                            {formatPrice(appliedVoucher.quote.final_amount ?? pkg.price)}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-4xl font-bold text-primary">{formatPrice(pkg.price)}</div>
+                      )}
+                      <div className="text-sm text-muted-foreground mt-1">
+                        {pkg.duration_months} bulan
+                      </div>
+                      {getTaxNote(pkg) && (
+                        <div className="text-xs text-muted-foreground">{getTaxNote(pkg)}</div>
+                      )}
+                    </div>
+                    <CardDescription>{pkg.description || `Akses premium selama ${pkg.duration_months} bulan`}</CardDescription>
+                  </CardHeader>
+                  
+                  <CardContent>
+                    {getFeaturesForPackage(pkg.id, features, featureLinks).length > 0 && (
+                      <ul className="space-y-2 mb-6 text-sm">
+                        {getFeaturesForPackage(pkg.id, features, featureLinks).map((feature) => (
+                          <li key={feature.id} className="flex items-start">
+                            <Check className="mr-2 mt-0.5 h-4 w-4 shrink-0 text-primary" />
+                            <span>{feature.title}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <Button 
+                      className="w-full btn-premium"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleUpgrade(pkg.id);
+                      }}
+                    >
+                      {isGift
+                        ? 'Hadiahkan Paket Ini'
+                        : getUpgradeCredit(pkg) > 0
+                          ? 'Upgrade ke Paket Ini'
+                          : isPremium ? 'Perpanjang dengan Paket Ini' : 'Pilih Paket Ini'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {/* Voucher */}
+          {personalPackages.length > 0 && (
+            <div className="max-w-md mx-auto mt-10">
+              {appliedVoucher ? (
+                <div className="flex items-center justify-between rounded-lg border border-primary/50 p-3">
+                  <div className="flex items-center text-sm">
+                    <Ticket className="mr-2 h-4 w-4 text-primary" />
+                    <span>
+                      Voucher <span className="font-semibold">{appliedVoucher.code}</span> hemat{' '}
+                      {formatPrice(appliedVoucher.quote.discount_amount || 0)}
+                    </span>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={removeVoucher}>
+                    <X className="h-4 w-4" />
+                  </Button>
                 </div>
               ) : (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
-                  {packages.map((pkg) => (
-                    <Card 
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Punya kode voucher?"
+                    value={voucherCode}
+                    onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => applyVoucher(voucherCode, selectedPlan)}
+                    disabled={!voucherCode.trim() || isApplyingVoucher}
+                  >
+                    {isApplyingVoucher ? 'Memeriksa...' : 'Terapkan'}
+                  </Button>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground text-center mt-2">
+                Voucher berlaku untuk paket yang sedang dipilih
+              </p>
+
+              {/* Gift: the recipient gets a code by email once the order is paid */}
+              <div className="rounded-lg border p-3 mt-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="gift" className="flex items-center cursor-pointer">
+                    <Gift className="mr-2 h-4 w-4 text-primary" />
+                    Beli sebagai hadiah
+                  </Label>
+                  <Switch id="gift" checked={isGift} onCheckedChange={setIsGift} />
+                </div>
+                {isGift && (
+                  <div className="space-y-3">
+                    <Input
+                      type="email"
+                      placeholder="Email penerima"
+                      value={giftEmail}
+                      onChange={(e) => setGiftEmail(e.target.value)}
+                    />
+                    <Textarea
+                      placeholder="Pesan untuk penerima (opsional)"
+                      value={giftMessage}
+                      maxLength={500}
+                      onChange={(e) => setGiftMessage(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Setelah pembayaran berhasil, penerima akan mendapat kode hadiah lewat email.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {/* Auto-renew is opt-in and only works with methods that can be saved */}
+              {!isGift && (
+                <div className="flex items-start space-x-3 rounded-lg border p-3 mt-6">
+                  <Checkbox
+                    id="auto-renew"
+                    checked={autoRenew}
+                    onCheckedChange={(checked) => setAutoRenew(checked === true)}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="auto-renew" className="cursor-pointer">
+                      Perpanjang otomatis
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      Bayar dengan kartu kredit/debit atau GoPay untuk menyimpan metode pembayaran.
+                      Kami akan menagih paket yang sama sehari sebelum masa aktif berakhir.
+                      Anda bisa membatalkannya kapan saja dari halaman Profil.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Group licenses: priced per seat, seats are assigned on the organization page */}
+        {groupPackages.length > 0 && (
+          <div className="mb-16">
+            <h2 className="text-3xl font-bold text-center mb-4">Lisensi Grup</h2>
+            <p className="text-center text-muted-foreground mb-8 max-w-2xl mx-auto">
+              Untuk perusahaan dan komunitas kampus. Beli premium untuk banyak orang sekaligus,
+              lalu undang anggota lewat email.
+            </p>
+            <Card className="card-gradient max-w-2xl mx-auto">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Building2 className="mr-2 h-5 w-5 text-primary" />
+                  {renewingOrganization ? `Perpanjang Lisensi ${renewingOrganization.name}` : 'Beli Lisensi Grup'}
+                </CardTitle>
+                <CardDescription>
+                  {renewingOrganization
+                    ? 'Masa aktif baru ditambahkan setelah lisensi yang berjalan berakhir.'
+                    : 'Anda akan menjadi pemilik organisasi dan otomatis mendapat satu kursi.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {groupPackages.map((pkg) => (
+                    <button
                       key={pkg.id}
-                      className={`card-gradient relative cursor-pointer transition-all duration-300 ${
-                        selectedPlan === pkg.id 
-                          ? 'ring-2 ring-primary scale-105' 
-                          : 'hover:scale-102'
-                      } ${pkg.is_popular ? 'border-primary/50' : ''}`}
-                      onClick={() => setSelectedPlan(pkg.id)}
+                      type="button"
+                      onClick={() => {
+                        setGroupPackageId(pkg.id);
+                        setSeats(Math.max(seats, pkg.min_seats));
+                      }}
+                      className={`rounded-lg border p-3 text-left transition-colors ${
+                        groupPackageId === pkg.id ? 'border-primary ring-1 ring-primary' : 'hover:border-primary/50'
+                      }`}
                     >
-                      {pkg.is_popular && (
-                        <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
-                          <Badge className="premium-badge">
-                            <Star className="mr-1 h-3 w-3" />
-                            Paling Populer
-                          </Badge>
-                        </div>
-                      )}
-                      
-                      <CardHeader className="text-center">
-                        <CardTitle className="text-2xl">{pkg.name}</CardTitle>
-                        <div className="py-4">
-                          <div className="text-4xl font-bold text-primary">{formatPrice(pkg.price)}</div>
-                          <div className="text-sm text-muted-foreground mt-1">
-                            {pkg.duration_months} bulan
-                          </div>
-                        </div>
-                        <CardDescription>{pkg.description || `Akses premium selama ${pkg.duration_months} bulan`}</CardDescription>
-                      </CardHeader>
-                      
-                      <CardContent>
-                        <Button 
-                          className="w-full btn-premium"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleUpgrade(pkg.id);
-                          }}
-                        >
-                          Pilih Paket Ini
-                        </Button>
-                      </CardContent>
-                    </Card>
+                      <p className="font-semibold">{pkg.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatPrice(pkg.price)} / kursi · {pkg.duration_months} bulan
+                      </p>
+                    </button>
                   ))}
                 </div>
-              )}
-            </div>
-          </>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="seats">Jumlah Kursi</Label>
+                    <Input
+                      id="seats"
+                      type="number"
+                      min={selectedGroupPackage?.min_seats ?? 1}
+                      max={1000}
+                      value={seats}
+                      onChange={(e) => setSeats(Number(e.target.value))}
+                    />
+                    {selectedGroupPackage && (
+                      <p className="text-xs text-muted-foreground">Minimal {selectedGroupPackage.min_seats} kursi</p>
+                    )}
+                  </div>
+                  {!renewingOrganization && (
+                    <div className="space-y-2">
+                      <Label htmlFor="organization-name">Nama Organisasi</Label>
+                      <Input
+                        id="organization-name"
+                        placeholder="PT Contoh / BEM Kampus"
+                        maxLength={100}
+                        value={organizationName}
+                        onChange={(e) => setOrganizationName(e.target.value)}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {selectedGroupPackage && (
+                  <div className="flex items-center justify-between rounded-lg border p-3">
+                    <span className="text-sm text-muted-foreground">
+                      {seats} kursi × {formatPrice(selectedGroupPackage.price)}
+                    </span>
+                    <div className="text-right">
+                      <span className="text-xl font-bold text-primary">
+                        {formatPrice(
+                          selectedGroupPackage.price * seats
+                            + getTaxAdded(selectedGroupPackage, selectedGroupPackage.price * seats)
+                        )}
+                      </span>
+                      {getTaxNote(selectedGroupPackage) && (
+                        <p className="text-xs text-muted-foreground">{getTaxNote(selectedGroupPackage)}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                <Button className="w-full btn-premium" onClick={handleGroupPurchase}>
+                  {renewingOrganization ? 'Perpanjang Lisensi Grup' : 'Beli Lisensi Grup'}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
         )}
 
         {/* Benefits */}
@@ -300,17 +938,20 @@ const Premium = () => {
             Keuntungan Member Premium
           </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {benefits.map((benefit, index) => (
-              <Card key={index} className="card-gradient text-center group hover:scale-105 transition-all duration-300">
-                <CardHeader>
-                  <benefit.icon className="h-12 w-12 mx-auto mb-4 text-primary group-hover:scale-110 transition-transform" />
-                  <CardTitle className="text-lg">{benefit.title}</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <CardDescription>{benefit.description}</CardDescription>
-                </CardContent>
-              </Card>
-            ))}
+            {benefits.map((benefit) => {
+              const Icon = getFeatureIcon(benefit.icon);
+              return (
+                <Card key={benefit.id} className="card-gradient text-center group hover:scale-105 transition-all duration-300">
+                  <CardHeader>
+                    <Icon className="h-12 w-12 mx-auto mb-4 text-primary group-hover:scale-110 transition-transform" />
+                    <CardTitle className="text-lg">{benefit.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <CardDescription>{benefit.description}</CardDescription>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </div>
 
@@ -325,40 +966,37 @@ const Premium = () => {
                     <tr className="border-b border-border">
                       <th className="text-left py-4 px-4">Fitur</th>
                       <th className="text-center py-4 px-4">Gratis</th>
-                      <th className="text-center py-4 px-4">
-                        <div className="flex items-center justify-center">
-                          <Crown className="mr-2 h-5 w-5 text-primary" />
-                          Premium
-                        </div>
-                      </th>
+                      {personalPackages.map((pkg) => (
+                        <th key={pkg.id} className="text-center py-4 px-4">
+                          <div className="flex items-center justify-center">
+                            <Crown className="mr-2 h-5 w-5 text-primary" />
+                            {pkg.name}
+                          </div>
+                        </th>
+                      ))}
                     </tr>
                   </thead>
                   <tbody>
-                    {[
-                      { feature: 'Akses konten dasar', free: true, premium: true },
-                      { feature: 'Video tutorial premium', free: false, premium: true },
-                      { feature: 'Studi kasus nyata', free: false, premium: true },
-                      { feature: 'Konsultasi mentor', free: false, premium: true },
-                      { feature: 'Template keuangan', free: false, premium: true },
-                      { feature: 'Webinar eksklusif', free: false, premium: true },
-                      { feature: 'Akses prioritas fitur baru', free: false, premium: true },
-                    ].map((row, index) => (
-                      <tr key={index} className="border-b border-border/50">
-                        <td className="py-4 px-4">{row.feature}</td>
+                    {features.filter((feature) => feature.is_active).map((feature) => (
+                      <tr key={feature.id} className="border-b border-border/50">
+                        <td className="py-4 px-4">{feature.title}</td>
                         <td className="text-center py-4 px-4">
-                          {row.free ? (
+                          {feature.in_free_tier ? (
                             <Check className="h-5 w-5 text-secondary mx-auto" />
                           ) : (
                             <span className="text-muted-foreground">-</span>
                           )}
                         </td>
-                        <td className="text-center py-4 px-4">
-                          {row.premium ? (
-                            <Check className="h-5 w-5 text-primary mx-auto" />
-                          ) : (
-                            <span className="text-muted-foreground">-</span>
-                          )}
-                        </td>
+                        {personalPackages.map((pkg) => (
+                          <td key={pkg.id} className="text-center py-4 px-4">
+                            {/* Premium members keep everything free members have */}
+                            {feature.in_free_tier || featureLinks.some((link) => link.package_id === pkg.id && link.feature_id === feature.id) ? (
+                              <Check className="h-5 w-5 text-primary mx-auto" />
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </td>
+                        ))}
                       </tr>
                     ))}
                   </tbody>
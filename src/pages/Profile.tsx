@@ -8,6 +8,9 @@ import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import PaymentHistory from '@/components/profile/PaymentHistory';
+import AutoRenewalCard from '@/components/profile/AutoRenewalCard';
+import ReferralCard from '@/components/profile/ReferralCard';
 import { 
   Crown, 
   User, 
@@ -24,7 +27,7 @@ import {
 } from 'lucide-react';
 
 const Profile = () => {
-  const { user, profile, refreshProfile } = useAuth();
+  const { user, profile, isPremium, premiumUntil, refreshProfile } = useAuth();
   const { toast } = useToast();
   const [isEditing, setIsEditing] = useState(false);
   const [nama, setNama] = useState(profile?.nama || '');
@@ -86,19 +89,16 @@ const Profile = () => {
     }
   };
 
-  const isPremium = profile?.role === 'premium' && 
-                   (!profile.premium_until || new Date(profile.premium_until) > new Date());
-
-  const premiumEndDate = profile?.premium_until ? 
-    new Date(profile.premium_until).toLocaleDateString('id-ID', {
+  const premiumEndDate = premiumUntil ? 
+    new Date(premiumUntil).toLocaleDateString('id-ID', {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
       day: 'numeric'
     }) : null;
 
-  const daysUntilExpiry = profile?.premium_until ? 
-    Math.ceil((new Date(profile.premium_until).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) : null;
+  const daysUntilExpiry = premiumUntil ? 
+    Math.ceil((new Date(premiumUntil).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) : null;
 
   return (
     <div className="min-h-screen py-8 px-4">
@@ -127,7 +127,7 @@ const Profile = () => {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Profile Information */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card className="card-gradient">
               <CardHeader className="flex flex-row items-center justify-between">
                 <div>
@@ -244,6 +244,15 @@ const Profile = () => {
                 )}
               </CardContent>
             </Card>
+
+            {/* Auto Renewal */}
+            <AutoRenewalCard />
+
+            {/* Referrals */}
+            <ReferralCard />
+
+            {/* Payment History */}
+            <PaymentHistory />
           </div>
 
           {/* Sidebar */}
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Gift, Crown, CheckCircle, Loader2 } from 'lucide-react';
+
+interface GiftPreview {
+  valid: boolean;
+  message?: string;
+  code?: string;
+  sender_name?: string | null;
+  gift_message?: string | null;
+  package_name?: string;
+  duration_months?: number;
+}
+
+interface RedeemResult {
+  premium_until: string;
+  package_name: string;
+  duration_months: number;
+}
+
+const Redeem = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState(searchParams.get('code')?.toUpperCase() ?? '');
+  const [preview, setPreview] = useState<GiftPreview | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [redeemed, setRedeemed] = useState<RedeemResult | null>(null);
+
+  const checkCode = useCallback(async (value: string) => {
+    if (!value.trim()) return;
+
+    setIsChecking(true);
+    const { data, error } = await supabase.rpc('preview_gift', { _code: value.trim() });
+    setIsChecking(false);
+
+    if (error) {
+      console.error('Error checking gift code:', error);
+      toast({
+        title: 'Error',
+        description: 'Gagal memeriksa kode hadiah',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setPreview(data as unknown as GiftPreview);
+  }, [toast]);
+
+  // Codes from the email link are checked right away
+  const linkCode = searchParams.get('code');
+  useEffect(() => {
+    if (linkCode) {
+      checkCode(linkCode);
+    }
+  }, [linkCode, checkCode]);
+
+  const handleRedeem = async () => {
+    setIsRedeeming(true);
+    const { data, error } = await supabase.rpc('redeem_gift', { _code: code.trim() });
+    setIsRedeeming(false);
+
+    if (error) {
+      console.error('Error redeeming gift:', error);
+      toast({
+        title: 'Gagal Menukarkan Hadiah',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRedeemed(data as unknown as RedeemResult);
+    await refreshProfile();
+  };
+
+  const authPath = `/auth?redirect=${encodeURIComponent(`/redeem?code=${code.trim()}`)}`;
+
+  if (redeemed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-12 px-4">
+        <div className="container mx-auto max-w-2xl">
+          <Card className="card-gradient text-center">
+            <CardHeader className="pb-4">
+              <div className="mx-auto mb-6 relative">
+                <div className="w-20 h-20 mx-auto bg-green-500/20 rounded-full flex items-center justify-center">
+                  <CheckCircle className="w-12 h-12 text-green-500" />
+                </div>
+                <Crown className="w-8 h-8 text-primary absolute -top-2 -right-2 animate-pulse" />
+              </div>
+              <CardTitle className="text-3xl font-bold text-green-500 mb-2">
+                Hadiah Berhasil Ditukarkan! 🎉
+              </CardTitle>
+              <p className="text-lg text-muted-foreground">
+                Premium {redeemed.package_name} aktif hingga{' '}
+                {new Date(redeemed.premium_until).toLocaleDateString('id-ID', {
+                  day: 'numeric',
+                  month: 'long',
+                  year: 'numeric',
+                })}
+              </p>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={() => navigate('/edukasi')} className="btn-premium w-full">
+                Mulai Belajar Premium
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4">
+      <div className="container mx-auto max-w-md">
+        <Card className="card-gradient">
+          <CardHeader className="text-center">
+            <Gift className="h-12 w-12 text-primary mx-auto mb-4" />
+            <CardTitle className="text-2xl">Tukarkan Hadiah Premium</CardTitle>
+            <CardDescription>
+              Masukkan kode hadiah yang Anda terima lewat email
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                placeholder="GIFT-XXXX-XXXX-XXXX"
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value.toUpperCase());
+                  setPreview(null);
+                }}
+                className="font-mono"
+              />
+              <Button
+                variant="outline"
+                onClick={() => checkCode(code)}
+                disabled={!code.trim() || isChecking}
+              >
+                {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Periksa'}
+              </Button>
+            </div>
+
+            {preview && !preview.valid && (
+              <p className="text-sm text-destructive">{preview.message}</p>
+            )}
+
+            {preview?.valid && (
+              <div className="space-y-4">
+                <div className="rounded-lg border border-primary/50 p-4 text-sm space-y-2">
+                  <p>
+                    <span className="font-semibold">{preview.sender_name || 'Seorang teman'}</span> menghadiahkan
+                    Premium <span className="font-semibold">{preview.package_name}</span> selama{' '}
+                    {preview.duration_months} bulan.
+                  </p>
+                  {preview.gift_message && (
+                    <p className="italic text-muted-foreground">"{preview.gift_message}"</p>
+                  )}
+                </div>
+
+                {user ? (
+                  <Button onClick={handleRedeem} disabled={isRedeeming} className="btn-premium w-full">
+                    {isRedeeming ? 'Memproses...' : 'Tukarkan ke Akun Saya'}
+                  </Button>
+                ) : (
+                  <div className="space-y-2">
+                    <Button onClick={() => navigate(authPath)} className="btn-premium w-full">
+                      Masuk atau Daftar untuk Menukarkan
+                    </Button>
+                    <p className="text-xs text-muted-foreground text-center">
+                      Setelah masuk, Anda akan kembali ke halaman ini.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Redeem;
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PAYMENT_PROVIDER?: 'midtrans_sandbox' | 'midtrans_production' | 'fake';
+  readonly VITE_MIDTRANS_CLIENT_KEY?: string;
+}
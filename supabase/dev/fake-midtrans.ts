@@ -0,0 +1,245 @@
+// Local stand-in for the Midtrans Snap and Core APIs, for testing payment flows offline.
+//
+//   MIDTRANS_SERVER_KEY=SB-Mid-server-test deno run --allow-net --allow-env supabase/dev/fake-midtrans.ts
+//
+// Point the edge functions at it with MIDTRANS_API_URL=http://host.docker.internal:8787
+// (and the same MIDTRANS_SERVER_KEY). Drive an order through its states with
+//
+//   curl -X POST localhost:8787/_fake/orders/<order_id> -d '{"transaction_status":"settlement"}'
+//
+// A card capture with "fraud_status":"challenge" waits for POST /v2/<order_id>/approve or /deny.
+// POST /v2/<order_id>/cancel voids an order that is still pending or challenged.
+// POST /v2/<order_id>/refund with {"refund_key","amount","reason"} refunds a paid order,
+// fully or in part, once per refund_key; a "chargeback" state can be set through the test hook.
+//
+// When FAKE_MIDTRANS_NOTIFICATION_URL is set, every state change is also posted
+// there as a signed notification, like Midtrans does with the webhook.
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+
+const PORT = Number(Deno.env.get("FAKE_MIDTRANS_PORT") ?? "8787");
+const SERVER_KEY = Deno.env.get("MIDTRANS_SERVER_KEY") ?? "SB-Mid-server-test";
+const NOTIFICATION_URL = Deno.env.get("FAKE_MIDTRANS_NOTIFICATION_URL");
+
+interface FakeOrder {
+  order_id: string;
+  gross_amount: string;
+  transaction_id: string | null;
+  transaction_status: string;
+  fraud_status?: string;
+  payment_type?: string;
+  transaction_time: string;
+  refunds?: { refund_key: string; refund_amount: number; reason: string; created_at: string }[];
+}
+
+const orders = new Map<string, FakeOrder>();
+
+const statusCodes: Record<string, string> = {
+  capture: "200",
+  settlement: "200",
+  pending: "201",
+  deny: "202",
+  cancel: "200",
+  expire: "407",
+  refund: "200",
+  partial_refund: "200",
+  chargeback: "200",
+  partial_chargeback: "200",
+};
+
+const refundedTotal = (order: FakeOrder) =>
+  (order.refunds ?? []).reduce((total, refund) => total + refund.refund_amount, 0);
+
+const sign = async (orderId: string, statusCode: string, grossAmount: string) => {
+  const data = new TextEncoder().encode(orderId + statusCode + grossAmount + SERVER_KEY);
+  const digest = await crypto.subtle.digest("SHA-512", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const statusBody = async (order: FakeOrder) => {
+  const statusCode = order.fraud_status === "challenge" ? "201" : statusCodes[order.transaction_status] ?? "200";
+  return {
+    status_code: statusCode,
+    status_message: "Success, transaction is found",
+    transaction_id: order.transaction_id,
+    order_id: order.order_id,
+    gross_amount: order.gross_amount,
+    currency: "IDR",
+    payment_type: order.payment_type ?? "bank_transfer",
+    transaction_time: order.transaction_time,
+    transaction_status: order.transaction_status,
+    fraud_status: order.fraud_status,
+    signature_key: await sign(order.order_id, statusCode, order.gross_amount),
+    ...(order.refunds && { refund_amount: `${refundedTotal(order)}.00`, refunds: order.refunds }),
+  };
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+const notify = async (order: FakeOrder) => {
+  const notification = await statusBody(order);
+  if (NOTIFICATION_URL) {
+    const response = await fetch(NOTIFICATION_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(notification),
+    });
+    console.log(`Notification for ${order.order_id} answered ${response.status}`);
+  }
+  return notification;
+};
+
+serve(async (req) => {
+  const url = new URL(req.url);
+  console.log(req.method, url.pathname);
+
+  // Snap: create a payment session
+  if (req.method === "POST" && url.pathname === "/snap/v1/transactions") {
+    const body = await req.json();
+    const orderId = body.transaction_details.order_id;
+    orders.set(orderId, {
+      order_id: orderId,
+      gross_amount: `${body.transaction_details.gross_amount}.00`,
+      transaction_id: null,
+      transaction_status: "pending",
+      transaction_time: new Date().toISOString(),
+    });
+    const token = crypto.randomUUID();
+    return json({ token, redirect_url: `http://localhost:${PORT}/snap/v2/vtweb/${token}` }, 201);
+  }
+
+  // Core API: transaction status
+  const statusMatch = url.pathname.match(/^\/v2\/([^/]+)\/status$/);
+  if (req.method === "GET" && statusMatch) {
+    const order = orders.get(decodeURIComponent(statusMatch[1]));
+    // Midtrans only knows an order once the customer picked a payment method
+    if (!order || !order.transaction_id) {
+      return json({ status_code: "404", status_message: "Transaction doesn't exist." });
+    }
+    return json(await statusBody(order));
+  }
+
+  // Core API: charge a saved card or GoPay token. Tokens containing "fail" are declined.
+  if (req.method === "POST" && url.pathname === "/v2/charge") {
+    const body = await req.json();
+    const token = body.credit_card?.token_id ?? body.gopay?.payment_option_token ?? "";
+    const order: FakeOrder = {
+      order_id: body.transaction_details.order_id,
+      gross_amount: `${body.transaction_details.gross_amount}.00`,
+      transaction_id: crypto.randomUUID(),
+      transaction_status: token.includes("fail") ? "deny" : body.payment_type === "gopay" ? "settlement" : "capture",
+      fraud_status: "accept",
+      payment_type: body.payment_type,
+      transaction_time: new Date().toISOString(),
+    };
+    orders.set(order.order_id, order);
+    return json(await statusBody(order));
+  }
+
+  // Core API: approve or deny a challenged card payment
+  const decisionMatch = url.pathname.match(/^\/v2\/([^/]+)\/(approve|deny)$/);
+  if (req.method === "POST" && decisionMatch) {
+    const order = orders.get(decodeURIComponent(decisionMatch[1]));
+    if (!order || !order.transaction_id) {
+      return json({ status_code: "404", status_message: "Transaction doesn't exist." });
+    }
+    if (order.fraud_status !== "challenge") {
+      return json({ status_code: "412", status_message: "Transaction status cannot be updated." });
+    }
+
+    const approved = decisionMatch[2] === "approve";
+    order.transaction_status = approved ? "capture" : "deny";
+    order.fraud_status = approved ? "accept" : "deny";
+    // The API call itself succeeds even when the new status is a denial
+    const notification = await notify(order);
+    return json({ ...notification, status_code: "200", status_message: `Success, transaction is ${approved ? "approved" : "denied"}` });
+  }
+
+  // Core API: cancel a payment that has not completed, e.g. an open virtual account
+  const cancelMatch = url.pathname.match(/^\/v2\/([^/]+)\/cancel$/);
+  if (req.method === "POST" && cancelMatch) {
+    const order = orders.get(decodeURIComponent(cancelMatch[1]));
+    if (!order || !order.transaction_id) {
+      return json({ status_code: "404", status_message: "Transaction doesn't exist." });
+    }
+    if (order.transaction_status !== "pending" && order.fraud_status !== "challenge") {
+      return json({ status_code: "412", status_message: "Transaction status cannot be updated." });
+    }
+
+    order.transaction_status = "cancel";
+    order.fraud_status = undefined;
+    const notification = await notify(order);
+    return json({ ...notification, status_message: "Success, transaction is canceled" });
+  }
+
+  // Core API: refund a settled payment. Each refund adds to the order's refunds list.
+  const refundMatch = url.pathname.match(/^\/v2\/([^/]+)\/refund$/);
+  if (req.method === "POST" && refundMatch) {
+    const order = orders.get(decodeURIComponent(refundMatch[1]));
+    if (!order || !order.transaction_id) {
+      return json({ status_code: "404", status_message: "Transaction doesn't exist." });
+    }
+
+    const paid = order.transaction_status === "settlement"
+      || order.transaction_status === "partial_refund"
+      || (order.transaction_status === "capture" && order.fraud_status === "accept");
+    const body = await req.json();
+
+    // A refund_key that was used before returns that refund instead of making another
+    const previous = order.refunds?.find((refund) => refund.refund_key === body.refund_key);
+    if (previous) {
+      return json({
+        ...(await statusBody(order)),
+        status_message: "Success, refund request is approved",
+        refund_key: previous.refund_key,
+        refund_amount: `${previous.refund_amount}.00`,
+      });
+    }
+
+    const amount = Number(body.amount ?? Number(order.gross_amount) - refundedTotal(order));
+    if (!paid || amount <= 0 || refundedTotal(order) + amount > Number(order.gross_amount)) {
+      return json({ status_code: "412", status_message: "Transaction status cannot be updated." });
+    }
+
+    order.refunds = [
+      ...(order.refunds ?? []),
+      { refund_key: body.refund_key, refund_amount: amount, reason: body.reason ?? "", created_at: new Date().toISOString() },
+    ];
+    order.transaction_status = refundedTotal(order) >= Number(order.gross_amount) ? "refund" : "partial_refund";
+    const notification = await notify(order);
+    return json({
+      ...notification,
+      status_message: "Success, refund request is approved",
+      refund_key: body.refund_key,
+      refund_amount: `${amount}.00`,
+    });
+  }
+
+  // Test hook: move an order to a new state, creating it if needed
+  const fakeMatch = url.pathname.match(/^\/_fake\/orders\/([^/]+)$/);
+  if (req.method === "POST" && fakeMatch) {
+    const orderId = decodeURIComponent(fakeMatch[1]);
+    const update = await req.json();
+    const existing = orders.get(orderId);
+    const order: FakeOrder = {
+      order_id: orderId,
+      gross_amount: update.gross_amount ?? existing?.gross_amount ?? "0.00",
+      transaction_id: existing?.transaction_id ?? crypto.randomUUID(),
+      transaction_status: update.transaction_status ?? "pending",
+      fraud_status: update.fraud_status ?? (update.transaction_status === "capture" ? "accept" : undefined),
+      payment_type: update.payment_type ?? existing?.payment_type,
+      transaction_time: existing?.transaction_time ?? new Date().toISOString(),
+      refunds: existing?.refunds,
+    };
+    orders.set(orderId, order);
+
+    return json(await notify(order));
+  }
+
+  return json({ status_code: "404", status_message: "Not found" }, 404);
+}, { port: PORT });
@@ -0,0 +1,109 @@
+// Base URL for links in emails. Set APP_URL per environment; the fallback is production.
+export const APP_URL = (Deno.env.get("APP_URL") ?? "https://avkukzfvqtjovfrrhzer.lovable.app").replace(/\/$/, "");
+
+export const appUrl = (path: string) => `${APP_URL}${path}`;
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const formatRupiah = (amount: number) => new Intl.NumberFormat('id-ID', {
+  style: 'currency',
+  currency: 'IDR'
+}).format(amount);
+
+export const formatDate = (value: string) => new Date(value).toLocaleDateString('id-ID', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  timeZone: 'Asia/Jakarta'
+});
+
+// What a template contributes; the layout adds the header, footer and styles.
+// title and intro are plain text. html must already be escaped by the template.
+export interface EmailContent {
+  subject: string;
+  title: string;
+  icon?: string;
+  intro?: string;
+  html: string;
+  text: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const FOOTER_TEXT = [
+  'Jika ada pertanyaan, jangan ragu untuk menghubungi tim support kami.',
+  'Circle Belajar Bareng - Platform Edukasi Keuangan Terpercaya',
+  'Email ini dikirim otomatis. Mohon tidak membalas email ini.',
+].join('\n');
+
+// Wrap a template in the shared header and footer, in HTML and plain text
+export const renderLayout = (content: EmailContent): RenderedEmail => {
+  const title = escapeHtml(content.title);
+
+  const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${title}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #1e3a8a, #3b82f6); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: white; padding: 30px; border: 1px solid #e5e7eb; }
+          .footer { background: #f9fafb; padding: 20px; text-align: center; border-radius: 0 0 10px 10px; color: #6b7280; }
+          .icon { font-size: 2em; color: #fbbf24; }
+          .notice { background: #fef3c7; padding: 20px; border-radius: 8px; margin: 20px 0; }
+          .highlight { background: #f0f9ff; padding: 20px; border-radius: 8px; margin: 20px 0; }
+          .message { font-style: italic; }
+          .benefit-item { margin: 10px 0; padding-left: 20px; position: relative; }
+          .benefit-item:before { content: '✓'; position: absolute; left: 0; color: #10b981; font-weight: bold; }
+          .packages { width: 100%; }
+          .packages td { padding: 8px 0; border-bottom: 1px solid #e0f2fe; }
+          .code { font-family: monospace; font-size: 1.5em; letter-spacing: 2px; background: #f3f4f6; padding: 15px; text-align: center; border-radius: 8px; margin: 20px 0; }
+          .cta { background: #1e3a8a; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; display: inline-block; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          ${content.icon ? `<div class="icon">${content.icon}</div>` : ''}
+          <h1>${title}</h1>
+          ${content.intro ? `<p>${escapeHtml(content.intro)}</p>` : ''}
+        </div>
+
+        <div class="content">
+          ${content.html}
+        </div>
+
+        <div class="footer">
+          <p>Jika ada pertanyaan, jangan ragu untuk menghubungi tim support kami.</p>
+          <p><strong>Circle Belajar Bareng</strong><br>
+          Platform Edukasi Keuangan Terpercaya</p>
+          <p style="font-size: 12px; margin-top: 20px;">
+            Email ini dikirim otomatis. Mohon tidak membalas email ini.
+          </p>
+        </div>
+      </body>
+      </html>
+    `;
+
+  const text = [
+    content.title,
+    content.intro,
+    content.text.trim(),
+    '--',
+    FOOTER_TEXT,
+  ].filter(Boolean).join('\n\n');
+
+  return { subject: content.subject, html, text };
+};
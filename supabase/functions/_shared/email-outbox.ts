@@ -0,0 +1,37 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { EmailTemplateName, TemplateVars } from "./email-templates.ts";
+
+// An email for the outbox. Give a user_id to send to the account's email; the
+// worker then also fills in the recipient's name when the template needs one.
+export interface QueuedEmail<N extends EmailTemplateName> {
+  template: N;
+  variables: Omit<TemplateVars<N>, 'name'> & { name?: string };
+  user_id?: string;
+  recipient?: string;
+  // Queuing the same key twice sends the email once
+  dedupe_key?: string;
+}
+
+// Queue an email for the email-worker function. Never throws: the event that
+// caused the email has already happened, and a missing email is only logged.
+export const enqueueEmail = async <N extends EmailTemplateName>(
+  supabaseClient: SupabaseClient,
+  email: QueuedEmail<N>
+) => {
+  const { error } = await supabaseClient
+    .from('email_outbox')
+    .upsert({
+      template: email.template,
+      variables: email.variables,
+      user_id: email.user_id ?? null,
+      recipient: email.recipient ?? null,
+      dedupe_key: email.dedupe_key ?? null,
+    }, { onConflict: 'dedupe_key', ignoreDuplicates: true });
+
+  if (error) {
+    console.error(`Failed to queue ${email.template} email:`, error);
+    return false;
+  }
+
+  return true;
+};
@@ -0,0 +1,658 @@
+import {
+  appUrl,
+  escapeHtml,
+  formatDate,
+  formatRupiah,
+  renderLayout,
+  type EmailContent,
+  type RenderedEmail,
+} from "./email-layout.ts";
+
+interface EmailTemplate<V> {
+  label: string;
+  description: string;
+  // Example variables for the admin preview
+  sample: V;
+  render: (vars: V) => EmailContent;
+}
+
+const defineTemplate = <V>(template: EmailTemplate<V>) => template;
+
+const cta = (path: string, label: string) =>
+  `<a href="${escapeHtml(path.startsWith('http') ? path : appUrl(path))}" class="cta">${escapeHtml(label)}</a>`;
+
+const ctaText = (path: string, label: string) =>
+  `${label}: ${path.startsWith('http') ? path : appUrl(path)}`;
+
+// Most package names ("6 Bulan", "1 Tahun") already state the duration; others get it added
+const packageLabel = (name: string, durationMonths: number) =>
+  /\d+\s*(hari|minggu|bulan|tahun)/i.test(name) ? name : `${name} (${durationMonths} bulan)`;
+
+export interface PremiumWelcomeVars {
+  name: string;
+  package_name: string;
+  duration_months: number;
+  amount: number;
+  premium_until?: string | null;
+  // Titles of the package's features, in the order its pricing card lists them
+  benefits?: string[];
+}
+
+export interface TrialEndedVars {
+  name: string;
+  duration_days: number;
+  packages: { name: string; price: number; duration_months: number }[];
+}
+
+export interface GiftReceivedVars {
+  sender_name: string;
+  message?: string | null;
+  package_name: string;
+  duration_months: number;
+  code: string;
+}
+
+export interface OrganizationInviteVars {
+  email: string;
+  has_account: boolean;
+  organization_name: string;
+  inviter_name: string;
+  license_ends_at?: string | null;
+}
+
+export interface RenewalFailedVars {
+  name: string;
+  status: 'past_due' | 'canceled';
+  next_charge_at?: string | null;
+}
+
+export interface PaymentReviewVars {
+  name: string;
+  order_id: string;
+  package_name: string;
+  amount: number;
+}
+
+export interface PaymentRefundedVars {
+  name: string;
+  order_id: string;
+  package_name: string;
+  amount: number;
+  // This refund and everything returned for the order so far
+  refund_amount: number;
+  refunded_amount: number;
+  // Personal premium after the refunded time was taken back
+  premium_until?: string | null;
+}
+
+export interface PremiumExpiringVars {
+  name: string;
+  days_left: number;
+  premium_until: string;
+}
+
+export interface PremiumEndedVars {
+  name: string;
+  premium_until: string;
+}
+
+export interface AuthLinkVars {
+  name: string;
+  url: string;
+}
+
+export const emailTemplates = {
+  premium_welcome: defineTemplate<PremiumWelcomeVars>({
+    label: 'Selamat datang premium',
+    description: 'Bukti pembayaran dan sambutan setelah premium aktif.',
+    sample: {
+      name: 'Budi Santoso',
+      package_name: '6 Bulan',
+      duration_months: 6,
+      amount: 249000,
+      premium_until: '2026-12-31T17:00:00Z',
+      benefits: [
+        'Akses Materi Eksklusif',
+        'Video Premium & Studi Kasus',
+        'Konsultasi dengan Mentor',
+        'Webinar Eksklusif',
+      ],
+    },
+    render: (vars) => {
+      const benefits = vars.benefits ?? [];
+      const until = vars.premium_until ? formatDate(vars.premium_until) : null;
+      const amount = formatRupiah(vars.amount);
+      const packageName = packageLabel(vars.package_name, vars.duration_months);
+
+      return {
+        subject: '🎉 Selamat! Anda Sekarang Member Premium Circle Belajar Bareng',
+        title: 'Selamat Datang di Premium Circle Belajar Bareng!',
+        icon: '👑',
+        intro: `Halo ${vars.name}, selamat bergabung menjadi Member Premium!`,
+        html: `
+          <h2>Terima kasih atas kepercayaan Anda!</h2>
+          <p>Pembayaran Anda untuk paket <strong>Premium ${escapeHtml(packageName)}</strong> sebesar <strong>${amount}</strong> telah berhasil diproses.</p>
+          ${until ? `<p>Akses premium Anda kini aktif hingga <strong>${until}</strong>. Sisa masa aktif sebelumnya tetap terhitung.</p>` : ''}
+
+          ${benefits.length > 0 ? `
+          <div class="highlight">
+            <h3>🎯 Benefit Premium yang Sudah Bisa Anda Nikmati:</h3>
+            ${benefits.map((benefit) => `<div class="benefit-item">${escapeHtml(benefit)}</div>`).join('\n            ')}
+          </div>
+          ` : ''}
+
+          <p>Sekarang Anda sudah dapat mengakses semua konten premium yang tersedia di platform kami. Mari mulai perjalanan pembelajaran keuangan Anda!</p>
+
+          ${cta('/edukasi', 'Mulai Belajar Sekarang')}
+        `,
+        text: `
+Pembayaran Anda untuk paket Premium ${packageName} sebesar ${amount} telah berhasil diproses.
+${until ? `\nAkses premium Anda kini aktif hingga ${until}. Sisa masa aktif sebelumnya tetap terhitung.\n` : ''}${benefits.length > 0 ? `
+Benefit premium Anda:
+${benefits.map((benefit) => `- ${benefit}`).join('\n')}
+` : ''}
+${ctaText('/edukasi', 'Mulai belajar')}
+        `,
+      };
+    },
+  }),
+
+  trial_ended: defineTemplate<TrialEndedVars>({
+    label: 'Trial berakhir',
+    description: 'Dikirim saat trial pendaftaran habis dan member belum berlangganan.',
+    sample: {
+      name: 'Budi Santoso',
+      duration_days: 7,
+      packages: [
+        { name: '1 Bulan', price: 49000, duration_months: 1 },
+        { name: '12 Bulan', price: 449000, duration_months: 12 },
+      ],
+    },
+    render: (vars) => ({
+      subject: 'Masa trial Premium Anda telah berakhir',
+      title: 'Masa Trial Anda Telah Berakhir',
+      intro: `Halo ${vars.name},`,
+      html: `
+          <p>Terima kasih telah mencoba Premium Circle Belajar Bareng selama <strong>${vars.duration_days} hari</strong>. Akses premium Anda kini telah berakhir.</p>
+
+          <p>Lanjutkan belajar tanpa batas dengan berlangganan salah satu paket berikut:</p>
+
+          ${vars.packages.length ? `<table class="packages highlight">${vars.packages.map((pkg) => `
+            <tr>
+              <td>${escapeHtml(packageLabel(pkg.name, pkg.duration_months))}</td>
+              <td style="text-align: right;"><strong>${formatRupiah(pkg.price)}</strong></td>
+            </tr>`).join('')}
+          </table>` : ''}
+
+          <p>Semua materi premium, konsultasi, dan komunitas eksklusif akan langsung terbuka kembali setelah pembayaran berhasil.</p>
+
+          ${cta('/premium', 'Pilih Paket Premium')}
+      `,
+      text: `
+Terima kasih telah mencoba Premium Circle Belajar Bareng selama ${vars.duration_days} hari. Akses premium Anda kini telah berakhir.
+
+Lanjutkan belajar tanpa batas dengan berlangganan salah satu paket berikut:
+${vars.packages.map((pkg) => `- ${packageLabel(pkg.name, pkg.duration_months)}: ${formatRupiah(pkg.price)}`).join('\n')}
+
+${ctaText('/premium', 'Pilih paket premium')}
+      `,
+    }),
+  }),
+
+  gift_received: defineTemplate<GiftReceivedVars>({
+    label: 'Hadiah premium',
+    description: 'Kode hadiah untuk penerima hadiah premium.',
+    sample: {
+      sender_name: 'Siti Rahma',
+      message: 'Selamat belajar!',
+      package_name: '3 Bulan',
+      duration_months: 3,
+      code: 'GIFT-ABCD-1234',
+    },
+    render: (vars) => {
+      const redeemPath = `/redeem?code=${encodeURIComponent(vars.code)}`;
+      const sender = escapeHtml(vars.sender_name);
+      const packageName = packageLabel(vars.package_name, vars.duration_months);
+
+      return {
+        subject: `🎁 ${vars.sender_name} menghadiahkan Premium Circle Belajar Bareng untuk Anda`,
+        title: 'Anda Mendapat Hadiah Premium!',
+        icon: '🎁',
+        intro: `${vars.sender_name} menghadiahkan Premium Circle Belajar Bareng untuk Anda`,
+        html: `
+          <p>Hadiah ini berisi paket <strong>Premium ${escapeHtml(packageName)}</strong>.</p>
+
+          ${vars.message ? `<div class="highlight message">"${escapeHtml(vars.message)}"<br>— ${sender}</div>` : ''}
+
+          <p>Kode hadiah Anda:</p>
+          <div class="code">${escapeHtml(vars.code)}</div>
+
+          <p>Tukarkan kode ini setelah masuk atau mendaftar akun. Jika Anda sudah premium, masa aktifnya akan ditambahkan.</p>
+
+          ${cta(redeemPath, 'Tukarkan Hadiah')}
+        `,
+        text: `
+Hadiah ini berisi paket Premium ${packageName}.
+${vars.message ? `\n"${vars.message}"\n- ${vars.sender_name}\n` : ''}
+Kode hadiah Anda: ${vars.code}
+
+Tukarkan kode ini setelah masuk atau mendaftar akun. Jika Anda sudah premium, masa aktifnya akan ditambahkan.
+
+${ctaText(redeemPath, 'Tukarkan hadiah')}
+        `,
+      };
+    },
+  }),
+
+  organization_invite: defineTemplate<OrganizationInviteVars>({
+    label: 'Undangan organisasi',
+    description: 'Dikirim saat pemilik organisasi memberikan kursi lisensi grup.',
+    sample: {
+      email: 'anggota@contoh.id',
+      has_account: false,
+      organization_name: 'PT Maju Bersama',
+      inviter_name: 'Siti Rahma',
+      license_ends_at: '2026-12-31T17:00:00Z',
+    },
+    render: (vars) => {
+      const organizationName = escapeHtml(vars.organization_name);
+      const until = vars.license_ends_at ? formatDate(vars.license_ends_at) : null;
+      // Invitees without an account get their seat as soon as they sign up with this email
+      const ctaPath = vars.has_account ? '/edukasi' : '/auth';
+
+      return {
+        subject: `Anda mendapat akses Premium dari ${vars.organization_name}`,
+        title: 'Anda Mendapat Akses Premium',
+        intro: `dari ${vars.organization_name}`,
+        html: `
+          <p>${escapeHtml(vars.inviter_name)} memberikan Anda satu kursi lisensi grup <strong>${organizationName}</strong> di Circle Belajar Bareng.</p>
+
+          <div class="highlight">
+            <p>Selama kursi ini aktif, Anda mendapat akses ke semua materi premium${until ? ` hingga <strong>${until}</strong>` : ''}.</p>
+          </div>
+
+          <p>${vars.has_account
+            ? 'Akses premium sudah aktif di akun Anda. Silakan masuk dan mulai belajar.'
+            : `Daftar dengan email <strong>${escapeHtml(vars.email)}</strong> untuk langsung mendapatkan akses premium.`}</p>
+
+          ${cta(ctaPath, vars.has_account ? 'Mulai Belajar' : 'Daftar Sekarang')}
+        `,
+        text: `
+${vars.inviter_name} memberikan Anda satu kursi lisensi grup ${vars.organization_name} di Circle Belajar Bareng.
+
+Selama kursi ini aktif, Anda mendapat akses ke semua materi premium${until ? ` hingga ${until}` : ''}.
+
+${vars.has_account
+  ? 'Akses premium sudah aktif di akun Anda. Silakan masuk dan mulai belajar.'
+  : `Daftar dengan email ${vars.email} untuk langsung mendapatkan akses premium.`}
+
+${ctaText(ctaPath, vars.has_account ? 'Mulai belajar' : 'Daftar sekarang')}
+        `,
+      };
+    },
+  }),
+
+  renewal_failed: defineTemplate<RenewalFailedVars>({
+    label: 'Perpanjangan otomatis gagal',
+    description: 'Dikirim setiap kali tagihan perpanjangan otomatis ditolak.',
+    sample: {
+      name: 'Budi Santoso',
+      status: 'past_due',
+      next_charge_at: '2026-11-02T01:00:00Z',
+    },
+    render: (vars) => {
+      const canceled = vars.status === 'canceled';
+      const retry = vars.next_charge_at ? formatDate(vars.next_charge_at) : null;
+      const notice = canceled
+        ? 'Setelah beberapa kali percobaan, perpanjangan otomatis kini dihentikan. Akses premium Anda akan berakhir sesuai masa aktif yang tersisa.'
+        : `Kami akan mencoba menagih kembali pada ${retry}. Pastikan saldo atau limit metode pembayaran Anda mencukupi.`;
+      const advice = canceled
+        ? 'Anda dapat memperpanjang premium kapan saja dengan melakukan pembayaran baru.'
+        : 'Jika metode pembayaran Anda sudah tidak berlaku, lakukan pembayaran baru dan aktifkan kembali opsi perpanjangan otomatis.';
+
+      return {
+        subject: canceled
+          ? 'Perpanjangan otomatis Premium Anda dihentikan'
+          : 'Pembayaran perpanjangan Premium Anda gagal',
+        title: canceled ? 'Perpanjangan Otomatis Dihentikan' : 'Pembayaran Perpanjangan Premium Gagal',
+        intro: `Halo ${vars.name},`,
+        html: `
+          <p>Kami tidak berhasil menagih metode pembayaran tersimpan Anda untuk perpanjangan Premium Circle Belajar Bareng.</p>
+
+          <div class="notice">
+            ${canceled
+              ? '<p>Setelah beberapa kali percobaan, perpanjangan otomatis kini <strong>dihentikan</strong>. Akses premium Anda akan berakhir sesuai masa aktif yang tersisa.</p>'
+              : `<p>Kami akan mencoba menagih kembali pada <strong>${retry}</strong>. Pastikan saldo atau limit metode pembayaran Anda mencukupi.</p>`}
+          </div>
+
+          <p>${advice}</p>
+
+          ${cta('/premium', 'Perpanjang Premium')}
+        `,
+        text: `
+Kami tidak berhasil menagih metode pembayaran tersimpan Anda untuk perpanjangan Premium Circle Belajar Bareng.
+
+${notice}
+
+${advice}
+
+${ctaText('/premium', 'Perpanjang premium')}
+        `,
+      };
+    },
+  }),
+
+  payment_review: defineTemplate<PaymentReviewVars>({
+    label: 'Pembayaran sedang ditinjau',
+    description: 'Dikirim saat pembayaran kartu ditahan pemeriksaan keamanan dan menunggu keputusan admin.',
+    sample: {
+      name: 'Budi Santoso',
+      order_id: 'premium-1a2b3c4d-1761700000000',
+      package_name: '6 Bulan',
+      amount: 249000,
+    },
+    render: (vars) => {
+      const amount = formatRupiah(vars.amount);
+      const advice = 'Anda tidak perlu membayar ulang. Premium aktif otomatis begitu pembayaran disetujui, dan kami akan mengabari Anda jika pembayaran tidak dapat diproses.';
+
+      return {
+        subject: 'Pembayaran Anda sedang ditinjau',
+        title: 'Pembayaran Sedang Ditinjau',
+        icon: '🔍',
+        intro: `Halo ${vars.name},`,
+        html: `
+          <p>Pembayaran kartu Anda untuk paket <strong>Premium ${escapeHtml(vars.package_name)}</strong> sebesar <strong>${amount}</strong> sudah kami terima dan sedang ditinjau oleh sistem keamanan pembayaran.</p>
+
+          <div class="notice">
+            <p>Peninjauan biasanya selesai dalam 1x24 jam. Order ID: <strong>${escapeHtml(vars.order_id)}</strong></p>
+          </div>
+
+          <p>${advice}</p>
+
+          ${cta('/profile', 'Lihat Riwayat Pembayaran')}
+        `,
+        text: `
+Pembayaran kartu Anda untuk paket Premium ${vars.package_name} sebesar ${amount} sudah kami terima dan sedang ditinjau oleh sistem keamanan pembayaran.
+
+Peninjauan biasanya selesai dalam 1x24 jam. Order ID: ${vars.order_id}
+
+${advice}
+
+${ctaText('/profile', 'Lihat riwayat pembayaran')}
+        `,
+      };
+    },
+  }),
+
+  payment_denied: defineTemplate<PaymentReviewVars>({
+    label: 'Pembayaran ditolak setelah ditinjau',
+    description: 'Dikirim saat pembayaran kartu yang ditinjau akhirnya ditolak.',
+    sample: {
+      name: 'Budi Santoso',
+      order_id: 'premium-1a2b3c4d-1761700000000',
+      package_name: '6 Bulan',
+      amount: 249000,
+    },
+    render: (vars) => {
+      const amount = formatRupiah(vars.amount);
+      const advice = 'Dana yang sempat tertahan akan dilepas kembali oleh bank penerbit kartu Anda. Silakan coba lagi dengan kartu atau metode pembayaran lain.';
+
+      return {
+        subject: 'Pembayaran Anda tidak dapat diproses',
+        title: 'Pembayaran Tidak Dapat Diproses',
+        intro: `Halo ${vars.name},`,
+        html: `
+          <p>Setelah ditinjau, pembayaran kartu Anda untuk paket <strong>Premium ${escapeHtml(vars.package_name)}</strong> sebesar <strong>${amount}</strong> tidak dapat kami proses.</p>
+
+          <div class="notice">
+            <p>Order ID: <strong>${escapeHtml(vars.order_id)}</strong></p>
+          </div>
+
+          <p>${advice}</p>
+
+          ${cta('/premium', 'Coba Bayar Lagi')}
+        `,
+        text: `
+Setelah ditinjau, pembayaran kartu Anda untuk paket Premium ${vars.package_name} sebesar ${amount} tidak dapat kami proses.
+
+Order ID: ${vars.order_id}
+
+${advice}
+
+${ctaText('/premium', 'Coba bayar lagi')}
+        `,
+      };
+    },
+  }),
+
+  payment_refunded: defineTemplate<PaymentRefundedVars>({
+    label: 'Konfirmasi refund',
+    description: 'Dikirim saat dana sebuah order dikembalikan, seluruhnya atau sebagian.',
+    sample: {
+      name: 'Budi Santoso',
+      order_id: 'premium-1a2b3c4d-1761700000000',
+      package_name: '6 Bulan',
+      amount: 249000,
+      refund_amount: 124500,
+      refunded_amount: 124500,
+      premium_until: '2026-01-15T00:00:00Z',
+    },
+    render: (vars) => {
+      const refund = formatRupiah(vars.refund_amount);
+      const full = vars.refunded_amount >= vars.amount;
+      const access = full
+        ? 'Masa premium dari order ini sudah dihentikan.'
+        : 'Masa premium dari order ini dikurangi sebanding dengan dana yang dikembalikan.';
+      const until = vars.premium_until ? `Premium Anda sekarang aktif hingga ${formatDate(vars.premium_until)}.` : '';
+      const timing = 'Dana biasanya masuk ke rekening atau kartu Anda dalam 3-14 hari kerja, tergantung bank atau penyedia pembayaran.';
+
+      return {
+        subject: 'Refund pembayaran Anda sudah diproses',
+        title: 'Refund Diproses',
+        icon: '↩️',
+        intro: `Halo ${vars.name},`,
+        html: `
+          <p>Kami sudah mengembalikan <strong>${refund}</strong> dari pembayaran paket <strong>Premium ${escapeHtml(vars.package_name)}</strong> sebesar ${formatRupiah(vars.amount)}.</p>
+
+          <div class="notice">
+            <p>Order ID: <strong>${escapeHtml(vars.order_id)}</strong></p>
+            ${full ? '' : `<p>Total dikembalikan: <strong>${formatRupiah(vars.refunded_amount)}</strong></p>`}
+          </div>
+
+          <p>${timing}</p>
+
+          <p>${access} ${escapeHtml(until)}</p>
+
+          ${cta('/profile', 'Lihat Riwayat Pembayaran')}
+        `,
+        text: `
+Kami sudah mengembalikan ${refund} dari pembayaran paket Premium ${vars.package_name} sebesar ${formatRupiah(vars.amount)}.
+
+Order ID: ${vars.order_id}${full ? '' : `\nTotal dikembalikan: ${formatRupiah(vars.refunded_amount)}`}
+
+${timing}
+
+${access} ${until}
+
+${ctaText('/profile', 'Lihat riwayat pembayaran')}
+        `,
+      };
+    },
+  }),
+
+  premium_expiring: defineTemplate<PremiumExpiringVars>({
+    label: 'Premium akan berakhir',
+    description: 'Pengingat 7, 3, dan 1 hari sebelum premium berakhir.',
+    sample: {
+      name: 'Budi Santoso',
+      days_left: 3,
+      premium_until: '2026-11-01T17:00:00Z',
+    },
+    render: (vars) => {
+      const until = formatDate(vars.premium_until);
+      const advice = 'Perpanjang sekarang agar akses Anda ke materi premium, konsultasi, dan komunitas eksklusif tidak terputus. Masa aktif baru akan ditambahkan setelah masa aktif saat ini, jadi sisa hari Anda tidak hilang.';
+
+      return {
+        subject: `Premium Anda berakhir dalam ${vars.days_left} hari`,
+        title: `Premium Anda Berakhir dalam ${vars.days_left} Hari`,
+        intro: `Halo ${vars.name},`,
+        html: `
+          <div class="notice">
+            <p>Akses premium Anda akan berakhir pada <strong>${until}</strong>.</p>
+          </div>
+
+          <p>${advice}</p>
+
+          ${cta('/premium', 'Perpanjang Premium')}
+        `,
+        text: `
+Akses premium Anda akan berakhir pada ${until}.
+
+${advice}
+
+${ctaText('/premium', 'Perpanjang premium')}
+        `,
+      };
+    },
+  }),
+
+  premium_ended: defineTemplate<PremiumEndedVars>({
+    label: 'Premium berakhir',
+    description: 'Dikirim saat premium berbayar habis dan akun kembali ke keanggotaan biasa.',
+    sample: {
+      name: 'Budi Santoso',
+      premium_until: '2026-11-01T17:00:00Z',
+    },
+    render: (vars) => {
+      const until = formatDate(vars.premium_until);
+      const advice = 'Materi premium, konsultasi, dan komunitas eksklusif akan langsung terbuka kembali begitu Anda berlangganan lagi.';
+
+      return {
+        subject: 'Masa Premium Anda telah berakhir',
+        title: 'Masa Premium Anda Telah Berakhir',
+        intro: `Halo ${vars.name},`,
+        html: `
+          <div class="notice">
+            <p>Akses premium Anda berakhir pada <strong>${until}</strong>. Akun Anda kini kembali ke keanggotaan biasa.</p>
+          </div>
+
+          <p>${advice}</p>
+
+          ${cta('/premium', 'Berlangganan Lagi')}
+        `,
+        text: `
+Akses premium Anda berakhir pada ${until}. Akun Anda kini kembali ke keanggotaan biasa.
+
+${advice}
+
+${ctaText('/premium', 'Berlangganan lagi')}
+        `,
+      };
+    },
+  }),
+
+  confirm_signup: defineTemplate<AuthLinkVars>({
+    label: 'Konfirmasi pendaftaran',
+    description: 'Tautan konfirmasi email saat mendaftar.',
+    sample: {
+      name: 'Budi Santoso',
+      url: appUrl('/auth'),
+    },
+    render: (vars) => ({
+      subject: 'Konfirmasi email Circle Belajar Bareng Anda',
+      title: 'Konfirmasi Email Anda',
+      intro: `Halo ${vars.name},`,
+      html: `
+          <p>Terima kasih telah mendaftar di Circle Belajar Bareng. Klik tombol di bawah untuk mengonfirmasi alamat email Anda.</p>
+
+          ${cta(vars.url, 'Konfirmasi Email')}
+
+          <p>Jika Anda tidak merasa mendaftar, abaikan email ini.</p>
+      `,
+      text: `
+Terima kasih telah mendaftar di Circle Belajar Bareng. Buka tautan berikut untuk mengonfirmasi alamat email Anda.
+
+${ctaText(vars.url, 'Konfirmasi email')}
+
+Jika Anda tidak merasa mendaftar, abaikan email ini.
+      `,
+    }),
+  }),
+
+  password_reset: defineTemplate<AuthLinkVars>({
+    label: 'Reset kata sandi',
+    description: 'Tautan untuk membuat kata sandi baru.',
+    sample: {
+      name: 'Budi Santoso',
+      url: appUrl('/auth'),
+    },
+    render: (vars) => ({
+      subject: 'Reset kata sandi Circle Belajar Bareng',
+      title: 'Reset Kata Sandi',
+      intro: `Halo ${vars.name},`,
+      html: `
+          <p>Kami menerima permintaan untuk mengatur ulang kata sandi akun Anda. Klik tombol di bawah untuk membuat kata sandi baru.</p>
+
+          ${cta(vars.url, 'Buat Kata Sandi Baru')}
+
+          <div class="notice">
+            <p>Jika Anda tidak meminta reset kata sandi, abaikan email ini. Kata sandi Anda tidak akan berubah.</p>
+          </div>
+      `,
+      text: `
+Kami menerima permintaan untuk mengatur ulang kata sandi akun Anda. Buka tautan berikut untuk membuat kata sandi baru.
+
+${ctaText(vars.url, 'Buat kata sandi baru')}
+
+Jika Anda tidak meminta reset kata sandi, abaikan email ini. Kata sandi Anda tidak akan berubah.
+      `,
+    }),
+  }),
+
+  email_link: defineTemplate<AuthLinkVars>({
+    label: 'Tautan masuk',
+    description: 'Tautan masuk, undangan, atau perubahan email dari sistem akun.',
+    sample: {
+      name: 'Budi Santoso',
+      url: appUrl('/auth'),
+    },
+    render: (vars) => ({
+      subject: 'Tautan akun Circle Belajar Bareng Anda',
+      title: 'Tautan Akun Anda',
+      intro: `Halo ${vars.name},`,
+      html: `
+          <p>Klik tombol di bawah untuk melanjutkan ke akun Circle Belajar Bareng Anda. Tautan ini hanya dapat digunakan sekali.</p>
+
+          ${cta(vars.url, 'Lanjutkan')}
+
+          <p>Jika Anda tidak meminta tautan ini, abaikan email ini.</p>
+      `,
+      text: `
+Buka tautan berikut untuk melanjutkan ke akun Circle Belajar Bareng Anda. Tautan ini hanya dapat digunakan sekali.
+
+${ctaText(vars.url, 'Lanjutkan')}
+
+Jika Anda tidak meminta tautan ini, abaikan email ini.
+      `,
+    }),
+  }),
+};
+
+export type EmailTemplateName = keyof typeof emailTemplates;
+
+export type TemplateVars<N extends EmailTemplateName> = (typeof emailTemplates)[N]['sample'];
+
+export const isEmailTemplateName = (name: string): name is EmailTemplateName =>
+  Object.prototype.hasOwnProperty.call(emailTemplates, name);
+
+export const renderEmail = <N extends EmailTemplateName>(name: N, vars: TemplateVars<N>): RenderedEmail => {
+  const template = emailTemplates[name] as EmailTemplate<TemplateVars<N>>;
+  return renderLayout(template.render(vars));
+};
+
+// For variables that arrive as JSON (the outbox, the admin preview), which the
+// compiler cannot check against the template
+export const renderStoredEmail = (name: EmailTemplateName, variables: Record<string, unknown>): RenderedEmail => {
+  const template = emailTemplates[name] as unknown as EmailTemplate<Record<string, unknown>>;
+  return renderLayout(template.render(variables));
+};
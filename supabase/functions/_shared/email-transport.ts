@@ -0,0 +1,77 @@
+import { Resend } from "npm:resend@2.0.0";
+import nodemailer from "npm:nodemailer@6.9.16";
+import type { RenderedEmail } from "./email-layout.ts";
+
+const EMAIL_FROM = Deno.env.get("EMAIL_FROM") ?? 'Circle Belajar Bareng <onboarding@resend.dev>';
+
+export interface EmailTransport {
+  name: string;
+  // Resolves with the provider's message id; throws when the message was not accepted
+  send(to: string, email: RenderedEmail): Promise<string | null>;
+}
+
+const createResendTransport = (): EmailTransport => {
+  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+  return {
+    name: "resend",
+    async send(to, email) {
+      const { data, error } = await resend.emails.send({
+        from: EMAIL_FROM,
+        to: [to],
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return data?.id ?? null;
+    },
+  };
+};
+
+// Plain SMTP. The defaults reach the Inbucket server of a local Supabase stack,
+// whose web UI (port 54325) shows every message.
+const createSmtpTransport = (): EmailTransport => {
+  const port = Number(Deno.env.get("SMTP_PORT") ?? "54326");
+  const user = Deno.env.get("SMTP_USER");
+
+  const transporter = nodemailer.createTransport({
+    host: Deno.env.get("SMTP_HOST") ?? "host.docker.internal",
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass: Deno.env.get("SMTP_PASSWORD") ?? "" } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(to, email) {
+      const info = await transporter.sendMail({
+        from: EMAIL_FROM,
+        to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      });
+
+      return info.messageId ?? null;
+    },
+  };
+};
+
+// EMAIL_TRANSPORT selects the implementation: resend (default) or smtp
+export const getEmailTransport = (): EmailTransport => {
+  const transport = Deno.env.get("EMAIL_TRANSPORT") ?? "resend";
+
+  switch (transport) {
+    case "resend":
+      return createResendTransport();
+    case "smtp":
+      return createSmtpTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+  }
+};
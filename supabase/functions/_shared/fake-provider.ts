@@ -0,0 +1,159 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { computeSignature, verifyMidtransPayload } from "./midtrans.ts";
+import type { PaymentNotification, PaymentProvider } from "./payment-provider.ts";
+
+// Offline provider for local development. Payments are simulated with the
+// fake-payment function, which signs Midtrans-shaped notifications with this
+// secret. There is no default: a known secret would let anyone forge a payment
+// if the fake provider were ever switched on outside development.
+const fakeSecret = () => {
+  const secret = Deno.env.get("FAKE_PAYMENT_SECRET");
+  if (!secret) {
+    console.error('FAKE_PAYMENT_SECRET environment variable is not set');
+    throw new Error('Fake payment secret not configured');
+  }
+  return secret;
+};
+
+// challenge is a card capture held by the fraud check; approved is what approving it returns
+export type FakeOutcome = "success" | "pending" | "failure" | "challenge" | "approved" | "canceled";
+
+const outcomes: Record<FakeOutcome, { transaction_status: string; status_code: string; fraud_status?: string }> = {
+  success: { transaction_status: "settlement", status_code: "200" },
+  pending: { transaction_status: "pending", status_code: "201" },
+  failure: { transaction_status: "deny", status_code: "202" },
+  challenge: { transaction_status: "capture", status_code: "201", fraud_status: "challenge" },
+  approved: { transaction_status: "capture", status_code: "200", fraud_status: "accept" },
+  canceled: { transaction_status: "cancel", status_code: "200" },
+};
+
+// Midtrans-style local time, e.g. "2026-10-29 07:00:00"
+const jakartaTime = (date: Date) =>
+  new Date(date.getTime() + 7 * 60 * 60 * 1000).toISOString().replace("T", " ").slice(0, 19);
+
+export const buildFakeNotification = async (
+  orderId: string,
+  amount: number,
+  outcome: FakeOutcome,
+  saveCard = false
+) => {
+  const { transaction_status, status_code, fraud_status } = outcomes[outcome];
+  const grossAmount = `${amount}.00`;
+
+  // Like a card payment with save_card, a successful opt-in payment returns a reusable token
+  const savedCard = saveCard && outcome === "success"
+    ? {
+        saved_token_id: `fake-token-${orderId}`,
+        saved_token_id_expired_at: jakartaTime(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000)),
+        masked_card: "481111-1114",
+      }
+    : {};
+
+  return {
+    ...savedCard,
+    order_id: orderId,
+    transaction_id: `fake-${orderId}`,
+    transaction_status,
+    ...(fraud_status && { fraud_status }),
+    status_code,
+    gross_amount: grossAmount,
+    payment_type: "fake",
+    transaction_time: new Date().toISOString(),
+    signature_key: await computeSignature(orderId, status_code, grossAmount, fakeSecret()),
+  };
+};
+
+// Approving, denying or canceling needs the order's amount, which only our own row knows here
+const decideOrder = async (supabaseClient: SupabaseClient, orderId: string, outcome: FakeOutcome) => {
+  const { data, error } = await supabaseClient
+    .from('transactions')
+    .select('amount')
+    .eq('midtrans_order_id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error(`Fake ${outcome} failed: unknown order ${orderId}`);
+
+  console.log(`Fake ${outcome} for ${orderId}`);
+  const payload = await buildFakeNotification(orderId, data.amount, outcome);
+  return verifyMidtransPayload(payload, fakeSecret());
+};
+
+export const createFakeProvider = (supabaseClient: SupabaseClient): PaymentProvider => ({
+  name: "fake",
+
+  async createSession(request) {
+    console.log('Creating fake payment session for', request.order_id);
+    return { token: `fake-${request.order_id}` };
+  },
+
+  parseNotification(payload) {
+    return verifyMidtransPayload(payload, fakeSecret());
+  },
+
+  // The fake provider keeps no state of its own; the last simulated notification is the status
+  async queryStatus(orderId) {
+    const { data, error } = await supabaseClient
+      .from('payment_events')
+      .select('payload')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const payload = data.payload as Record<string, unknown>;
+    return {
+      order_id: String(payload.order_id),
+      transaction_id: String(payload.transaction_id),
+      transaction_status: String(payload.transaction_status),
+      fraud_status: payload.fraud_status ? String(payload.fraud_status) : undefined,
+      status_code: String(payload.status_code),
+      gross_amount: String(payload.gross_amount),
+      payment_type: payload.payment_type ? String(payload.payment_type) : undefined,
+      raw: payload,
+    } satisfies PaymentNotification;
+  },
+
+  // Saved tokens containing "fail" are declined, everything else settles
+  async chargeSaved(request) {
+    console.log(`Fake charge of ${request.gross_amount} for ${request.order_id}`);
+    const outcome: FakeOutcome = request.payment_token.includes("fail") ? "failure" : "success";
+    const payload = await buildFakeNotification(request.order_id, request.gross_amount, outcome);
+    return verifyMidtransPayload(payload, fakeSecret());
+  },
+
+  approve(orderId) {
+    return decideOrder(supabaseClient, orderId, "approved");
+  },
+
+  deny(orderId) {
+    return decideOrder(supabaseClient, orderId, "failure");
+  },
+
+  // Like Midtrans, an order only exists on the provider side once a payment was attempted
+  async cancel(orderId) {
+    const { count, error } = await supabaseClient
+      .from('payment_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('order_id', orderId);
+
+    if (error) throw error;
+    if (!count) return null;
+
+    return decideOrder(supabaseClient, orderId, "canceled");
+  },
+
+  async refund(request) {
+    console.log(`Fake refund of ${request.amount} for ${request.order_id}: ${request.reason}`);
+    return {
+      status_code: "200",
+      status_message: "Fake refund accepted",
+      order_id: request.order_id,
+      refund_key: request.refund_key,
+      refund_amount: request.amount,
+    };
+  },
+});
@@ -0,0 +1,76 @@
+import type { SessionRequest } from "./payment-provider.ts";
+
+// The priced columns of a transactions row
+export interface PricedTransaction {
+  package_id: string | null;
+  package_name: string;
+  original_amount: number;
+  discount_amount: number;
+  voucher_code: string | null;
+  amount: number;
+  seats?: number | null;
+  proration_credit: number;
+  upgrade_from_package_name?: string | null;
+  tax_rate: number;
+  tax_inclusive: boolean;
+  tax_amount: number;
+}
+
+// Line items for the payment page: the package, voucher and upgrade credit at
+// their pre-tax value, then PPN on its own line. The lines add up to amount.
+export const buildItemDetails = (
+  transaction: PricedTransaction,
+  packageLabel: string = transaction.package_name
+): SessionRequest["items"] => {
+  const rate = Number(transaction.tax_rate);
+  // Tax-inclusive prices carry their share of PPN; take it out so it is not counted twice
+  const toNet = (value: number) =>
+    transaction.tax_inclusive ? Math.round(value * 100 / (100 + rate)) : value;
+
+  const adjustments: SessionRequest["items"] = [];
+
+  if (transaction.discount_amount > 0) {
+    adjustments.push({
+      id: `voucher-${transaction.voucher_code}`,
+      price: -toNet(transaction.discount_amount),
+      quantity: 1,
+      name: `Voucher ${transaction.voucher_code}`
+    });
+  }
+
+  // Upgrades to a longer package are credited for the unused paid days
+  if (transaction.proration_credit > 0) {
+    adjustments.push({
+      id: 'upgrade-credit',
+      price: -toNet(transaction.proration_credit),
+      quantity: 1,
+      name: `Kredit sisa ${transaction.upgrade_from_package_name ?? 'paket'}`
+    });
+  }
+
+  const taxLines = transaction.tax_amount > 0
+    ? [{ id: 'ppn', price: transaction.tax_amount, quantity: 1, name: `PPN ${rate}%` }]
+    : [];
+
+  // The package line absorbs rounding so every line still sums to gross_amount
+  const packageTotal = transaction.amount - transaction.tax_amount
+    - adjustments.reduce((sum, item) => sum + item.price, 0);
+
+  // Group orders are billed per seat when the total splits evenly
+  const seats = transaction.seats ?? 1;
+  const packageLine = packageTotal % seats === 0
+    ? {
+        id: `premium-${transaction.package_id}`,
+        price: packageTotal / seats,
+        quantity: seats,
+        name: transaction.seats ? `${packageLabel} (per kursi)` : packageLabel
+      }
+    : {
+        id: `premium-${transaction.package_id}`,
+        price: packageTotal,
+        quantity: 1,
+        name: `${packageLabel} (${seats} kursi)`
+      };
+
+  return [packageLine, ...adjustments, ...taxLines];
+};
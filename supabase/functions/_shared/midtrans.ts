@@ -0,0 +1,251 @@
+import {
+  InvalidNotificationError,
+  type PaymentNotification,
+  type PaymentProvider,
+} from "./payment-provider.ts";
+
+const endpoints = {
+  sandbox: {
+    snap: "https://app.sandbox.midtrans.com",
+    api: "https://api.sandbox.midtrans.com",
+  },
+  production: {
+    snap: "https://app.midtrans.com",
+    api: "https://api.midtrans.com",
+  },
+};
+
+// Midtrans signs notifications with SHA512(order_id + status_code + gross_amount + server key)
+export const computeSignature = async (
+  orderId: string,
+  statusCode: string,
+  grossAmount: string,
+  serverKey: string
+) => {
+  const data = new TextEncoder().encode(orderId + statusCode + grossAmount + serverKey);
+  const digest = await crypto.subtle.digest("SHA-512", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// Compare without bailing out on the first differing character
+export const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// Check the fields we rely on and the signature of a Midtrans-shaped payload
+export const verifyMidtransPayload = async (
+  payload: Record<string, unknown>,
+  serverKey: string
+): Promise<PaymentNotification> => {
+  const {
+    order_id,
+    transaction_status,
+    transaction_id,
+    status_code,
+    gross_amount,
+    signature_key
+  } = payload;
+
+  if (!order_id || !transaction_status || !transaction_id || !status_code || !gross_amount || !signature_key) {
+    throw new InvalidNotificationError('Missing required fields in webhook payload', 400);
+  }
+
+  const expectedSignature = await computeSignature(
+    String(order_id), String(status_code), String(gross_amount), serverKey
+  );
+  if (!timingSafeEqual(expectedSignature, String(signature_key))) {
+    throw new InvalidNotificationError('Invalid signature', 401);
+  }
+
+  return toNotification(payload);
+};
+
+const toNotification = (payload: Record<string, unknown>): PaymentNotification => ({
+  order_id: String(payload.order_id),
+  transaction_id: String(payload.transaction_id),
+  transaction_status: String(payload.transaction_status),
+  fraud_status: payload.fraud_status ? String(payload.fraud_status) : undefined,
+  status_code: String(payload.status_code),
+  gross_amount: String(payload.gross_amount),
+  payment_type: payload.payment_type ? String(payload.payment_type) : undefined,
+  raw: payload,
+});
+
+// MIDTRANS_SNAP_URL and MIDTRANS_API_URL override the hosts, e.g. to use supabase/dev/fake-midtrans.ts
+export const createMidtransProvider = (environment: "sandbox" | "production"): PaymentProvider => {
+  const serverKey = Deno.env.get("MIDTRANS_SERVER_KEY");
+  if (!serverKey) {
+    console.error('MIDTRANS_SERVER_KEY environment variable is not set');
+    throw new Error('Midtrans server key not configured');
+  }
+
+  const snapUrl = Deno.env.get("MIDTRANS_SNAP_URL") ?? endpoints[environment].snap;
+  const apiUrl = Deno.env.get("MIDTRANS_API_URL") ?? endpoints[environment].api;
+  const headers = {
+    'Accept': 'application/json',
+    'Content-Type': 'application/json',
+    'Authorization': `Basic ${btoa(serverKey + ":")}`
+  };
+
+  // Approve and deny answer with the transaction's new status, like a notification without a signature
+  const decideChallenge = async (orderId: string, decision: 'approve' | 'deny') => {
+    const response = await fetch(`${apiUrl}/v2/${encodeURIComponent(orderId)}/${decision}`, {
+      method: 'POST',
+      headers
+    });
+
+    const data = await response.json();
+    if (!response.ok || String(data.status_code) !== '200' || !data.transaction_id) {
+      throw new Error(`Midtrans ${decision} failed (${data.status_code ?? response.status}): ${data.status_message ?? ''}`);
+    }
+
+    return toNotification(data);
+  };
+
+  return {
+    name: `midtrans_${environment}`,
+
+    async createSession(request) {
+      const snapTransaction = {
+        transaction_details: {
+          order_id: request.order_id,
+          gross_amount: request.gross_amount
+        },
+        credit_card: {
+          secure: true
+        },
+        expiry: {
+          unit: 'minutes',
+          duration: request.expiry_minutes
+        },
+        customer_details: request.customer,
+        item_details: request.items,
+        // Saved cards are keyed by user_id on the Midtrans side
+        ...(request.save_payment_method && {
+          user_id: request.user_id,
+          credit_card: { secure: true, save_card: true }
+        })
+      };
+
+      console.log('Creating Midtrans Snap transaction...');
+      const response = await fetch(`${snapUrl}/snap/v1/transactions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(snapTransaction)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('Midtrans API error status:', response.status);
+        console.error('Midtrans API error response:', errorText);
+        throw new Error(`Midtrans API Error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json();
+      return { token: data.token, redirect_url: data.redirect_url };
+    },
+
+    parseNotification(payload) {
+      return verifyMidtransPayload(payload, serverKey);
+    },
+
+    // Midtrans answers unknown orders with HTTP 200 and status_code "404" in the body
+    async queryStatus(orderId) {
+      const response = await fetch(`${apiUrl}/v2/${encodeURIComponent(orderId)}/status`, { headers });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Midtrans API Error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json();
+      if (data.status_code === '404' || !data.transaction_id) {
+        return null;
+      }
+
+      return toNotification(data);
+    },
+
+    async chargeSaved(request) {
+      const charge = {
+        payment_type: request.payment_type,
+        transaction_details: {
+          order_id: request.order_id,
+          gross_amount: request.gross_amount
+        },
+        customer_details: request.customer,
+        item_details: request.items,
+        ...(request.payment_type === 'gopay'
+          ? { gopay: { account_id: request.account_id, payment_option_token: request.payment_token } }
+          : { credit_card: { token_id: request.payment_token } })
+      };
+
+      const response = await fetch(`${apiUrl}/v2/charge`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(charge)
+      });
+
+      // Declined charges still come back with a transaction_id and a final status
+      const data = await response.json();
+      if (!data.transaction_id) {
+        throw new Error(`Midtrans charge failed (${data.status_code ?? response.status}): ${data.status_message ?? ''}`);
+      }
+
+      return toNotification(data);
+    },
+
+    approve(orderId) {
+      return decideChallenge(orderId, 'approve');
+    },
+
+    deny(orderId) {
+      return decideChallenge(orderId, 'deny');
+    },
+
+    // An unpaid Snap session has no transaction yet, and Midtrans answers 404 in the body
+    async cancel(orderId) {
+      const response = await fetch(`${apiUrl}/v2/${encodeURIComponent(orderId)}/cancel`, {
+        method: 'POST',
+        headers
+      });
+
+      const data = await response.json();
+      if (String(data.status_code) === '404') {
+        return null;
+      }
+
+      if (!response.ok || String(data.status_code) !== '200' || !data.transaction_id) {
+        throw new Error(`Midtrans cancel failed (${data.status_code ?? response.status}): ${data.status_message ?? ''}`);
+      }
+
+      return toNotification(data);
+    },
+
+    async refund(request) {
+      const response = await fetch(`${apiUrl}/v2/${encodeURIComponent(request.order_id)}/refund`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          refund_key: request.refund_key,
+          amount: request.amount,
+          reason: request.reason
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok || !['200', '201'].includes(String(data.status_code))) {
+        throw new Error(`Midtrans refund failed (${data.status_code ?? response.status}): ${data.status_message ?? ''}`);
+      }
+
+      return data;
+    },
+  };
+};
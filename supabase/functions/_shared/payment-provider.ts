@@ -0,0 +1,101 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { createMidtransProvider } from "./midtrans.ts";
+import { createFakeProvider } from "./fake-provider.ts";
+
+export interface SessionRequest {
+  order_id: string;
+  gross_amount: number;
+  expiry_minutes: number;
+  user_id: string;
+  // Ask the provider to save the payment method for auto-renew
+  save_payment_method?: boolean;
+  customer: {
+    first_name: string;
+    email?: string;
+  };
+  items: {
+    id: string;
+    price: number;
+    quantity: number;
+    name: string;
+  }[];
+}
+
+export interface CheckoutSession {
+  token: string;
+  redirect_url?: string;
+}
+
+// A verified payment state, in the Midtrans notification shape that
+// apply_payment_notification() understands. raw is what the provider sent.
+export interface PaymentNotification {
+  order_id: string;
+  transaction_id: string;
+  transaction_status: string;
+  fraud_status?: string;
+  status_code: string;
+  gross_amount: string;
+  payment_type?: string;
+  raw: Record<string, unknown>;
+}
+
+// A charge against a payment method saved by an earlier checkout
+export interface SavedChargeRequest {
+  order_id: string;
+  gross_amount: number;
+  payment_type: string;
+  payment_token: string;
+  account_id?: string | null;
+  customer: SessionRequest["customer"];
+  items: SessionRequest["items"];
+}
+
+export interface RefundRequest {
+  order_id: string;
+  amount: number;
+  reason: string;
+  refund_key: string;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createSession(request: SessionRequest): Promise<CheckoutSession>;
+  // Throws InvalidNotificationError when the payload is malformed or not signed by the provider
+  parseNotification(payload: Record<string, unknown>): Promise<PaymentNotification>;
+  // null when the provider has no payment for the order yet
+  queryStatus(orderId: string): Promise<PaymentNotification | null>;
+  // Resolves with the charge result, which may already be final; throws when the charge was not accepted at all
+  chargeSaved(request: SavedChargeRequest): Promise<PaymentNotification>;
+  // Settle a card payment the provider's fraud check challenged; resolves with the resulting status
+  approve(orderId: string): Promise<PaymentNotification>;
+  deny(orderId: string): Promise<PaymentNotification>;
+  // Void a payment the customer has not completed; null when the provider has no payment for the order yet
+  cancel(orderId: string): Promise<PaymentNotification | null>;
+  refund(request: RefundRequest): Promise<Record<string, unknown>>;
+}
+
+export class InvalidNotificationError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "InvalidNotificationError";
+    this.status = status;
+  }
+}
+
+// PAYMENT_PROVIDER selects the implementation: midtrans_sandbox (default), midtrans_production or fake
+export const getPaymentProvider = (supabaseClient: SupabaseClient): PaymentProvider => {
+  const provider = Deno.env.get("PAYMENT_PROVIDER") ?? "midtrans_sandbox";
+
+  switch (provider) {
+    case "midtrans_sandbox":
+      return createMidtransProvider("sandbox");
+    case "midtrans_production":
+      return createMidtransProvider("production");
+    case "fake":
+      return createFakeProvider(supabaseClient);
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER: ${provider}`);
+  }
+};
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { PaymentNotification } from "./payment-provider.ts";
+import { enqueueEmail } from "./email-outbox.ts";
+
+// Outcome of a failed auto-renew charge, from record_renewal_failure()
+export interface RenewalFailure {
+  renewal_id: string;
+  user_id: string;
+  status: 'past_due' | 'canceled';
+  failed_attempts?: number;
+  next_charge_at?: string | null;
+  last_error?: string | null;
+  notify: boolean;
+}
+
+// Code issued for a paid gift order, from issue_gift()
+export interface IssuedGift {
+  gift_id: string;
+  code: string;
+  purchaser_id: string;
+  recipient_email: string;
+  message: string | null;
+  package_name: string;
+  duration_months: number;
+}
+
+// License issued for a paid group order, from issue_organization_license()
+export interface IssuedLicense {
+  organization_id: string;
+  organization_name: string;
+  owner_id: string;
+  seats: number;
+  starts_at: string;
+  ends_at: string;
+}
+
+// Reward for the referrer of a first-time buyer, from award_referral()
+export interface ReferralReward {
+  referrer_id: string;
+  reward_days: number;
+  premium_until: string;
+}
+
+// Refund or chargeback applied to a paid order, from apply_refund()
+export interface RefundResult {
+  transaction_id: string;
+  user_id: string;
+  order_id: string;
+  package_name: string;
+  status: 'partially_refunded' | 'refunded' | 'charged_back';
+  previous_status: string;
+  amount: number;
+  refund_amount: number;
+  refunded_amount: number;
+  premium_until?: string | null;
+  gift_revoked: boolean;
+}
+
+export interface PaymentResult {
+  duplicate: boolean;
+  status: string;
+  // Set whenever the notification moved the order
+  previous_status?: string;
+  upgraded: boolean;
+  premium_until?: string;
+  renewal?: RenewalFailure | null;
+  gift?: IssuedGift | null;
+  organization?: IssuedLicense | null;
+  referral?: ReferralReward | null;
+  refund?: RefundResult | null;
+}
+
+export interface PaidTransaction {
+  id: string;
+  user_id: string;
+  midtrans_order_id: string;
+  package_id: string | null;
+  package_name: string;
+  duration_months: number;
+  amount: number;
+}
+
+// Log a verified payment status, advance the transaction and grant premium in one database transaction
+export const applyPaymentNotification = async (
+  supabaseClient: SupabaseClient,
+  notification: PaymentNotification
+): Promise<PaymentResult> => {
+  const { data, error } = await supabaseClient
+    .rpc('apply_payment_notification', { _payload: notification.raw });
+
+  if (error) {
+    console.error('Failed to apply notification:', error);
+    throw new Error('Failed to update transaction');
+  }
+
+  return data as PaymentResult;
+};
+
+// Tells the buyer a challenged card payment is under review, and again if the
+// review denies it. An approved payment gets the usual welcome email and a
+// denied auto-renew charge the dunning email.
+export const sendPaymentReviewEmail = async (
+  supabaseClient: SupabaseClient,
+  transaction: PaidTransaction,
+  result: PaymentResult
+) => {
+  if (result.duplicate || !result.previous_status) return;
+
+  const variables = {
+    order_id: transaction.midtrans_order_id,
+    package_name: transaction.package_name,
+    amount: transaction.amount
+  };
+
+  if (result.status === 'review') {
+    await enqueueEmail(supabaseClient, {
+      template: 'payment_review',
+      user_id: transaction.user_id,
+      dedupe_key: `payment_review:${transaction.id}`,
+      variables
+    });
+  } else if (result.status === 'failed' && result.previous_status === 'review' && !result.renewal) {
+    await enqueueEmail(supabaseClient, {
+      template: 'payment_denied',
+      user_id: transaction.user_id,
+      dedupe_key: `payment_denied:${transaction.id}`,
+      variables
+    });
+  }
+};
+
+// Dunning email after a failed auto-renew charge
+export const sendRenewalFailedEmail = async (
+  supabaseClient: SupabaseClient,
+  renewal: RenewalFailure
+) => {
+  if (!renewal.notify) return;
+
+  await enqueueEmail(supabaseClient, {
+    template: 'renewal_failed',
+    user_id: renewal.user_id,
+    variables: {
+      status: renewal.status,
+      next_charge_at: renewal.next_charge_at
+    }
+  });
+};
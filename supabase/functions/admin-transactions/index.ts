@@ -0,0 +1,267 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+import {
+  applyPaymentNotification,
+  sendPaymentReviewEmail,
+  sendRenewalFailedEmail,
+  type PaidTransaction,
+  type PaymentResult,
+} from "../_shared/payments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface AdminTransactionRequest {
+  action: 'recheck' | 'mark_paid' | 'approve' | 'deny' | 'refund';
+  transaction_id: string;
+  reason?: string;
+  // Rupiah to refund; defaults to whatever has not been refunded yet
+  amount?: number;
+}
+
+const REFUNDABLE_STATUSES = ['paid', 'partially_refunded'];
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// The emails a provider status can trigger, as the webhook would send them. The
+// welcome, gift code and refund emails are queued by the database with the status.
+const sendResultEmails = async (
+  supabaseClient: SupabaseClient,
+  transaction: PaidTransaction,
+  result: PaymentResult
+) => {
+  if (result.renewal) {
+    await sendRenewalFailedEmail(supabaseClient, result.renewal);
+  }
+
+  await sendPaymentReviewEmail(supabaseClient, transaction, result);
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // Only admins may touch other users' orders
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+    if (authError || !user) {
+      console.error("Authentication error:", authError);
+      return jsonResponse({ error: 'User not authenticated' }, 401);
+    }
+
+    const { data: isAdmin } = await supabaseClient
+      .rpc('has_role', { _user_id: user.id, _role: 'admin' });
+
+    if (!isAdmin) {
+      return jsonResponse({ error: 'Admin access required' }, 403);
+    }
+
+    const { action, transaction_id, reason, amount }: AdminTransactionRequest = await req.json();
+
+    if (!transaction_id) {
+      return jsonResponse({ error: 'transaction_id is required' }, 400);
+    }
+
+    const { data: transaction, error: fetchError } = await supabaseClient
+      .from('transactions')
+      .select('*')
+      .eq('id', transaction_id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Failed to fetch transaction:', fetchError);
+      throw new Error('Failed to fetch transaction');
+    }
+
+    if (!transaction) {
+      return jsonResponse({ error: 'Transaction not found' }, 404);
+    }
+
+    if (action === 'recheck') {
+      const provider = getPaymentProvider(supabaseClient);
+      console.log(`Re-checking order against ${provider.name}:`, transaction.midtrans_order_id);
+      const notification = await provider.queryStatus(transaction.midtrans_order_id);
+
+      // The customer never opened a payment method, so the provider has nothing yet
+      if (!notification) {
+        return jsonResponse({ status: transaction.status, midtrans: null }, 200);
+      }
+
+      if (Number(notification.gross_amount) !== transaction.amount) {
+        console.error(`Amount mismatch for ${transaction.midtrans_order_id}: expected ${transaction.amount}, got ${notification.gross_amount}`);
+        return jsonResponse({ error: 'Gross amount does not match transaction', midtrans: notification.raw }, 400);
+      }
+
+      const result = await applyPaymentNotification(supabaseClient, notification);
+      await sendResultEmails(supabaseClient, transaction, result);
+
+      return jsonResponse({ ...result, midtrans: notification.raw }, 200);
+    }
+
+    // Settle a card payment the provider's fraud check challenged
+    if (action === 'approve' || action === 'deny') {
+      if (!reason?.trim()) {
+        return jsonResponse({ error: 'A reason is required' }, 400);
+      }
+
+      if (transaction.status !== 'review') {
+        return jsonResponse({ error: 'Transaction is not under review' }, 400);
+      }
+
+      const provider = getPaymentProvider(supabaseClient);
+      console.log(`Sending ${action} for ${transaction.midtrans_order_id} to ${provider.name}`);
+      const notification = action === 'approve'
+        ? await provider.approve(transaction.midtrans_order_id)
+        : await provider.deny(transaction.midtrans_order_id);
+
+      const { error: reviewError } = await supabaseClient
+        .rpc('record_payment_review', {
+          _transaction_id: transaction.id,
+          _actor_id: user.id,
+          _decision: action,
+          _reason: reason
+        });
+
+      if (reviewError) {
+        console.error('Failed to record payment review:', reviewError);
+        throw new Error('Failed to record payment review');
+      }
+
+      if (Number(notification.gross_amount) !== transaction.amount) {
+        console.error(`Amount mismatch for ${transaction.midtrans_order_id}: expected ${transaction.amount}, got ${notification.gross_amount}`);
+        return jsonResponse({ error: 'Gross amount does not match transaction', midtrans: notification.raw }, 400);
+      }
+
+      // The provider also sends this status to the webhook; whichever comes first applies it
+      const result = await applyPaymentNotification(supabaseClient, notification);
+      await sendResultEmails(supabaseClient, transaction, result);
+
+      return jsonResponse({ ...result, midtrans: notification.raw }, 200);
+    }
+
+    // Return money through the provider; premium bought with it is revoked proportionally
+    if (action === 'refund') {
+      if (!reason?.trim()) {
+        return jsonResponse({ error: 'A reason is required' }, 400);
+      }
+
+      if (!REFUNDABLE_STATUSES.includes(transaction.status)) {
+        return jsonResponse({ error: 'Only paid transactions can be refunded' }, 400);
+      }
+
+      const remaining = transaction.amount - transaction.refunded_amount;
+      const refundAmount = amount ?? remaining;
+      if (!Number.isInteger(refundAmount) || refundAmount <= 0 || refundAmount > remaining) {
+        return jsonResponse({ error: `Refund amount must be between 1 and ${remaining}` }, 400);
+      }
+
+      // Recorded before the provider is called; a retry gets the same refund_key
+      const { data: pending, error: beginError } = await supabaseClient
+        .rpc('begin_refund', {
+          _transaction_id: transaction.id,
+          _actor_id: user.id,
+          _amount: refundAmount,
+          _reason: reason
+        });
+
+      if (beginError) {
+        console.error('Failed to start refund:', beginError);
+        return jsonResponse({ error: beginError.message }, 400);
+      }
+
+      const provider = getPaymentProvider(supabaseClient);
+      console.log(`Refunding ${refundAmount} of ${transaction.midtrans_order_id} through ${provider.name}`);
+      let response;
+      try {
+        response = await provider.refund({
+          order_id: transaction.midtrans_order_id,
+          amount: refundAmount,
+          reason: reason.trim(),
+          refund_key: pending.refund_key
+        });
+      } catch (error) {
+        await supabaseClient.rpc('finish_refund', { _refund_id: pending.id, _error: error.message });
+        throw error;
+      }
+
+      const { data: refund, error: refundError } = await supabaseClient
+        .rpc('finish_refund', {
+          _refund_id: pending.id,
+          _response: response
+        });
+
+      if (refundError) {
+        console.error('Failed to record refund:', refundError);
+        throw new Error('Refund was sent to the provider but could not be applied; retry it with the same amount');
+      }
+
+      const { data: updated } = await supabaseClient
+        .from('transactions')
+        .select('status, refunded_amount')
+        .eq('id', transaction.id)
+        .single();
+
+      console.log(`Transaction ${transaction.midtrans_order_id} refunded ${refundAmount} by ${user.id}`);
+      return jsonResponse({ ...updated, refund }, 200);
+    }
+
+    if (action === 'mark_paid') {
+      if (!reason?.trim()) {
+        return jsonResponse({ error: 'A reason is required' }, 400);
+      }
+
+      // The card was captured by the provider; only its approval settles it
+      if (transaction.status === 'review') {
+        return jsonResponse({ error: 'Approve or deny a transaction under review instead' }, 400);
+      }
+
+      // Marking it paid again would grant the refunded premium a second time
+      if (transaction.refunded_amount > 0 || transaction.status === 'charged_back') {
+        return jsonResponse({ error: 'Transaction has been refunded' }, 400);
+      }
+
+      const { data: result, error: markError } = await supabaseClient
+        .rpc('mark_transaction_paid', {
+          _transaction_id: transaction.id,
+          _actor_id: user.id,
+          _reason: reason
+        });
+
+      if (markError) {
+        console.error('Failed to mark transaction paid:', markError);
+        return jsonResponse({ error: markError.message }, 400);
+      }
+
+      console.log(`Transaction ${transaction.midtrans_order_id} marked paid by ${user.id}`);
+      return jsonResponse(result, 200);
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+
+  } catch (error) {
+    console.error('Admin transaction error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to process request'
+    }, 500);
+  }
+});
@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface CancelPaymentRequest {
+  order_id: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// A member abandons an order they have not paid, e.g. to pick a different
+// package. The provider voids any open payment first, so a virtual account
+// from the order can no longer be paid.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+    if (authError || !user) {
+      console.error("Authentication error:", authError);
+      return jsonResponse({ error: 'User not authenticated' }, 401);
+    }
+
+    const { order_id }: CancelPaymentRequest = await req.json();
+    if (!order_id) {
+      return jsonResponse({ error: 'order_id is required' }, 400);
+    }
+
+    const { data: transaction, error: fetchError } = await supabaseClient
+      .from('transactions')
+      .select('id, status')
+      .eq('midtrans_order_id', order_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!transaction) {
+      return jsonResponse({ error: 'Order tidak ditemukan' }, 404);
+    }
+
+    if (transaction.status !== 'pending') {
+      return jsonResponse({ error: 'Hanya order yang menunggu pembayaran yang dapat dibatalkan' }, 400);
+    }
+
+    // Fails when the payment already went through; the webhook then marks the order paid
+    const provider = getPaymentProvider(supabaseClient);
+    try {
+      const notification = await provider.cancel(order_id);
+      console.log(`Provider cancel for ${order_id}: ${notification?.transaction_status ?? 'no payment yet'}`);
+    } catch (error) {
+      console.error(`Provider cancel for ${order_id} failed:`, error);
+      return jsonResponse({ error: 'Pembayaran tidak dapat dibatalkan karena sudah diproses' }, 409);
+    }
+
+    const { data: canceled, error: cancelError } = await supabaseClient
+      .rpc('cancel_checkout_transaction', {
+        _transaction_id: transaction.id,
+        _user_id: user.id
+      });
+
+    if (cancelError) {
+      console.error('Failed to cancel order:', cancelError);
+      return jsonResponse({ error: cancelError.message }, 400);
+    }
+
+    console.log(`Order ${order_id} canceled by ${user.id}`);
+    return jsonResponse({ order_id, status: canceled.status }, 200);
+
+  } catch (error) {
+    console.error('Cancel payment error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to cancel payment'
+    }, 500);
+  }
+});
@@ -0,0 +1,161 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+import { buildItemDetails } from "../_shared/item-details.ts";
+import {
+  applyPaymentNotification,
+  sendPaymentReviewEmail,
+  sendRenewalFailedEmail,
+  type RenewalFailure,
+} from "../_shared/payments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = Number(Deno.env.get("RENEWAL_BATCH_SIZE") ?? "50");
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Charges the saved payment method of every auto renewal that is due. Declines
+// and errors go through record_renewal_failure(), which schedules the retries.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    // Only the scheduler (or an operator) holding the service role key may run this
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const provider = getPaymentProvider(supabaseClient);
+
+    const { data: renewals, error: fetchError } = await supabaseClient
+      .from('auto_renewals')
+      .select('*')
+      .neq('status', 'canceled')
+      .lte('next_charge_at', new Date().toISOString())
+      .order('next_charge_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('Failed to fetch due renewals:', fetchError);
+      throw new Error('Failed to fetch due renewals');
+    }
+
+    console.log(`Charging ${renewals.length} due renewals`);
+
+    const summary = { due: renewals.length, paid: 0, pending: 0, failed: 0, canceled: 0, skipped: 0 };
+
+    const recordFailure = async (renewalId: string, transactionId: string | null, message: string) => {
+      const { data, error } = await supabaseClient.rpc('record_renewal_failure', {
+        _renewal_id: renewalId,
+        _transaction_id: transactionId,
+        _error: message
+      });
+
+      if (error) throw error;
+      return data as RenewalFailure;
+    };
+
+    const countFailure = async (renewal: RenewalFailure) => {
+      if (renewal.status === 'canceled') {
+        summary.canceled++;
+      } else {
+        summary.failed++;
+      }
+      await sendRenewalFailedEmail(supabaseClient, renewal);
+    };
+
+    for (const renewal of renewals) {
+      try {
+        const { data: profile } = await supabaseClient
+          .from('profiles')
+          .select('nama')
+          .eq('id', renewal.user_id)
+          .maybeSingle();
+
+        const { data: authUser } = await supabaseClient.auth.admin.getUserById(renewal.user_id);
+
+        const orderId = `renew-${renewal.user_id.substring(0, 8)}-${Date.now()}`;
+
+        const { data: transaction, error: startError } = await supabaseClient
+          .rpc('start_renewal_charge', { _renewal_id: renewal.id, _order_id: orderId });
+
+        if (startError) {
+          // Another run is still waiting for the provider; leave it alone
+          if (startError.message.includes('already in progress') || startError.message.includes('not due')) {
+            summary.skipped++;
+            continue;
+          }
+          console.error(`Cannot charge renewal ${renewal.id}:`, startError.message);
+          await countFailure(await recordFailure(renewal.id, null, startError.message));
+          continue;
+        }
+
+        let notification;
+        try {
+          notification = await provider.chargeSaved({
+            order_id: orderId,
+            gross_amount: transaction.amount,
+            payment_type: renewal.payment_type,
+            payment_token: renewal.payment_token,
+            account_id: renewal.account_id,
+            customer: {
+              first_name: profile?.nama || 'User',
+              email: authUser?.user?.email,
+            },
+            items: buildItemDetails(transaction, `Perpanjangan ${transaction.package_name}`)
+          });
+        } catch (error) {
+          console.error(`Charge for ${orderId} was not accepted:`, error);
+          await countFailure(await recordFailure(renewal.id, transaction.id, error.message));
+          continue;
+        }
+
+        const result = await applyPaymentNotification(supabaseClient, notification);
+        console.log(`Renewal order ${orderId} is now ${result.status}`);
+
+        if (result.upgraded) {
+          summary.paid++;
+        } else if (result.renewal) {
+          await countFailure(result.renewal);
+        } else {
+          // e.g. a 3DS or GoPay confirmation, or a card held for review; the webhook finishes it
+          summary.pending++;
+          await sendPaymentReviewEmail(supabaseClient, transaction, result);
+        }
+      } catch (error) {
+        // One bad renewal must not stop the rest of the batch
+        console.error(`Failed to process renewal ${renewal.id}:`, error);
+        summary.failed++;
+      }
+    }
+
+    console.log('Renewal charging finished:', summary);
+    return jsonResponse({ status: 'success', ...summary }, 200);
+
+  } catch (error) {
+    console.error('Renewal charging error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to charge renewals'
+    }, 500);
+  }
+});
@@ -1,13 +1,36 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+import { buildItemDetails } from "../_shared/item-details.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// How long a payment session accepts payment; reconcile-payments expires orders after this
+const PAYMENT_EXPIRY_MINUTES = Number(Deno.env.get("PAYMENT_EXPIRY_MINUTES") ?? "1440");
+
+// New orders a member may start per hour; reopening an unfinished one does not count
+const CHECKOUT_RATE_LIMIT = Number(Deno.env.get("CHECKOUT_RATE_LIMIT") ?? "10");
+
+// An order this close to expiring is not worth reopening
+const RESUME_MIN_REMAINING_MINUTES = 5;
+
 interface PaymentRequest {
-  paket: 'monthly' | 'yearly';
+  package_id: string;
+  voucher_code?: string;
+  auto_renew?: boolean;
+  gift?: {
+    recipient_email: string;
+    message?: string;
+  };
+  // Group license: a new organization by name, or a renewal of one the user owns
+  organization?: {
+    id?: string;
+    name?: string;
+    seats: number;
+  };
 }
 
 serve(async (req) => {
@@ -18,15 +41,9 @@ serve(async (req) => {
 
   try {
     // Check required environment variables
-    const midtransServerKey = Deno.env.get("MIDTRANS_SERVER_KEY");
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!midtransServerKey) {
-      console.error('MIDTRANS_SERVER_KEY environment variable is not set');
-      throw new Error('Midtrans server key not configured');
-    }
-
     if (!supabaseUrl || !supabaseServiceKey) {
       console.error('Supabase environment variables are not set');
       throw new Error('Supabase configuration not found');
@@ -62,38 +79,79 @@ serve(async (req) => {
       auth: { persistSession: false }
     });
 
-    const { paket }: PaymentRequest = await req.json();
+    const provider = getPaymentProvider(supabaseClient);
+
+    const { package_id, voucher_code, auto_renew, gift, organization }: PaymentRequest = await req.json();
 
-    // Validate paket
-    if (!paket || !['monthly', 'yearly'].includes(paket)) {
-      throw new Error("Invalid paket. Must be 'monthly' or 'yearly'");
+    // Validate package_id
+    if (!package_id) {
+      throw new Error("package_id is required");
     }
 
-    // Get pricing from premium_packages table
-    const { data: packageData, error: packageError } = await supabaseClient
-      .from('premium_packages')
-      .select('price, duration_months, name')
-      .eq('is_active', true)
-      .eq('duration_months', paket === 'monthly' ? 1 : 12)
-      .order('is_popular', { ascending: false })
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    let amount: number;
-    let packageName: string;
-    if (packageError || !packageData) {
-      console.error('Package fetch error:', packageError);
-      // Fallback to default pricing
-      amount = paket === 'monthly' ? 40000 : 400000;
-      packageName = `Premium Membership ${paket === 'monthly' ? '1 Bulan' : '1 Tahun'}`;
-    } else {
-      amount = packageData.price;
-      packageName = packageData.name;
+    // Reopen an unfinished checkout for the same package instead of starting a
+    // second order. Gifts and group licenses differ per request and always start fresh.
+    if (!gift && !organization) {
+      const resumableAfter = new Date(Date.now() + RESUME_MIN_REMAINING_MINUTES * 60 * 1000).toISOString();
+      const { data: pendingOrders, error: pendingError } = await supabaseClient
+        .from('transactions')
+        .select('midtrans_order_id, snap_token, voucher_code, auto_renew, gifts(id)')
+        .eq('user_id', user.id)
+        .eq('package_id', package_id)
+        .eq('status', 'pending')
+        .is('auto_renewal_id', null)
+        .not('snap_token', 'is', null)
+        .gt('expires_at', resumableAfter)
+        .order('created_at', { ascending: false });
+
+      if (pendingError) {
+        console.error('Pending order lookup error:', pendingError);
+        throw new Error('Failed to look up pending orders');
+      }
+
+      // A different voucher or auto-renew choice prices or saves differently, so it gets its own order
+      const requestedVoucher = (voucher_code || '').trim().toUpperCase();
+      const resumable = pendingOrders?.find((order) =>
+        !order.gifts
+        && order.auto_renew === (auto_renew === true)
+        && (order.voucher_code || '').toUpperCase() === requestedVoucher
+      );
+
+      if (resumable) {
+        console.log(`Resuming pending order ${resumable.midtrans_order_id}`);
+        return new Response(JSON.stringify({
+          token: resumable.snap_token,
+          order_id: resumable.midtrans_order_id,
+          provider: provider.name,
+          resumed: true
+        }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        });
+      }
+    }
+
+    const { count: recentOrders, error: countError } = await supabaseClient
+      .from('transactions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('auto_renewal_id', null)
+      .gte('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+
+    if (countError) {
+      console.error('Checkout rate limit lookup error:', countError);
+      throw new Error('Failed to check recent orders');
+    }
+
+    if ((recentOrders ?? 0) >= CHECKOUT_RATE_LIMIT) {
+      console.log(`Checkout rate limit reached for ${user.id}: ${recentOrders} orders in the last hour`);
+      return new Response(JSON.stringify({
+        error: 'Terlalu banyak percobaan pembayaran. Selesaikan atau batalkan pembayaran yang masih berjalan, lalu coba lagi nanti.'
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 429,
+      });
     }
 
-    console.log(`Using package: ${packageName} with price: ${amount}`);
-    
     // Generate unique order ID (shortened for Midtrans compatibility)
     const timestamp = Date.now().toString();
     const userIdShort = user.id.substring(0, 8); // Take first 8 chars of UUID
@@ -106,67 +164,68 @@ serve(async (req) => {
       .eq('id', user.id)
       .single();
 
-    // Create transaction record
-    const { error: transactionError } = await supabaseClient
-      .from('transactions')
-      .insert({
-        user_id: user.id,
-        paket,
-        amount,
-        midtrans_order_id: orderId,
-        status: 'pending'
-      });
+    // Price the package, apply the voucher and create the transaction record atomically
+    const { data: transaction, error: transactionError } = organization
+      ? await supabaseClient
+        .rpc('create_group_checkout_transaction', {
+          _user_id: user.id,
+          _package_id: package_id,
+          _order_id: orderId,
+          _seats: Number(organization.seats),
+          _organization_id: organization.id || null,
+          _organization_name: organization.name || null,
+          _expiry_minutes: PAYMENT_EXPIRY_MINUTES
+        })
+      : await supabaseClient
+        .rpc('create_checkout_transaction', {
+          _user_id: user.id,
+          _package_id: package_id,
+          _order_id: orderId,
+          _voucher_code: voucher_code || null,
+          _expiry_minutes: PAYMENT_EXPIRY_MINUTES,
+          _auto_renew: auto_renew === true,
+          _gift_recipient_email: gift?.recipient_email || null,
+          _gift_message: gift?.message || null
+        });
 
     if (transactionError) {
       console.error('Transaction creation error:', transactionError);
-      throw new Error('Failed to create transaction record');
+      throw new Error(transactionError.message || 'Failed to create transaction record');
     }
 
-    // Prepare Midtrans Snap transaction
-    const snapTransaction = {
-      transaction_details: {
-        order_id: orderId,
-        gross_amount: amount
-      },
-      credit_card: {
-        secure: true
-      },
-      customer_details: {
+    console.log(`Using package: ${transaction.package_name} with price: ${transaction.amount}`);
+
+    if (transaction.proration_credit > 0) {
+      console.log(`Upgrade from ${transaction.upgrade_from_package_name} credited ${transaction.proration_credit}`);
+    }
+
+    const session = await provider.createSession({
+      order_id: orderId,
+      gross_amount: transaction.amount,
+      expiry_minutes: PAYMENT_EXPIRY_MINUTES,
+      user_id: user.id,
+      save_payment_method: transaction.auto_renew,
+      customer: {
         first_name: profile?.nama || 'User',
         email: user.email,
       },
-      item_details: [{
-        id: `premium-${paket}`,
-        price: amount,
-        quantity: 1,
-        name: packageName
-      }]
-    };
-
-    // Create Snap transaction with Midtrans (using sandbox for testing)
-    console.log('Creating Midtrans Snap transaction...');
-    const midtransResponse = await fetch('https://app.sandbox.midtrans.com/snap/v1/transactions', {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${btoa(midtransServerKey + ":")}`
-      },
-      body: JSON.stringify(snapTransaction)
+      items: buildItemDetails(transaction)
     });
 
-    if (!midtransResponse.ok) {
-      const errorText = await midtransResponse.text();
-      console.error('Midtrans API error status:', midtransResponse.status);
-      console.error('Midtrans API error response:', errorText);
-      throw new Error(`Midtrans API Error (${midtransResponse.status}): ${errorText}`);
-    }
+    // Kept so a later checkout for the same package can reopen this session
+    const { error: tokenError } = await supabaseClient
+      .from('transactions')
+      .update({ snap_token: session.token })
+      .eq('id', transaction.id);
 
-    const midtransData = await midtransResponse.json();
+    if (tokenError) {
+      console.error('Failed to store payment session token:', tokenError);
+    }
 
     return new Response(JSON.stringify({
-      token: midtransData.token,
-      order_id: orderId
+      token: session.token,
+      order_id: orderId,
+      provider: provider.name
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
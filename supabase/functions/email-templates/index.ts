@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { emailTemplates, isEmailTemplateName, renderStoredEmail } from "../_shared/email-templates.ts";
+import { getEmailTransport } from "../_shared/email-transport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface EmailTemplateRequest {
+  action: 'list' | 'preview' | 'send_test';
+  template?: string;
+  variables?: Record<string, unknown>;
+  to?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Lets admins see every transactional email with sample or edited variables and
+// send a test copy to themselves.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+    if (authError || !user) {
+      console.error("Authentication error:", authError);
+      return jsonResponse({ error: 'User not authenticated' }, 401);
+    }
+
+    const { data: isAdmin } = await supabaseClient
+      .rpc('has_role', { _user_id: user.id, _role: 'admin' });
+
+    if (!isAdmin) {
+      return jsonResponse({ error: 'Admin access required' }, 403);
+    }
+
+    const { action, template, variables, to }: EmailTemplateRequest = await req.json();
+
+    if (action === 'list') {
+      const templates = Object.entries(emailTemplates).map(([name, definition]) => ({
+        name,
+        label: definition.label,
+        description: definition.description,
+        sample: definition.sample,
+      }));
+      return jsonResponse({ templates }, 200);
+    }
+
+    if (!template || !isEmailTemplateName(template)) {
+      return jsonResponse({ error: 'Unknown template' }, 400);
+    }
+
+    // Edited variables are laid over the sample so a partial edit still renders
+    let email;
+    try {
+      email = renderStoredEmail(template, { ...emailTemplates[template].sample, ...variables });
+    } catch (renderError) {
+      console.error('Failed to render template:', renderError);
+      return jsonResponse({ error: `Template could not be rendered: ${renderError.message}` }, 400);
+    }
+
+    if (action === 'preview') {
+      return jsonResponse({ ...email }, 200);
+    }
+
+    if (action === 'send_test') {
+      const recipient = to || user.email;
+      if (!recipient) {
+        return jsonResponse({ error: 'Recipient email is required' }, 400);
+      }
+
+      const emailId = await getEmailTransport().send(recipient, { ...email, subject: `[Tes] ${email.subject}` });
+      console.log(`Test ${template} email sent to ${recipient}:`, emailId);
+      return jsonResponse({ success: true, email_id: emailId }, 200);
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400);
+
+  } catch (error) {
+    console.error('Email template error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to process email template request'
+    }, 500);
+  }
+});
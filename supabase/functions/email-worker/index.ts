@@ -0,0 +1,142 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { isEmailTemplateName, renderStoredEmail } from "../_shared/email-templates.ts";
+import { getEmailTransport } from "../_shared/email-transport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = Number(Deno.env.get("EMAIL_BATCH_SIZE") ?? "50");
+
+// Retries wait 1, 2, 4, 8... minutes, capped at 6 hours
+const BACKOFF_BASE_MINUTES = 1;
+const BACKOFF_MAX_MINUTES = 360;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+interface OutboxEmail {
+  id: string;
+  template: string;
+  recipient: string | null;
+  user_id: string | null;
+  variables: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Delivers queued emails from email_outbox. Each claimed email ends up sent,
+// back in the queue for a later retry, or failed once its attempts run out.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    // Only the scheduler (or an operator) holding the service role key may run this
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const { data, error: claimError } = await supabaseClient
+      .rpc('claim_email_outbox', { _limit: BATCH_SIZE });
+
+    if (claimError) {
+      console.error('Failed to claim emails:', claimError);
+      throw new Error('Failed to claim emails');
+    }
+
+    const emails = (data ?? []) as OutboxEmail[];
+    const transport = getEmailTransport();
+    const summary = { claimed: emails.length, sent: 0, retrying: 0, failed: 0 };
+
+    for (const email of emails) {
+      let recipient = email.recipient;
+
+      try {
+        if (!isEmailTemplateName(email.template)) {
+          throw new Error(`Unknown template: ${email.template}`);
+        }
+
+        const variables = { ...email.variables };
+
+        if (email.user_id) {
+          const [{ data: authUser }, { data: profile }] = await Promise.all([
+            supabaseClient.auth.admin.getUserById(email.user_id),
+            supabaseClient.from('profiles').select('nama').eq('id', email.user_id).maybeSingle(),
+          ]);
+
+          recipient = recipient ?? authUser?.user?.email ?? null;
+          variables.name = variables.name ?? profile?.nama ?? 'Sahabat Circle';
+        }
+
+        if (!recipient) {
+          throw new Error('Recipient email not found');
+        }
+
+        const messageId = await transport.send(recipient, renderStoredEmail(email.template, variables));
+
+        await supabaseClient
+          .from('email_outbox')
+          .update({
+            status: 'sent',
+            recipient,
+            transport: transport.name,
+            provider_message_id: messageId,
+            last_error: null,
+            sent_at: new Date().toISOString(),
+          })
+          .eq('id', email.id);
+
+        summary.sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const exhausted = email.attempts >= email.max_attempts;
+        const delayMinutes = Math.min(BACKOFF_BASE_MINUTES * 2 ** (email.attempts - 1), BACKOFF_MAX_MINUTES);
+
+        console.error(`Email ${email.id} (${email.template}) attempt ${email.attempts} failed:`, message);
+
+        await supabaseClient
+          .from('email_outbox')
+          .update({
+            status: exhausted ? 'failed' : 'pending',
+            recipient,
+            transport: transport.name,
+            last_error: message,
+            next_attempt_at: new Date(Date.now() + delayMinutes * 60_000).toISOString(),
+          })
+          .eq('id', email.id);
+
+        if (exhausted) {
+          summary.failed++;
+        } else {
+          summary.retrying++;
+        }
+      }
+    }
+
+    console.log('Email worker finished:', summary);
+    return jsonResponse({ status: 'success', ...summary }, 200);
+
+  } catch (error) {
+    console.error('Email worker error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to deliver emails'
+    }, 500);
+  }
+});
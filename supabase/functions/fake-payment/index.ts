@@ -0,0 +1,82 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { buildFakeNotification, type FakeOutcome } from "../_shared/fake-provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface FakePaymentRequest {
+  order_id: string;
+  outcome: FakeOutcome;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Stands in for the Snap popup when PAYMENT_PROVIDER=fake: the customer picks an
+// outcome and a signed notification goes through the real webhook.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (Deno.env.get("PAYMENT_PROVIDER") !== "fake") {
+      return jsonResponse({ error: 'Fake payments are disabled' }, 404);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token ?? "");
+    if (authError || !user) {
+      return jsonResponse({ error: 'User not authenticated' }, 401);
+    }
+
+    const { order_id, outcome }: FakePaymentRequest = await req.json();
+    if (!order_id || !['success', 'pending', 'failure', 'challenge'].includes(outcome)) {
+      return jsonResponse({ error: 'order_id and a valid outcome are required' }, 400);
+    }
+
+    const { data: transaction } = await supabaseClient
+      .from('transactions')
+      .select('amount, auto_renew')
+      .eq('midtrans_order_id', order_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!transaction) {
+      return jsonResponse({ error: 'Transaction not found' }, 404);
+    }
+
+    console.log(`Simulating ${outcome} for ${order_id}`);
+    const notification = await buildFakeNotification(order_id, transaction.amount, outcome, transaction.auto_renew);
+
+    const { data, error } = await supabaseClient.functions.invoke('midtrans-webhook', {
+      body: notification
+    });
+
+    if (error) {
+      console.error('Webhook rejected fake notification:', error);
+      throw new Error('Failed to process fake payment');
+    }
+
+    return jsonResponse({ status: notification.transaction_status, webhook: data }, 200);
+
+  } catch (error) {
+    console.error('Fake payment error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to simulate payment'
+    }, 500);
+  }
+});
@@ -1,11 +1,23 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  applyPaymentNotification,
+  sendPaymentReviewEmail,
+  sendRenewalFailedEmail,
+} from "../_shared/payments.ts";
+import { getPaymentProvider, InvalidNotificationError } from "../_shared/payment-provider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -13,8 +25,8 @@ serve(async (req) => {
   }
 
   try {
-    console.log('Received Midtrans webhook');
-    
+    console.log('Received payment notification');
+
     // Create Supabase client with service role key
     const supabaseClient = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
@@ -22,130 +34,97 @@ serve(async (req) => {
       { auth: { persistSession: false } }
     );
 
+    const provider = getPaymentProvider(supabaseClient);
+
     const payload = await req.json();
     console.log('Webhook payload:', payload);
 
-    const {
-      order_id,
-      transaction_status,
-      transaction_id,
-      payment_type,
-      fraud_status
-    } = payload;
-
-    // Validate required fields
-    if (!order_id || !transaction_status) {
-      throw new Error('Missing required fields in webhook payload');
+    // Reject malformed notifications and ones not signed by the provider
+    let notification;
+    try {
+      notification = await provider.parseNotification(payload);
+    } catch (error) {
+      if (error instanceof InvalidNotificationError) {
+        console.error(`Rejected notification for ${payload.order_id}: ${error.message}`);
+        return jsonResponse({ error: error.message }, error.status);
+      }
+      throw error;
     }
 
+    const { order_id, transaction_id, transaction_status, gross_amount } = notification;
+
     // Get transaction from database
     const { data: transaction, error: fetchError } = await supabaseClient
       .from('transactions')
       .select('*')
       .eq('midtrans_order_id', order_id)
-      .single();
+      .maybeSingle();
 
-    if (fetchError || !transaction) {
+    if (fetchError) {
+      console.error('Failed to fetch transaction:', fetchError);
+      throw new Error('Failed to fetch transaction');
+    }
+
+    if (!transaction) {
       console.error('Transaction not found:', order_id);
-      throw new Error('Transaction not found');
+      return jsonResponse({ error: 'Transaction not found' }, 404);
     }
 
-    let status = 'pending';
-    let shouldUpgradeUser = false;
+    // The amount the provider collected must match what we charged
+    if (Number(gross_amount) !== transaction.amount) {
+      console.error(`Amount mismatch for ${order_id}: expected ${transaction.amount}, got ${gross_amount}`);
+      return jsonResponse({ error: 'Gross amount does not match transaction' }, 400);
+    }
 
-    // Determine transaction status based on Midtrans response
-    if (transaction_status === 'capture') {
-      if (fraud_status === 'accept') {
-        status = 'paid';
-        shouldUpgradeUser = true;
-      }
-    } else if (transaction_status === 'settlement') {
-      status = 'paid';
-      shouldUpgradeUser = true;
-    } else if (transaction_status === 'pending') {
-      status = 'pending';
-    } else if (['deny', 'expire', 'cancel'].includes(transaction_status)) {
-      status = 'failed';
+    // Log the event, advance the transaction and grant premium in one database transaction
+    const result = await applyPaymentNotification(supabaseClient, notification);
+
+    if (result.duplicate) {
+      console.log('Duplicate notification ignored:', transaction_id, transaction_status);
+      return jsonResponse({ status: 'success', message: 'Notification already processed' }, 200);
     }
 
-    // Update transaction record
-    const { error: updateError } = await supabaseClient
-      .from('transactions')
-      .update({
-        status,
-        midtrans_transaction_id: transaction_id,
-        payment_type,
-        updated_at: new Date().toISOString()
-      })
-      .eq('midtrans_order_id', order_id);
-
-    if (updateError) {
-      console.error('Failed to update transaction:', updateError);
-      throw new Error('Failed to update transaction');
+    console.log(`Transaction ${order_id} is now ${result.status}`);
+
+    // The welcome, gift code and refund emails were queued with the notification,
+    // so a retry after a failure here cannot lose them
+    if (result.upgraded) {
+      console.log('User upgraded to premium successfully:', transaction.user_id);
     }
 
-    // If payment is successful, upgrade user to premium
-    if (shouldUpgradeUser) {
-      console.log('Upgrading user to premium:', transaction.user_id);
-      
-      // Calculate premium expiry date
-      const now = new Date();
-      const premiumUntil = new Date(now);
-      
-      if (transaction.paket === 'monthly') {
-        premiumUntil.setMonth(premiumUntil.getMonth() + 1);
-      } else if (transaction.paket === 'yearly') {
-        premiumUntil.setFullYear(premiumUntil.getFullYear() + 1);
-      }
+    if (result.organization) {
+      console.log(`License for ${result.organization.organization_name} issued with ${result.organization.seats} seats`);
+    }
 
-      // Update user profile to premium
-      const { error: profileError } = await supabaseClient
-        .from('profiles')
-        .update({
-          role: 'premium',
-          premium_until: premiumUntil.toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', transaction.user_id);
-
-      if (profileError) {
-        console.error('Failed to upgrade user profile:', profileError);
-        throw new Error('Failed to upgrade user to premium');
-      }
+    if (result.gift) {
+      console.log(`Gift ${result.gift.code} issued for ${result.gift.recipient_email}`);
+    }
 
-      console.log('User upgraded to premium successfully');
-
-      // Send welcome email
-      try {
-        const emailResponse = await supabaseClient.functions.invoke('send-premium-email', {
-          body: { 
-            user_id: transaction.user_id,
-            paket: transaction.paket,
-            amount: transaction.amount
-          }
-        });
-        console.log('Welcome email sent:', emailResponse);
-      } catch (emailError) {
-        console.error('Failed to send welcome email:', emailError);
-        // Don't throw error for email failure, as payment processing is successful
-      }
+    if (result.referral) {
+      console.log(`Referrer ${result.referral.referrer_id} earned ${result.referral.reward_days} premium days`);
+    }
+
+    if (result.renewal) {
+      console.log(`Auto renewal of ${transaction.user_id} is now ${result.renewal.status}`);
+      await sendRenewalFailedEmail(supabaseClient, result.renewal);
+    }
+
+    // A challenged card payment waits for an admin in the review queue
+    await sendPaymentReviewEmail(supabaseClient, transaction, result);
+
+    if (result.refund) {
+      console.log(`Order ${order_id} ${result.refund.status}, ${result.refund.refunded_amount} of ${result.refund.amount} returned`);
     }
 
-    return new Response(JSON.stringify({ 
+    return jsonResponse({
       status: 'success',
-      message: 'Webhook processed successfully' 
-    }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 200,
-    });
+      message: 'Webhook processed successfully'
+    }, 200);
 
   } catch (error) {
     console.error('Webhook processing error:', error);
-    return new Response(JSON.stringify({ 
-      error: error.message || 'Failed to process webhook' 
-    }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 500,
-    });
+    return jsonResponse({
+      error: error.message || 'Failed to process webhook'
+    }, 500);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { enqueueEmail } from "../_shared/email-outbox.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface OrganizationMemberRequest {
+  action: 'invite' | 'revoke';
+  organization_id?: string;
+  email?: string;
+  member_id?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // Ownership is checked by the database functions against this user
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: 'Authorization header required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+    if (authError || !user) {
+      console.error("Authentication error:", authError);
+      return jsonResponse({ error: 'User not authenticated' }, 401);
+    }
+
+    const { action, organization_id, email, member_id }: OrganizationMemberRequest = await req.json();
+
+    if (action === 'invite') {
+      if (!organization_id || !email) {
+        return jsonResponse({ error: 'organization_id and email are required' }, 400);
+      }
+
+      const { data: member, error: inviteError } = await supabaseClient
+        .rpc('invite_organization_member', {
+          _organization_id: organization_id,
+          _email: email,
+          _actor_id: user.id
+        });
+
+      if (inviteError) {
+        console.error('Failed to invite member:', inviteError);
+        return jsonResponse({ error: inviteError.message }, 400);
+      }
+
+      console.log(`Seat in ${organization_id} assigned to ${member.email} by ${user.id}`);
+
+      // The seat is already assigned; a failed email must not undo it
+      const { data: inviter } = await supabaseClient
+        .from('profiles')
+        .select('nama')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      await enqueueEmail(supabaseClient, {
+        template: 'organization_invite',
+        recipient: member.email,
+        variables: {
+          email: member.email,
+          has_account: member.has_account,
+          organization_name: member.organization_name,
+          inviter_name: inviter?.nama || 'Admin organisasi',
+          license_ends_at: member.license_ends_at
+        }
+      });
+
+      return jsonResponse(member, 200);
+    }
+
+    if (action === 'revoke') {
+      if (!member_id) {
+        return jsonResponse({ error: 'member_id is required' }, 400);
+      }
+
+      const { error: revokeError } = await supabaseClient
+        .rpc('revoke_organization_member', {
+          _member_id: member_id,
+          _actor_id: user.id
+        });
+
+      if (revokeError) {
+        console.error('Failed to revoke member:', revokeError);
+        return jsonResponse({ error: revokeError.message }, 400);
+      }
+
+      console.log(`Seat ${member_id} revoked by ${user.id}`);
+      return jsonResponse({ success: true }, 200);
+    }
+
+    return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+
+  } catch (error) {
+    console.error('Organization member error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to process request'
+    }, 500);
+  }
+});
@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = Number(Deno.env.get("EXPIRY_BATCH_SIZE") ?? "100");
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Reminds members 7, 3 and 1 days before premium ends and downgrades them once
+// it has. The claim functions record every email and queue it in the same
+// transaction, so a rerun never sends one twice and none is claimed unsent.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    // Only the scheduler (or an operator) holding the service role key may run this
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const [remindersResult, expiredResult] = await Promise.all([
+      supabaseClient.rpc('claim_premium_reminders', { _limit: BATCH_SIZE }),
+      supabaseClient.rpc('claim_expired_premium', { _limit: BATCH_SIZE }),
+    ]);
+
+    if (remindersResult.error || expiredResult.error) {
+      console.error('Failed to claim expiry emails:', remindersResult.error || expiredResult.error);
+      throw new Error('Failed to claim expiry emails');
+    }
+
+    const summary = {
+      reminded: remindersResult.data?.length ?? 0,
+      ended: expiredResult.data?.length ?? 0,
+    };
+
+    console.log('Premium expiry finished:', summary);
+    return jsonResponse({ status: 'success', ...summary }, 200);
+
+  } catch (error) {
+    console.error('Premium expiry error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to process premium expiry'
+    }, 500);
+  }
+});
@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getPaymentProvider } from "../_shared/payment-provider.ts";
+import {
+  applyPaymentNotification,
+  sendPaymentReviewEmail,
+  sendRenewalFailedEmail,
+} from "../_shared/payments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Orders younger than this are left to the webhook
+const STALE_AFTER_MINUTES = Number(Deno.env.get("RECONCILE_STALE_AFTER_MINUTES") ?? "15");
+const BATCH_SIZE = Number(Deno.env.get("RECONCILE_BATCH_SIZE") ?? "100");
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    // Only the scheduler (or an operator) holding the service role key may run this
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const provider = getPaymentProvider(supabaseClient);
+
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MINUTES * 60 * 1000).toISOString();
+
+    const { data: transactions, error: fetchError } = await supabaseClient
+      .from('transactions')
+      .select('*')
+      .eq('status', 'pending')
+      .lt('created_at', staleBefore)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('Failed to fetch pending transactions:', fetchError);
+      throw new Error('Failed to fetch pending transactions');
+    }
+
+    console.log(`Reconciling ${transactions.length} pending transactions`);
+
+    const summary = { checked: 0, updated: 0, upgraded: 0, expired: 0, failed: 0 };
+
+    for (const transaction of transactions) {
+      summary.checked++;
+
+      try {
+        const notification = await provider.queryStatus(transaction.midtrans_order_id);
+
+        // The provider never saw a payment attempt; give up once the session is over
+        if (!notification) {
+          const { data: expired, error: expireError } = await supabaseClient
+            .rpc('expire_transaction', { _transaction_id: transaction.id });
+
+          if (expireError) throw expireError;
+          if (expired) {
+            console.log('Expired unpaid order:', transaction.midtrans_order_id);
+            summary.expired++;
+          }
+          continue;
+        }
+
+        if (Number(notification.gross_amount) !== transaction.amount) {
+          console.error(`Amount mismatch for ${transaction.midtrans_order_id}: expected ${transaction.amount}, got ${notification.gross_amount}`);
+          summary.failed++;
+          continue;
+        }
+
+        const result = await applyPaymentNotification(supabaseClient, notification);
+
+        if (!result.duplicate && result.status !== transaction.status) {
+          console.log(`Transaction ${transaction.midtrans_order_id} is now ${result.status}`);
+          summary.updated++;
+        }
+
+        // The welcome and gift emails are queued with the payment itself
+        if (result.upgraded || result.organization) {
+          summary.upgraded++;
+        }
+
+        if (result.renewal) {
+          await sendRenewalFailedEmail(supabaseClient, result.renewal);
+        }
+
+        await sendPaymentReviewEmail(supabaseClient, transaction, result);
+      } catch (error) {
+        // One bad order must not stop the rest of the batch
+        console.error(`Failed to reconcile ${transaction.midtrans_order_id}:`, error);
+        summary.failed++;
+      }
+    }
+
+    console.log('Reconciliation finished:', summary);
+    return jsonResponse({ status: 'success', ...summary }, 200);
+
+  } catch (error) {
+    console.error('Reconciliation error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to reconcile payments'
+    }, 500);
+  }
+});
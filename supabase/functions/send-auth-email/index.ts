@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Webhook } from "https://esm.sh/standardwebhooks@1.0.0";
+import { renderEmail } from "../_shared/email-templates.ts";
+import { getEmailTransport } from "../_shared/email-transport.ts";
+
+// Payload of the Supabase Auth "send email" hook
+interface AuthEmailHook {
+  user: {
+    email: string;
+    user_metadata?: { nama?: string };
+  };
+  email_data: {
+    token_hash: string;
+    redirect_to: string;
+    email_action_type: string;
+    site_url: string;
+  };
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+    status,
+  });
+
+// Supabase Auth calls this instead of sending its own emails, so signup
+// confirmations and password resets share the layout of every other email.
+serve(async (req) => {
+  try {
+    const payload = await req.text();
+
+    // The hook secret is shown as "v1,whsec_<base64>"; the verifier wants the base64 part
+    const secret = (Deno.env.get("SEND_EMAIL_HOOK_SECRET") ?? "").replace("v1,whsec_", "");
+    let hook: AuthEmailHook;
+    try {
+      hook = new Webhook(secret).verify(payload, Object.fromEntries(req.headers)) as AuthEmailHook;
+    } catch (verifyError) {
+      console.error('Invalid auth hook signature:', verifyError);
+      return jsonResponse({ error: { http_code: 401, message: 'Invalid signature' } }, 401);
+    }
+
+    const { user, email_data } = hook;
+    const verifyUrl = `${Deno.env.get("SUPABASE_URL")}/auth/v1/verify?token=${email_data.token_hash}`
+      + `&type=${email_data.email_action_type}&redirect_to=${encodeURIComponent(email_data.redirect_to || email_data.site_url)}`;
+
+    const vars = { name: user.user_metadata?.nama || 'Sahabat Circle', url: verifyUrl };
+    const email = email_data.email_action_type === 'signup'
+      ? renderEmail('confirm_signup', vars)
+      : email_data.email_action_type === 'recovery'
+        ? renderEmail('password_reset', vars)
+        : renderEmail('email_link', vars);
+
+    // Sent right away rather than queued: the link is short-lived and carries a token
+    const emailId = await getEmailTransport().send(user.email, email);
+    console.log(`Auth ${email_data.email_action_type} email sent:`, emailId);
+
+    return jsonResponse({}, 200);
+
+  } catch (error) {
+    console.error('Failed to send auth email:', error);
+    return jsonResponse({
+      error: { http_code: 500, message: error.message || 'Failed to send email' }
+    }, 500);
+  }
+});
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = Number(Deno.env.get("TRIAL_BATCH_SIZE") ?? "100");
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Ends free trials that ran out and asks the members who did not subscribe
+// during the trial to pick a package. claim_ended_trials() hands out each
+// trial once and queues its email in the same transaction, so a rerun never
+// sends the same email twice.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    // Only the scheduler (or an operator) holding the service role key may run this
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const { data, error: claimError } = await supabaseClient
+      .rpc('claim_ended_trials', { _limit: BATCH_SIZE });
+
+    if (claimError) {
+      console.error('Failed to claim ended trials:', claimError);
+      throw new Error('Failed to claim ended trials');
+    }
+
+    const summary = { notified: data?.length ?? 0 };
+
+    console.log('Trial expiry finished:', summary);
+    return jsonResponse({ status: 'success', ...summary }, 200);
+
+  } catch (error) {
+    console.error('Trial expiry error:', error);
+    return jsonResponse({
+      error: error.message || 'Failed to process ended trials'
+    }, 500);
+  }
+});
@@ -0,0 +1,141 @@
+-- Append-only log of verified Midtrans notifications
+CREATE TABLE public.payment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id TEXT NOT NULL REFERENCES public.transactions(midtrans_order_id) ON DELETE RESTRICT, -- orders with logged payments are kept
+  midtrans_transaction_id TEXT NOT NULL,
+  transaction_status TEXT NOT NULL,
+  fraud_status TEXT,
+  status_code TEXT,
+  gross_amount TEXT,
+  payment_type TEXT,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per Midtrans transaction_id + status, so replayed notifications are detected.
+-- fraud_status is part of the key because an approved challenge arrives as a second 'capture'.
+CREATE UNIQUE INDEX payment_events_dedupe_idx
+ON public.payment_events (midtrans_transaction_id, transaction_status, COALESCE(fraud_status, ''));
+
+CREATE INDEX payment_events_order_id_idx ON public.payment_events (order_id);
+
+-- Enable Row Level Security (only the service role writes here)
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment events"
+ON public.payment_events
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Keep the log append-only, even for the service role
+CREATE OR REPLACE FUNCTION public.prevent_payment_event_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RAISE EXCEPTION 'payment_events is append-only (% rejected)', TG_OP;
+END;
+$function$;
+
+CREATE TRIGGER payment_events_append_only
+BEFORE UPDATE OR DELETE ON public.payment_events
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_payment_event_mutation();
+
+-- Record when a transaction was first paid
+ALTER TABLE public.transactions ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.transactions
+SET paid_at = updated_at
+WHERE status = 'paid' AND paid_at IS NULL;
+
+-- Apply a verified Midtrans notification atomically: log it, move the transaction
+-- forward and grant premium exactly once. Replays and out-of-order notifications
+-- never downgrade a paid transaction.
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  -- Map Midtrans status to our transaction status
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE WHEN _fraud_status = 'accept' THEN 'paid' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Only pending orders move; a failed order may still settle, a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (_tx.status = 'pending' OR (_tx.status = 'failed' AND _next_status = 'paid')) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false);
+  END IF;
+
+  _premium_until := CASE
+    WHEN _tx.paket = 'yearly' THEN now() + INTERVAL '1 year'
+    ELSE now() + INTERVAL '1 month'
+  END;
+
+  UPDATE public.profiles
+  SET role = 'premium',
+      premium_until = _premium_until
+  WHERE id = _tx.user_id;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_payment_notification(JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,100 @@
+-- Snapshot the purchased package onto each transaction
+ALTER TABLE public.transactions
+  ADD COLUMN package_id UUID REFERENCES public.premium_packages(id) ON DELETE SET NULL,
+  ADD COLUMN package_name TEXT,
+  ADD COLUMN duration_months INTEGER;
+
+-- paket ('monthly' | 'yearly') is kept only for legacy rows
+ALTER TABLE public.transactions ALTER COLUMN paket DROP NOT NULL;
+
+UPDATE public.transactions
+SET duration_months = CASE WHEN paket = 'yearly' THEN 12 ELSE 1 END,
+    package_name = CASE WHEN paket = 'yearly' THEN '1 Tahun' ELSE '1 Bulan' END
+WHERE duration_months IS NULL;
+
+ALTER TABLE public.transactions
+  ALTER COLUMN duration_months SET NOT NULL,
+  ALTER COLUMN package_name SET NOT NULL,
+  ADD CONSTRAINT transactions_duration_months_check CHECK (duration_months > 0);
+
+-- Grant exactly the purchased duration
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  -- Map Midtrans status to our transaction status
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE WHEN _fraud_status = 'accept' THEN 'paid' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Only pending orders move; a failed order may still settle, a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (_tx.status = 'pending' OR (_tx.status = 'failed' AND _next_status = 'paid')) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false);
+  END IF;
+
+  _premium_until := now() + make_interval(months => _tx.duration_months);
+
+  UPDATE public.profiles
+  SET role = 'premium',
+      premium_until = _premium_until
+  WHERE id = _tx.user_id;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
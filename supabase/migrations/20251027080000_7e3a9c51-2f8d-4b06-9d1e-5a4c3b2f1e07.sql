@@ -0,0 +1,311 @@
+-- Premium entitlement periods. Every grant (payment, admin, legacy) is a row here,
+-- and current_entitlement() is the only place that decides who is premium.
+CREATE TABLE public.subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ends_at TIMESTAMP WITH TIME ZONE, -- NULL means no expiry
+  source TEXT NOT NULL, -- 'payment', 'admin' or 'legacy'
+  transaction_id UUID UNIQUE REFERENCES public.transactions(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX subscriptions_user_id_idx ON public.subscriptions (user_id);
+
+-- Enable Row Level Security (writes go through the functions below)
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own subscriptions"
+ON public.subscriptions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all subscriptions"
+ON public.subscriptions
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Current premium state of a user. Callers may only look at themselves unless
+-- they are an admin, the service role or an internal (JWT-less) caller.
+CREATE OR REPLACE FUNCTION public.current_entitlement(_user_id UUID)
+RETURNS TABLE (is_premium BOOLEAN, premium_until TIMESTAMP WITH TIME ZONE, source TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH live AS (
+    SELECT s.starts_at, s.ends_at, s.source
+    FROM public.subscriptions s
+    WHERE s.user_id = _user_id
+      AND s.revoked_at IS NULL
+      AND (s.ends_at IS NULL OR s.ends_at > now())
+      AND (
+        auth.role() IS NULL
+        OR auth.role() = 'service_role'
+        OR _user_id = auth.uid()
+        OR public.has_role(auth.uid(), 'admin')
+      )
+  )
+  SELECT
+    EXISTS (SELECT 1 FROM live WHERE live.starts_at <= now()),
+    CASE
+      WHEN EXISTS (SELECT 1 FROM live WHERE live.ends_at IS NULL) THEN NULL
+      ELSE (SELECT max(live.ends_at) FROM live)
+    END,
+    (SELECT live.source FROM live WHERE live.starts_at <= now() ORDER BY live.starts_at DESC LIMIT 1)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_entitlement(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.current_entitlement(UUID) TO authenticated, service_role;
+
+-- Entitlements of every user, for the admin panel
+CREATE OR REPLACE FUNCTION public.list_entitlements()
+RETURNS TABLE (user_id UUID, is_premium BOOLEAN, premium_until TIMESTAMP WITH TIME ZONE, source TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, e.is_premium, e.premium_until, e.source
+  FROM public.profiles p
+  CROSS JOIN LATERAL public.current_entitlement(p.id) e
+  WHERE public.has_role(auth.uid(), 'admin')
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_entitlements() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_entitlements() TO authenticated;
+
+-- Mirror the entitlement into the legacy profiles.role/premium_until columns and
+-- user_roles so older readers stay consistent. Admins keep their admin role.
+CREATE OR REPLACE FUNCTION public.sync_premium_role(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _is_premium BOOLEAN;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _is_admin BOOLEAN := public.has_role(_user_id, 'admin');
+BEGIN
+  SELECT e.is_premium, e.premium_until INTO _is_premium, _premium_until
+  FROM public.current_entitlement(_user_id) e;
+
+  UPDATE public.profiles
+  SET role = CASE
+        WHEN _is_admin THEN 'admin'::user_role
+        WHEN _is_premium THEN 'premium'::user_role
+        ELSE 'biasa'::user_role
+      END,
+      premium_until = _premium_until
+  WHERE id = _user_id;
+
+  IF NOT _is_admin THEN
+    DELETE FROM public.user_roles
+    WHERE user_id = _user_id AND role IN ('biasa', 'premium');
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, CASE WHEN _is_premium THEN 'premium'::app_role ELSE 'biasa'::app_role END);
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_premium_role(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_subscription_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  PERFORM public.sync_premium_role(NEW.user_id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_subscription_change
+AFTER INSERT OR UPDATE ON public.subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_subscription_change();
+
+-- Grant premium for a number of months and return the new expiry
+CREATE OR REPLACE FUNCTION public.grant_premium(
+  _user_id UUID,
+  _months INTEGER,
+  _source TEXT,
+  _transaction_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _starts_at TIMESTAMP WITH TIME ZONE := now();
+  _ends_at TIMESTAMP WITH TIME ZONE := now() + make_interval(months => _months);
+BEGIN
+  INSERT INTO public.subscriptions (user_id, starts_at, ends_at, source, transaction_id, note)
+  VALUES (_user_id, _starts_at, _ends_at, _source, _transaction_id, _note);
+
+  RETURN _ends_at;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_premium(UUID, INTEGER, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Admin tool: set a user's role and premium access in one call.
+-- 'premium' with a NULL date grants premium without expiry.
+CREATE OR REPLACE FUNCTION public.admin_update_user_access(
+  _user_id UUID,
+  _role app_role,
+  _premium_until TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can update user access';
+  END IF;
+
+  IF _role = 'admin' THEN
+    DELETE FROM public.user_roles WHERE user_id = _user_id;
+    INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, 'admin');
+    PERFORM public.sync_premium_role(_user_id);
+    RETURN;
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id AND role = 'admin';
+
+  -- Replace whatever premium time is left with the admin's decision
+  UPDATE public.subscriptions
+  SET revoked_at = now()
+  WHERE user_id = _user_id
+    AND revoked_at IS NULL
+    AND (ends_at IS NULL OR ends_at > now());
+
+  IF _role = 'premium' AND (_premium_until IS NULL OR _premium_until > now()) THEN
+    INSERT INTO public.subscriptions (user_id, ends_at, source, created_by)
+    VALUES (_user_id, _premium_until, 'admin', auth.uid());
+  END IF;
+
+  PERFORM public.sync_premium_role(_user_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_update_user_access(UUID, app_role, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_update_user_access(UUID, app_role, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Carry over premium access granted before this migration
+INSERT INTO public.subscriptions (user_id, starts_at, ends_at, source, note)
+SELECT p.id, p.updated_at, p.premium_until, 'legacy', 'Migrated from profiles.premium_until'
+FROM public.profiles p
+WHERE p.premium_until > now()
+   OR (
+     p.premium_until IS NULL
+     AND (p.role = 'premium' OR public.has_role(p.id, 'premium'))
+   );
+
+-- Bring profiles.role and user_roles in line for everyone, including expired members
+SELECT public.sync_premium_role(p.id) FROM public.profiles p;
+
+-- Premium content is visible to admins and entitled users
+DROP POLICY IF EXISTS "Premium users can view all content" ON public.educations;
+
+CREATE POLICY "Premium users can view all content"
+ON public.educations
+FOR SELECT
+TO authenticated
+USING (
+  (is_premium = false) OR
+  (public.has_role(auth.uid(), 'admin')) OR
+  (SELECT e.is_premium FROM public.current_entitlement(auth.uid()) e)
+);
+
+-- Paid notifications now grant premium through subscriptions
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  -- Map Midtrans status to our transaction status
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE WHEN _fraud_status = 'accept' THEN 'paid' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Only pending orders move; a failed order may still settle, a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (_tx.status = 'pending' OR (_tx.status = 'failed' AND _next_status = 'paid')) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false);
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id);
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
@@ -0,0 +1,31 @@
+-- Renewals extend from the later of now and the current expiry, so members
+-- who renew early keep the days they already paid for.
+CREATE OR REPLACE FUNCTION public.grant_premium(
+  _user_id UUID,
+  _months INTEGER,
+  _source TEXT,
+  _transaction_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _current_until TIMESTAMP WITH TIME ZONE;
+  _starts_at TIMESTAMP WITH TIME ZONE;
+  _ends_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT e.premium_until INTO _current_until
+  FROM public.current_entitlement(_user_id) e;
+
+  _starts_at := GREATEST(now(), COALESCE(_current_until, now()));
+  _ends_at := _starts_at + make_interval(months => _months);
+
+  INSERT INTO public.subscriptions (user_id, starts_at, ends_at, source, transaction_id, note)
+  VALUES (_user_id, _starts_at, _ends_at, _source, _transaction_id, _note);
+
+  RETURN _ends_at;
+END;
+$function$;
@@ -0,0 +1,66 @@
+-- Sequential invoice numbers for paid orders
+CREATE SEQUENCE public.invoice_number_seq;
+
+ALTER TABLE public.transactions ADD COLUMN invoice_number TEXT UNIQUE;
+
+-- Number an order the first time it becomes paid, e.g. INV-2025-000042.
+-- Orders are always created pending, so only an update can make one paid.
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'paid' AND NEW.invoice_number IS NULL THEN
+    NEW.invoice_number := 'INV-'
+      || to_char(COALESCE(NEW.paid_at, now()) AT TIME ZONE 'Asia/Jakarta', 'YYYY')
+      || '-'
+      || lpad(nextval('public.invoice_number_seq')::text, 6, '0');
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER assign_transaction_invoice_number
+BEFORE UPDATE OF status ON public.transactions
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM 'paid' AND NEW.status = 'paid')
+EXECUTE FUNCTION public.assign_invoice_number();
+
+-- Backfill orders that were paid before numbering existed, oldest first
+DO $$
+DECLARE
+  _tx RECORD;
+BEGIN
+  FOR _tx IN
+    SELECT id FROM public.transactions
+    WHERE status = 'paid' AND invoice_number IS NULL
+    ORDER BY COALESCE(paid_at, updated_at), created_at
+  LOOP
+    UPDATE public.transactions
+    SET invoice_number = 'INV-'
+      || to_char(COALESCE(paid_at, now()) AT TIME ZONE 'Asia/Jakarta', 'YYYY')
+      || '-'
+      || lpad(nextval('public.invoice_number_seq')::text, 6, '0')
+    WHERE id = _tx.id;
+  END LOOP;
+END;
+$$;
+
+-- Orders are advanced by the webhook only; members must not be able to
+-- mark their own orders paid and obtain an invoice for them. Checkout creates
+-- orders with the service role, so members need no insert access either: a
+-- row they wrote themselves could claim any status.
+DROP POLICY IF EXISTS "Insert transactions for authenticated users and service role" ON public.transactions;
+
+CREATE POLICY "Insert transactions via service role"
+ON public.transactions
+FOR INSERT
+WITH CHECK (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Update transactions via service role and webhook" ON public.transactions;
+
+CREATE POLICY "Update transactions via service role"
+ON public.transactions
+FOR UPDATE
+USING (auth.jwt() ->> 'role' = 'service_role');
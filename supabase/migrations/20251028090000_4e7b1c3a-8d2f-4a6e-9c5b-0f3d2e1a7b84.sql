@@ -0,0 +1,229 @@
+-- Discount codes for premium checkout
+CREATE TABLE public.vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL,
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value INTEGER NOT NULL CHECK (discount_value > 0),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  max_uses_per_user INTEGER CHECK (max_uses_per_user > 0),
+  -- NULL or empty means the voucher applies to every package
+  package_ids UUID[],
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT vouchers_percentage_check CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CONSTRAINT vouchers_window_check CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+-- Codes are matched case-insensitively
+CREATE UNIQUE INDEX vouchers_code_idx ON public.vouchers (upper(code));
+
+ALTER TABLE public.vouchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage vouchers"
+ON public.vouchers
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_vouchers_updated_at
+BEFORE UPDATE ON public.vouchers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record the discount on each order
+ALTER TABLE public.transactions
+  ADD COLUMN voucher_id UUID REFERENCES public.vouchers(id) ON DELETE SET NULL,
+  ADD COLUMN voucher_code TEXT,
+  ADD COLUMN original_amount INTEGER,
+  ADD COLUMN discount_amount INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.transactions SET original_amount = amount WHERE original_amount IS NULL;
+
+ALTER TABLE public.transactions ALTER COLUMN original_amount SET NOT NULL;
+
+CREATE INDEX transactions_voucher_id_idx ON public.transactions (voucher_id);
+
+-- Price a package for a user with an optional voucher. A voucher use counts
+-- while its order is pending or paid, so abandoned or failed orders free it up.
+CREATE OR REPLACE FUNCTION public.evaluate_voucher(_code TEXT, _package_id UUID, _user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _voucher public.vouchers%ROWTYPE;
+  _total_uses INTEGER;
+  _user_uses INTEGER;
+  _discount INTEGER;
+BEGIN
+  SELECT * INTO _package
+  FROM public.premium_packages
+  WHERE id = _package_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Paket premium tidak ditemukan');
+  END IF;
+
+  IF _code IS NULL OR btrim(_code) = '' THEN
+    RETURN jsonb_build_object(
+      'valid', true,
+      'original_amount', _package.price,
+      'discount_amount', 0,
+      'final_amount', _package.price
+    );
+  END IF;
+
+  SELECT * INTO _voucher
+  FROM public.vouchers
+  WHERE upper(code) = upper(btrim(_code));
+
+  IF NOT FOUND OR NOT _voucher.is_active THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak valid');
+  END IF;
+
+  IF (_voucher.starts_at IS NOT NULL AND now() < _voucher.starts_at)
+     OR (_voucher.ends_at IS NOT NULL AND now() >= _voucher.ends_at) THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher sedang tidak berlaku');
+  END IF;
+
+  IF COALESCE(array_length(_voucher.package_ids, 1), 0) > 0
+     AND NOT (_package.id = ANY (_voucher.package_ids)) THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak berlaku untuk paket ini');
+  END IF;
+
+  SELECT count(*), count(*) FILTER (WHERE user_id = _user_id)
+  INTO _total_uses, _user_uses
+  FROM public.transactions
+  WHERE voucher_id = _voucher.id AND status IN ('pending', 'paid');
+
+  IF _voucher.max_uses IS NOT NULL AND _total_uses >= _voucher.max_uses THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kuota kode voucher sudah habis');
+  END IF;
+
+  IF _voucher.max_uses_per_user IS NOT NULL AND _user_uses >= _voucher.max_uses_per_user THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Anda sudah menggunakan kode voucher ini');
+  END IF;
+
+  _discount := CASE
+    WHEN _voucher.discount_type = 'percentage' THEN floor(_package.price * _voucher.discount_value / 100.0)::INTEGER
+    ELSE _voucher.discount_value
+  END;
+
+  -- Midtrans cannot charge zero, so a voucher never makes an order free
+  IF _discount >= _package.price THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak berlaku untuk paket ini');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'voucher_id', _voucher.id,
+    'code', _voucher.code,
+    'original_amount', _package.price,
+    'discount_amount', _discount,
+    'final_amount', _package.price - _discount
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_voucher(TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Price preview for the signed-in member on the pricing page
+CREATE OR REPLACE FUNCTION public.preview_voucher(_code TEXT, _package_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT public.evaluate_voucher(_code, _package_id, auth.uid());
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_voucher(TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_voucher(TEXT, UUID) TO authenticated;
+
+-- Price and insert a pending order in one step. The voucher row is locked so
+-- concurrent checkouts cannot exceed its usage limits.
+CREATE OR REPLACE FUNCTION public.create_checkout_transaction(
+  _user_id UUID,
+  _package_id UUID,
+  _order_id TEXT,
+  _voucher_code TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _quote JSONB;
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  IF _voucher_code IS NOT NULL AND btrim(_voucher_code) <> '' THEN
+    PERFORM 1 FROM public.vouchers
+    WHERE upper(code) = upper(btrim(_voucher_code))
+    FOR UPDATE;
+  END IF;
+
+  _quote := public.evaluate_voucher(_voucher_code, _package_id, _user_id);
+
+  IF NOT (_quote ->> 'valid')::BOOLEAN THEN
+    RAISE EXCEPTION '%', _quote ->> 'message';
+  END IF;
+
+  SELECT * INTO _package FROM public.premium_packages WHERE id = _package_id;
+
+  INSERT INTO public.transactions (
+    user_id, package_id, package_name, duration_months,
+    original_amount, discount_amount, amount,
+    voucher_id, voucher_code, midtrans_order_id, status
+  )
+  VALUES (
+    _user_id, _package.id, _package.name, _package.duration_months,
+    (_quote ->> 'original_amount')::INTEGER,
+    (_quote ->> 'discount_amount')::INTEGER,
+    (_quote ->> 'final_amount')::INTEGER,
+    (_quote ->> 'voucher_id')::UUID,
+    _quote ->> 'code',
+    _order_id,
+    'pending'
+  )
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_checkout_transaction(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Usage per voucher for the admin panel
+CREATE OR REPLACE FUNCTION public.list_voucher_usage()
+RETURNS TABLE(voucher_id UUID, paid_uses BIGINT, pending_uses BIGINT, total_discount BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view voucher usage';
+  END IF;
+
+  RETURN QUERY
+  SELECT t.voucher_id,
+         count(*) FILTER (WHERE t.status = 'paid'),
+         count(*) FILTER (WHERE t.status = 'pending'),
+         COALESCE(sum(t.discount_amount) FILTER (WHERE t.status = 'paid'), 0)
+  FROM public.transactions t
+  WHERE t.voucher_id IS NOT NULL
+  GROUP BY t.voucher_id;
+END;
+$function$;
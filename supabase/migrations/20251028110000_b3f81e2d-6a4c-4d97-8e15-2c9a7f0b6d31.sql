@@ -0,0 +1,80 @@
+-- Admins review every order in the transactions tab
+CREATE POLICY "Admins can view all transactions"
+ON public.transactions
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Who changed what, for actions taken outside the normal payment flow
+CREATE TABLE public.audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for system jobs
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX audit_logs_target_idx ON public.audit_logs (target_type, target_id);
+
+ALTER TABLE public.audit_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit logs"
+ON public.audit_logs
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Mark an order paid by hand (e.g. a bank transfer confirmed outside Midtrans),
+-- grant the purchased premium and record who did it and why
+CREATE OR REPLACE FUNCTION public.mark_transaction_paid(_transaction_id UUID, _actor_id UUID, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to mark a transaction paid';
+  END IF;
+
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _transaction_id;
+  END IF;
+
+  IF _tx.status = 'paid' THEN
+    RAISE EXCEPTION 'Transaction % is already paid', _tx.midtrans_order_id;
+  END IF;
+
+  UPDATE public.transactions
+  SET status = 'paid',
+      paid_at = now()
+  WHERE id = _tx.id;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id, btrim(_reason));
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _actor_id, 'transaction.mark_paid', 'transaction', _tx.id::text,
+    jsonb_build_object('order_id', _tx.midtrans_order_id, 'previous_status', _tx.status, 'reason', btrim(_reason))
+  );
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', 'paid',
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_transaction_paid(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,120 @@
+-- When the Snap session of an order stops accepting payment
+ALTER TABLE public.transactions ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.transactions
+SET expires_at = created_at + INTERVAL '1 day'
+WHERE expires_at IS NULL;
+
+CREATE INDEX transactions_pending_idx ON public.transactions (created_at) WHERE status = 'pending';
+
+-- Checkout now records the session expiry it asked Midtrans for
+DROP FUNCTION public.create_checkout_transaction(UUID, UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_checkout_transaction(
+  _user_id UUID,
+  _package_id UUID,
+  _order_id TEXT,
+  _voucher_code TEXT DEFAULT NULL,
+  _expiry_minutes INTEGER DEFAULT 1440
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _quote JSONB;
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  IF _voucher_code IS NOT NULL AND btrim(_voucher_code) <> '' THEN
+    PERFORM 1 FROM public.vouchers
+    WHERE upper(code) = upper(btrim(_voucher_code))
+    FOR UPDATE;
+  END IF;
+
+  _quote := public.evaluate_voucher(_voucher_code, _package_id, _user_id);
+
+  IF NOT (_quote ->> 'valid')::BOOLEAN THEN
+    RAISE EXCEPTION '%', _quote ->> 'message';
+  END IF;
+
+  SELECT * INTO _package FROM public.premium_packages WHERE id = _package_id;
+
+  INSERT INTO public.transactions (
+    user_id, package_id, package_name, duration_months,
+    original_amount, discount_amount, amount,
+    voucher_id, voucher_code, midtrans_order_id, status, expires_at
+  )
+  VALUES (
+    _user_id, _package.id, _package.name, _package.duration_months,
+    (_quote ->> 'original_amount')::INTEGER,
+    (_quote ->> 'discount_amount')::INTEGER,
+    (_quote ->> 'final_amount')::INTEGER,
+    (_quote ->> 'voucher_id')::UUID,
+    _quote ->> 'code',
+    _order_id,
+    'pending',
+    now() + make_interval(mins => _expiry_minutes)
+  )
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_checkout_transaction(UUID, UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Fail a pending order that Midtrans never heard of once its session is over.
+-- Orders Midtrans does know about follow its status through apply_payment_notification.
+CREATE OR REPLACE FUNCTION public.expire_transaction(_transaction_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _tx.status <> 'pending' OR _tx.expires_at IS NULL OR _tx.expires_at > now() THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.transactions SET status = 'failed' WHERE id = _tx.id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    NULL, 'transaction.expire', 'transaction', _tx.id::text,
+    jsonb_build_object('order_id', _tx.midtrans_order_id, 'expires_at', _tx.expires_at)
+  );
+
+  RETURN true;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_transaction(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Run reconcile-payments every 10 minutes. Requires the Vault secrets
+-- 'project_url' and 'service_role_key' to be created for this project.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'reconcile-payments',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/reconcile-payments',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,3 @@
+-- Let the payment pages follow an order live instead of asking the user to reload.
+-- Realtime applies the existing RLS policies, so users only receive their own rows.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.transactions;
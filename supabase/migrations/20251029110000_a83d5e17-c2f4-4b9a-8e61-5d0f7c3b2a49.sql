@@ -0,0 +1,531 @@
+-- Opt-in automatic renewal. subscriptions keeps the entitlement periods; this table
+-- keeps the saved payment method and the charge schedule, one row per member.
+CREATE TABLE public.auto_renewals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  package_id UUID NOT NULL REFERENCES public.premium_packages(id),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'past_due', 'canceled')),
+  payment_type TEXT NOT NULL, -- 'credit_card' or 'gopay'
+  payment_token TEXT NOT NULL, -- saved card token or GoPay payment option token
+  account_id TEXT, -- linked GoPay account
+  masked_account TEXT,
+  token_expires_at TIMESTAMP WITH TIME ZONE,
+  next_charge_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_charge_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  cancel_reason TEXT, -- 'user' or 'payment_failed'
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX auto_renewals_due_idx ON public.auto_renewals (next_charge_at) WHERE status <> 'canceled';
+
+-- Enable Row Level Security (writes go through the functions below). Without
+-- policies only the service role reads the table: a saved token can be charged
+-- by whoever holds it.
+ALTER TABLE public.auto_renewals ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.auto_renewals FROM anon, authenticated;
+
+-- Auto renewals as members and admins see them, without the payment token and
+-- linked account. The view runs as its owner, so it picks the rows itself.
+CREATE VIEW public.auto_renewal_details AS
+SELECT
+  id, user_id, package_id, status, payment_type, masked_account, token_expires_at, next_charge_at,
+  failed_attempts, last_charge_at, last_error, canceled_at, cancel_reason, created_at, updated_at
+FROM public.auto_renewals
+WHERE user_id = auth.uid() OR public.has_role(auth.uid(), 'admin');
+
+REVOKE ALL ON public.auto_renewal_details FROM anon, authenticated;
+GRANT SELECT ON public.auto_renewal_details TO authenticated;
+
+CREATE TRIGGER update_auto_renewals_updated_at
+BEFORE UPDATE ON public.auto_renewals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- auto_renew: the customer asked to save the payment method of this order.
+-- auto_renewal_id: the order is a renewal charged by charge-renewals.
+ALTER TABLE public.transactions
+  ADD COLUMN auto_renew BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN auto_renewal_id UUID REFERENCES public.auto_renewals(id) ON DELETE SET NULL;
+
+CREATE INDEX transactions_auto_renewal_id_idx ON public.transactions (auto_renewal_id) WHERE auto_renewal_id IS NOT NULL;
+
+-- Checkout records whether the customer opted in to auto-renew
+DROP FUNCTION public.create_checkout_transaction(UUID, UUID, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.create_checkout_transaction(
+  _user_id UUID,
+  _package_id UUID,
+  _order_id TEXT,
+  _voucher_code TEXT DEFAULT NULL,
+  _expiry_minutes INTEGER DEFAULT 1440,
+  _auto_renew BOOLEAN DEFAULT false
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _quote JSONB;
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  IF _voucher_code IS NOT NULL AND btrim(_voucher_code) <> '' THEN
+    PERFORM 1 FROM public.vouchers
+    WHERE upper(code) = upper(btrim(_voucher_code))
+    FOR UPDATE;
+  END IF;
+
+  _quote := public.evaluate_voucher(_voucher_code, _package_id, _user_id);
+
+  IF NOT (_quote ->> 'valid')::BOOLEAN THEN
+    RAISE EXCEPTION '%', _quote ->> 'message';
+  END IF;
+
+  SELECT * INTO _package FROM public.premium_packages WHERE id = _package_id;
+
+  INSERT INTO public.transactions (
+    user_id, package_id, package_name, duration_months,
+    original_amount, discount_amount, amount,
+    voucher_id, voucher_code, midtrans_order_id, status, expires_at, auto_renew
+  )
+  VALUES (
+    _user_id, _package.id, _package.name, _package.duration_months,
+    (_quote ->> 'original_amount')::INTEGER,
+    (_quote ->> 'discount_amount')::INTEGER,
+    (_quote ->> 'final_amount')::INTEGER,
+    (_quote ->> 'voucher_id')::UUID,
+    _quote ->> 'code',
+    _order_id,
+    'pending',
+    now() + make_interval(mins => _expiry_minutes),
+    _auto_renew
+  )
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_checkout_transaction(UUID, UUID, TEXT, TEXT, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Renewals are charged this long before the current premium period ends
+CREATE OR REPLACE FUNCTION public.renewal_charge_time(_premium_until TIMESTAMP WITH TIME ZONE)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _premium_until - INTERVAL '1 day'
+$$;
+
+-- Save the payment method of a paid opt-in order and schedule the next charge.
+-- Cards come with saved_token_id, tokenized GoPay with payment_option_token;
+-- other methods cannot be charged again, so nothing is saved for them.
+CREATE OR REPLACE FUNCTION public.enroll_auto_renewal(
+  _transaction_id UUID,
+  _payload JSONB,
+  _premium_until TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _payment_type TEXT;
+  _token TEXT;
+  _token_expires_at TIMESTAMP WITH TIME ZONE;
+  _renewal_id UUID;
+BEGIN
+  SELECT * INTO _tx FROM public.transactions WHERE id = _transaction_id;
+
+  IF NOT FOUND OR NOT _tx.auto_renew OR _premium_until IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF _payload ? 'saved_token_id' THEN
+    _payment_type := 'credit_card';
+    _token := _payload ->> 'saved_token_id';
+    -- Midtrans sends local time without a zone
+    _token_expires_at := (_payload ->> 'saved_token_id_expired_at')::TIMESTAMP AT TIME ZONE 'Asia/Jakarta';
+  ELSIF _payload ? 'payment_option_token' THEN
+    _payment_type := 'gopay';
+    _token := _payload ->> 'payment_option_token';
+  ELSE
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.auto_renewals (
+    user_id, package_id, status, payment_type, payment_token, account_id,
+    masked_account, token_expires_at, next_charge_at
+  )
+  VALUES (
+    _tx.user_id, _tx.package_id, 'active', _payment_type, _token, _payload ->> 'account_id',
+    COALESCE(_payload ->> 'masked_card', _payload ->> 'account_id'), _token_expires_at,
+    GREATEST(now(), public.renewal_charge_time(_premium_until))
+  )
+  ON CONFLICT (user_id) DO UPDATE
+  SET package_id = EXCLUDED.package_id,
+      status = 'active',
+      payment_type = EXCLUDED.payment_type,
+      payment_token = EXCLUDED.payment_token,
+      account_id = EXCLUDED.account_id,
+      masked_account = EXCLUDED.masked_account,
+      token_expires_at = EXCLUDED.token_expires_at,
+      next_charge_at = EXCLUDED.next_charge_at,
+      failed_attempts = 0,
+      last_error = NULL,
+      canceled_at = NULL,
+      cancel_reason = NULL
+  RETURNING id INTO _renewal_id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _tx.user_id, 'auto_renewal.enroll', 'auto_renewal', _renewal_id::text,
+    jsonb_build_object('order_id', _tx.midtrans_order_id, 'payment_type', _payment_type)
+  );
+
+  RETURN true;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.enroll_auto_renewal(UUID, JSONB, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Dunning: a failed renewal is retried after 1 and then 3 more days; the third
+-- failure cancels auto-renew. Returns what the member should be told.
+CREATE OR REPLACE FUNCTION public.record_renewal_failure(
+  _renewal_id UUID,
+  _transaction_id UUID,
+  _error TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _renewal public.auto_renewals%ROWTYPE;
+  _retry_days INTEGER[] := ARRAY[1, 3];
+  _attempts INTEGER;
+BEGIN
+  SELECT * INTO _renewal
+  FROM public.auto_renewals
+  WHERE id = _renewal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Auto renewal not found: %', _renewal_id;
+  END IF;
+
+  -- A charge that errored out before the provider answered never gets a notification
+  IF _transaction_id IS NOT NULL THEN
+    UPDATE public.transactions
+    SET status = 'failed'
+    WHERE id = _transaction_id AND status = 'pending';
+  END IF;
+
+  IF _renewal.status = 'canceled' THEN
+    RETURN jsonb_build_object('renewal_id', _renewal.id, 'user_id', _renewal.user_id, 'status', _renewal.status, 'notify', false);
+  END IF;
+
+  _attempts := _renewal.failed_attempts + 1;
+
+  IF _attempts > array_length(_retry_days, 1) THEN
+    UPDATE public.auto_renewals
+    SET status = 'canceled',
+        failed_attempts = _attempts,
+        last_error = _error,
+        canceled_at = now(),
+        cancel_reason = 'payment_failed'
+    WHERE id = _renewal.id
+    RETURNING * INTO _renewal;
+  ELSE
+    UPDATE public.auto_renewals
+    SET status = 'past_due',
+        failed_attempts = _attempts,
+        last_error = _error,
+        next_charge_at = now() + make_interval(days => _retry_days[_attempts])
+    WHERE id = _renewal.id
+    RETURNING * INTO _renewal;
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    NULL,
+    CASE WHEN _renewal.status = 'canceled' THEN 'auto_renewal.cancel' ELSE 'auto_renewal.charge_failed' END,
+    'auto_renewal', _renewal.id::text,
+    jsonb_build_object('transaction_id', _transaction_id, 'attempt', _attempts, 'error', _error)
+  );
+
+  RETURN jsonb_build_object(
+    'renewal_id', _renewal.id,
+    'user_id', _renewal.user_id,
+    'status', _renewal.status,
+    'failed_attempts', _renewal.failed_attempts,
+    'next_charge_at', CASE WHEN _renewal.status = 'past_due' THEN _renewal.next_charge_at END,
+    'last_error', _renewal.last_error,
+    'notify', true
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_renewal_failure(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create the pending order for a due renewal at the package's current price.
+-- The caller then charges the saved payment method for it.
+CREATE OR REPLACE FUNCTION public.start_renewal_charge(_renewal_id UUID, _order_id TEXT)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _renewal public.auto_renewals%ROWTYPE;
+  _package public.premium_packages%ROWTYPE;
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _renewal
+  FROM public.auto_renewals
+  WHERE id = _renewal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _renewal.status = 'canceled' OR _renewal.next_charge_at > now() THEN
+    RAISE EXCEPTION 'Auto renewal is not due';
+  END IF;
+
+  -- Never charge twice while an earlier attempt is still being processed
+  IF EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE auto_renewal_id = _renewal.id
+      AND status = 'pending'
+      AND expires_at > now()
+  ) THEN
+    RAISE EXCEPTION 'A renewal charge is already in progress';
+  END IF;
+
+  IF _renewal.token_expires_at IS NOT NULL AND _renewal.token_expires_at <= now() THEN
+    RAISE EXCEPTION 'Metode pembayaran tersimpan sudah kedaluwarsa';
+  END IF;
+
+  SELECT * INTO _package
+  FROM public.premium_packages
+  WHERE id = _renewal.package_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Paket premium tidak lagi tersedia';
+  END IF;
+
+  UPDATE public.auto_renewals SET last_charge_at = now() WHERE id = _renewal.id;
+
+  INSERT INTO public.transactions (
+    user_id, package_id, package_name, duration_months,
+    original_amount, discount_amount, amount,
+    midtrans_order_id, status, expires_at, auto_renewal_id
+  )
+  VALUES (
+    _renewal.user_id, _package.id, _package.name, _package.duration_months,
+    _package.price, 0, _package.price,
+    _order_id, 'pending', now() + INTERVAL '1 day', _renewal.id
+  )
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.start_renewal_charge(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Member controls on Profile
+CREATE OR REPLACE FUNCTION public.cancel_auto_renewal()
+RETURNS public.auto_renewals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _renewal public.auto_renewals%ROWTYPE;
+BEGIN
+  UPDATE public.auto_renewals
+  SET status = 'canceled',
+      canceled_at = now(),
+      cancel_reason = 'user'
+  WHERE user_id = auth.uid() AND status <> 'canceled'
+  RETURNING * INTO _renewal;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Perpanjangan otomatis tidak aktif';
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (auth.uid(), 'auto_renewal.cancel', 'auto_renewal', _renewal.id::text, jsonb_build_object('reason', 'user'));
+
+  RETURN _renewal;
+END;
+$function$;
+
+-- Resuming charges one day before premium ends, or right away when it already has
+CREATE OR REPLACE FUNCTION public.resume_auto_renewal()
+RETURNS public.auto_renewals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _renewal public.auto_renewals%ROWTYPE;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO _renewal
+  FROM public.auto_renewals
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND OR _renewal.status <> 'canceled' THEN
+    RAISE EXCEPTION 'Tidak ada perpanjangan otomatis yang dapat diaktifkan kembali';
+  END IF;
+
+  IF _renewal.token_expires_at IS NOT NULL AND _renewal.token_expires_at <= now() THEN
+    RAISE EXCEPTION 'Metode pembayaran tersimpan sudah kedaluwarsa. Silakan lakukan pembayaran baru dengan perpanjangan otomatis.';
+  END IF;
+
+  SELECT e.premium_until INTO _premium_until FROM public.current_entitlement(auth.uid()) e;
+
+  UPDATE public.auto_renewals
+  SET status = 'active',
+      failed_attempts = 0,
+      last_error = NULL,
+      canceled_at = NULL,
+      cancel_reason = NULL,
+      next_charge_at = GREATEST(now(), COALESCE(public.renewal_charge_time(_premium_until), now()))
+  WHERE id = _renewal.id
+  RETURNING * INTO _renewal;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (auth.uid(), 'auto_renewal.resume', 'auto_renewal', _renewal.id::text, jsonb_build_object('next_charge_at', _renewal.next_charge_at));
+
+  RETURN _renewal;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_auto_renewal() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resume_auto_renewal() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_auto_renewal() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resume_auto_renewal() TO authenticated;
+
+-- Paid orders now also save the payment method of opt-in checkouts and settle
+-- renewals; failed renewal charges go through dunning
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _renewal JSONB;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  -- Map Midtrans status to our transaction status
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE WHEN _fraud_status = 'accept' THEN 'paid' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Only pending orders move; a failed order may still settle, a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (_tx.status = 'pending' OR (_tx.status = 'failed' AND _next_status = 'paid')) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status = 'failed' AND _tx.auto_renewal_id IS NOT NULL THEN
+    _renewal := public.record_renewal_failure(
+      _tx.auto_renewal_id, _tx.id, 'Pembayaran ditolak (' || _transaction_status || ')'
+    );
+  END IF;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false, 'renewal', _renewal);
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id);
+
+  IF _tx.auto_renewal_id IS NOT NULL THEN
+    -- A member who canceled while the charge was in flight stays canceled
+    UPDATE public.auto_renewals
+    SET status = 'active',
+        failed_attempts = 0,
+        last_error = NULL,
+        next_charge_at = GREATEST(now(), public.renewal_charge_time(_premium_until))
+    WHERE id = _tx.auto_renewal_id AND status <> 'canceled';
+  ELSE
+    PERFORM public.enroll_auto_renewal(_tx.id, _payload, _premium_until);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
+
+-- Charge due renewals every hour. Uses the same Vault secrets as reconcile-payments.
+SELECT cron.schedule(
+  'charge-renewals',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/charge-renewals',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
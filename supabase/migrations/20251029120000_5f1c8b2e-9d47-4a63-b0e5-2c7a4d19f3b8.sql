@@ -0,0 +1,406 @@
+-- Premium bought for someone else. The order belongs to the purchaser; once it is
+-- paid a code is issued and emailed to the recipient, who redeems it on /redeem.
+CREATE TABLE public.gifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL UNIQUE REFERENCES public.transactions(id) ON DELETE CASCADE,
+  purchaser_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  message TEXT,
+  package_name TEXT NOT NULL,
+  duration_months INTEGER NOT NULL,
+  code TEXT UNIQUE, -- NULL until the order is paid
+  issued_at TIMESTAMP WITH TIME ZONE,
+  redeemed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  redeemed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX gifts_purchaser_id_idx ON public.gifts (purchaser_id);
+
+-- Enable Row Level Security (recipients go through preview_gift/redeem_gift)
+ALTER TABLE public.gifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Purchasers can view their own gifts"
+ON public.gifts
+FOR SELECT
+TO authenticated
+USING (auth.uid() = purchaser_id);
+
+CREATE POLICY "Admins can view all gifts"
+ON public.gifts
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Checkout optionally records a gift recipient. Gifts are one-off, so they never auto-renew.
+DROP FUNCTION public.create_checkout_transaction(UUID, UUID, TEXT, TEXT, INTEGER, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.create_checkout_transaction(
+  _user_id UUID,
+  _package_id UUID,
+  _order_id TEXT,
+  _voucher_code TEXT DEFAULT NULL,
+  _expiry_minutes INTEGER DEFAULT 1440,
+  _auto_renew BOOLEAN DEFAULT false,
+  _gift_recipient_email TEXT DEFAULT NULL,
+  _gift_message TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _quote JSONB;
+  _tx public.transactions%ROWTYPE;
+  _is_gift BOOLEAN := _gift_recipient_email IS NOT NULL AND btrim(_gift_recipient_email) <> '';
+BEGIN
+  IF _is_gift AND btrim(_gift_recipient_email) !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Email penerima hadiah tidak valid';
+  END IF;
+
+  IF _is_gift AND length(_gift_message) > 500 THEN
+    RAISE EXCEPTION 'Pesan hadiah maksimal 500 karakter';
+  END IF;
+
+  IF _voucher_code IS NOT NULL AND btrim(_voucher_code) <> '' THEN
+    PERFORM 1 FROM public.vouchers
+    WHERE upper(code) = upper(btrim(_voucher_code))
+    FOR UPDATE;
+  END IF;
+
+  _quote := public.evaluate_voucher(_voucher_code, _package_id, _user_id);
+
+  IF NOT (_quote ->> 'valid')::BOOLEAN THEN
+    RAISE EXCEPTION '%', _quote ->> 'message';
+  END IF;
+
+  SELECT * INTO _package FROM public.premium_packages WHERE id = _package_id;
+
+  INSERT INTO public.transactions (
+    user_id, package_id, package_name, duration_months,
+    original_amount, discount_amount, amount,
+    voucher_id, voucher_code, midtrans_order_id, status, expires_at, auto_renew
+  )
+  VALUES (
+    _user_id, _package.id, _package.name, _package.duration_months,
+    (_quote ->> 'original_amount')::INTEGER,
+    (_quote ->> 'discount_amount')::INTEGER,
+    (_quote ->> 'final_amount')::INTEGER,
+    (_quote ->> 'voucher_id')::UUID,
+    _quote ->> 'code',
+    _order_id,
+    'pending',
+    now() + make_interval(mins => _expiry_minutes),
+    _auto_renew AND NOT _is_gift
+  )
+  RETURNING * INTO _tx;
+
+  IF _is_gift THEN
+    INSERT INTO public.gifts (transaction_id, purchaser_id, recipient_email, message, package_name, duration_months)
+    VALUES (
+      _tx.id, _user_id, lower(btrim(_gift_recipient_email)), NULLIF(btrim(_gift_message), ''),
+      _package.name, _package.duration_months
+    );
+  END IF;
+
+  RETURN _tx;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_checkout_transaction(UUID, UUID, TEXT, TEXT, INTEGER, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Issue the code of a paid gift order. Returns NULL when the order is not a gift,
+-- and the already issued gift when called again.
+CREATE OR REPLACE FUNCTION public.issue_gift(_transaction_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _gift public.gifts%ROWTYPE;
+  _hash TEXT;
+BEGIN
+  SELECT * INTO _gift
+  FROM public.gifts
+  WHERE transaction_id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF _gift.code IS NULL THEN
+    _hash := upper(md5(gen_random_uuid()::text));
+
+    UPDATE public.gifts
+    SET code = 'GIFT-' || substr(_hash, 1, 4) || '-' || substr(_hash, 5, 4) || '-' || substr(_hash, 9, 4),
+        issued_at = now()
+    WHERE id = _gift.id
+    RETURNING * INTO _gift;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'gift_id', _gift.id,
+    'code', _gift.code,
+    'purchaser_id', _gift.purchaser_id,
+    'recipient_email', _gift.recipient_email,
+    'message', _gift.message,
+    'package_name', _gift.package_name,
+    'duration_months', _gift.duration_months
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_gift(UUID) FROM PUBLIC, anon, authenticated;
+
+-- What a code is worth, for the redeem page. Anyone holding the code may look.
+CREATE OR REPLACE FUNCTION public.preview_gift(_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _gift public.gifts%ROWTYPE;
+  _sender TEXT;
+BEGIN
+  SELECT * INTO _gift FROM public.gifts WHERE code = upper(btrim(_code));
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode hadiah tidak ditemukan');
+  END IF;
+
+  SELECT nama INTO _sender FROM public.profiles WHERE id = _gift.purchaser_id;
+
+  RETURN jsonb_build_object(
+    'valid', _gift.redeemed_at IS NULL,
+    'message', CASE WHEN _gift.redeemed_at IS NOT NULL THEN 'Kode hadiah sudah digunakan' END,
+    'code', _gift.code,
+    'sender_name', _sender,
+    'gift_message', _gift.message,
+    'package_name', _gift.package_name,
+    'duration_months', _gift.duration_months
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_gift(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.preview_gift(TEXT) TO anon, authenticated;
+
+-- Apply a gift code to the signed-in user. Time stacks like a purchase.
+CREATE OR REPLACE FUNCTION public.redeem_gift(_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _gift public.gifts%ROWTYPE;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Silakan masuk untuk menukarkan kode hadiah';
+  END IF;
+
+  SELECT * INTO _gift
+  FROM public.gifts
+  WHERE code = upper(btrim(_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kode hadiah tidak ditemukan';
+  END IF;
+
+  IF _gift.redeemed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Kode hadiah sudah digunakan';
+  END IF;
+
+  _premium_until := public.grant_premium(
+    auth.uid(), _gift.duration_months, 'gift', _gift.transaction_id, 'Hadiah ' || _gift.code
+  );
+
+  UPDATE public.gifts
+  SET redeemed_by = auth.uid(),
+      redeemed_at = now()
+  WHERE id = _gift.id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    auth.uid(), 'gift.redeem', 'gift', _gift.id::text,
+    jsonb_build_object('code', _gift.code, 'purchaser_id', _gift.purchaser_id)
+  );
+
+  RETURN jsonb_build_object(
+    'premium_until', _premium_until,
+    'package_name', _gift.package_name,
+    'duration_months', _gift.duration_months
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_gift(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_gift(TEXT) TO authenticated;
+
+-- Paid gift orders issue a code instead of granting premium to the purchaser
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _renewal JSONB;
+  _gift JSONB;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  -- Map Midtrans status to our transaction status
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE WHEN _fraud_status = 'accept' THEN 'paid' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Only pending orders move; a failed order may still settle, a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (_tx.status = 'pending' OR (_tx.status = 'failed' AND _next_status = 'paid')) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status = 'failed' AND _tx.auto_renewal_id IS NOT NULL THEN
+    _renewal := public.record_renewal_failure(
+      _tx.auto_renewal_id, _tx.id, 'Pembayaran ditolak (' || _transaction_status || ')'
+    );
+  END IF;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false, 'renewal', _renewal);
+  END IF;
+
+  _gift := public.issue_gift(_tx.id);
+
+  IF _gift IS NOT NULL THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false, 'gift', _gift);
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id);
+
+  IF _tx.auto_renewal_id IS NOT NULL THEN
+    -- A member who canceled while the charge was in flight stays canceled
+    UPDATE public.auto_renewals
+    SET status = 'active',
+        failed_attempts = 0,
+        last_error = NULL,
+        next_charge_at = GREATEST(now(), public.renewal_charge_time(_premium_until))
+    WHERE id = _tx.auto_renewal_id AND status <> 'canceled';
+  ELSE
+    PERFORM public.enroll_auto_renewal(_tx.id, _payload, _premium_until);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
+
+-- Manually confirmed gift orders issue their code too
+CREATE OR REPLACE FUNCTION public.mark_transaction_paid(_transaction_id UUID, _actor_id UUID, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _gift JSONB;
+BEGIN
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to mark a transaction paid';
+  END IF;
+
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _transaction_id;
+  END IF;
+
+  IF _tx.status = 'paid' THEN
+    RAISE EXCEPTION 'Transaction % is already paid', _tx.midtrans_order_id;
+  END IF;
+
+  UPDATE public.transactions
+  SET status = 'paid',
+      paid_at = now()
+  WHERE id = _tx.id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _actor_id, 'transaction.mark_paid', 'transaction', _tx.id::text,
+    jsonb_build_object('order_id', _tx.midtrans_order_id, 'previous_status', _tx.status, 'reason', btrim(_reason))
+  );
+
+  _gift := public.issue_gift(_tx.id);
+
+  IF _gift IS NOT NULL THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', 'paid', 'upgraded', false, 'gift', _gift);
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id, btrim(_reason));
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', 'paid',
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
@@ -0,0 +1,720 @@
+-- Group licenses: a company or community buys a number of seats for a group
+-- package, then its owner assigns the seats to members by email.
+ALTER TABLE public.premium_packages
+  ADD COLUMN is_group BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN min_seats INTEGER NOT NULL DEFAULT 1 CHECK (min_seats >= 1);
+
+CREATE TABLE public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX organizations_owner_id_idx ON public.organizations (owner_id);
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One license per paid order. Renewals stack after the running license.
+CREATE TABLE public.organization_licenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  transaction_id UUID UNIQUE REFERENCES public.transactions(id) ON DELETE SET NULL,
+  seats INTEGER NOT NULL CHECK (seats >= 1),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX organization_licenses_organization_id_idx ON public.organization_licenses (organization_id);
+
+-- Seats are assigned by email; user_id is filled in once that email has an account
+CREATE TABLE public.organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX organization_members_active_email_idx
+ON public.organization_members (organization_id, email)
+WHERE revoked_at IS NULL;
+
+CREATE INDEX organization_members_user_id_idx ON public.organization_members (user_id);
+CREATE INDEX organization_members_email_idx ON public.organization_members (email);
+
+-- Group orders remember the organization and seat count; both are NULL for personal orders
+ALTER TABLE public.transactions
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+  ADD COLUMN organization_name TEXT,
+  ADD COLUMN seats INTEGER CHECK (seats IS NULL OR seats >= 1);
+
+CREATE OR REPLACE FUNCTION public.is_organization_admin(_organization_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = _organization_id AND owner_id = _user_id
+  )
+$$;
+
+-- Enable Row Level Security (writes go through the functions below)
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_licenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view their organizations"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.organization_id = organizations.id
+      AND m.user_id = auth.uid()
+      AND m.revoked_at IS NULL
+  )
+);
+
+CREATE POLICY "Admins can view all organizations"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Owners can view their organization licenses"
+ON public.organization_licenses
+FOR SELECT
+TO authenticated
+USING (public.is_organization_admin(organization_id, auth.uid()));
+
+CREATE POLICY "Admins can view all organization licenses"
+ON public.organization_licenses
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Owners can view their organization members"
+ON public.organization_members
+FOR SELECT
+TO authenticated
+USING (public.is_organization_admin(organization_id, auth.uid()));
+
+CREATE POLICY "Members can view their own seats"
+ON public.organization_members
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all organization members"
+ON public.organization_members
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- An assigned seat counts as premium until the organization's license runs out
+CREATE OR REPLACE FUNCTION public.current_entitlement(_user_id UUID)
+RETURNS TABLE (is_premium BOOLEAN, premium_until TIMESTAMP WITH TIME ZONE, source TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH allowed AS (
+    SELECT (
+      auth.role() IS NULL
+      OR auth.role() = 'service_role'
+      OR _user_id = auth.uid()
+      OR public.has_role(auth.uid(), 'admin')
+    ) AS ok
+  ),
+  live AS (
+    SELECT s.starts_at, s.ends_at, s.source
+    FROM public.subscriptions s
+    WHERE s.user_id = _user_id
+      AND s.revoked_at IS NULL
+      AND (s.ends_at IS NULL OR s.ends_at > now())
+      AND (SELECT ok FROM allowed)
+    UNION ALL
+    SELECT l.starts_at, l.ends_at, 'organization'
+    FROM public.organization_members m
+    JOIN public.organization_licenses l ON l.organization_id = m.organization_id
+    WHERE m.user_id = _user_id
+      AND m.revoked_at IS NULL
+      AND l.ends_at > now()
+      AND (SELECT ok FROM allowed)
+  )
+  SELECT
+    EXISTS (SELECT 1 FROM live WHERE live.starts_at <= now()),
+    CASE
+      WHEN EXISTS (SELECT 1 FROM live WHERE live.ends_at IS NULL) THEN NULL
+      ELSE (SELECT max(live.ends_at) FROM live)
+    END,
+    (SELECT live.source FROM live WHERE live.starts_at <= now() ORDER BY live.starts_at DESC LIMIT 1)
+$$;
+
+-- Personal time stacks on personal time only. A seat can be revoked, so a
+-- purchase must not wait for the organization's license to run out.
+CREATE OR REPLACE FUNCTION public.grant_premium(
+  _user_id UUID,
+  _months INTEGER,
+  _source TEXT,
+  _transaction_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _current_until TIMESTAMP WITH TIME ZONE;
+  _starts_at TIMESTAMP WITH TIME ZONE;
+  _ends_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT CASE WHEN bool_or(s.ends_at IS NULL) THEN NULL ELSE max(s.ends_at) END
+  INTO _current_until
+  FROM public.subscriptions s
+  WHERE s.user_id = _user_id
+    AND s.revoked_at IS NULL
+    AND (s.ends_at IS NULL OR s.ends_at > now());
+
+  _starts_at := GREATEST(now(), COALESCE(_current_until, now()));
+  _ends_at := _starts_at + make_interval(months => _months);
+
+  INSERT INTO public.subscriptions (user_id, starts_at, ends_at, source, transaction_id, note)
+  VALUES (_user_id, _starts_at, _ends_at, _source, _transaction_id, _note);
+
+  RETURN _ends_at;
+END;
+$function$;
+
+-- Seats in force right now and how many are assigned, for the organization page
+CREATE OR REPLACE FUNCTION public.organization_seat_usage(_organization_id UUID)
+RETURNS TABLE (seats INTEGER, used INTEGER, license_ends_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((
+      SELECT max(l.seats) FROM public.organization_licenses l
+      WHERE l.organization_id = _organization_id
+        AND l.starts_at <= now() AND l.ends_at > now()
+    ), 0),
+    (
+      SELECT count(*)::INTEGER FROM public.organization_members m
+      WHERE m.organization_id = _organization_id AND m.revoked_at IS NULL
+    ),
+    (
+      SELECT max(l.ends_at) FROM public.organization_licenses l
+      WHERE l.organization_id = _organization_id AND l.ends_at > now()
+    )
+  WHERE auth.role() IS NULL
+     OR auth.role() = 'service_role'
+     OR public.is_organization_admin(_organization_id, auth.uid())
+     OR public.has_role(auth.uid(), 'admin')
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.organization_seat_usage(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.organization_seat_usage(UUID) TO authenticated, service_role;
+
+-- Checkout for a group package. Without _organization_id a new organization
+-- named _organization_name is created once the order is paid; with it the
+-- caller renews an organization they own. Vouchers do not apply to groups.
+CREATE OR REPLACE FUNCTION public.create_group_checkout_transaction(
+  _user_id UUID,
+  _package_id UUID,
+  _order_id TEXT,
+  _seats INTEGER,
+  _organization_id UUID DEFAULT NULL,
+  _organization_name TEXT DEFAULT NULL,
+  _expiry_minutes INTEGER DEFAULT 1440
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _organization public.organizations%ROWTYPE;
+  _active_members INTEGER;
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _package
+  FROM public.premium_packages
+  WHERE id = _package_id AND is_active = true AND is_group = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Paket grup tidak ditemukan';
+  END IF;
+
+  IF _seats IS NULL OR _seats < _package.min_seats THEN
+    RAISE EXCEPTION 'Paket ini minimal % kursi', _package.min_seats;
+  END IF;
+
+  IF _seats > 1000 THEN
+    RAISE EXCEPTION 'Maksimal 1000 kursi per pembelian';
+  END IF;
+
+  IF _organization_id IS NOT NULL THEN
+    SELECT * INTO _organization FROM public.organizations WHERE id = _organization_id;
+
+    IF NOT FOUND OR _organization.owner_id <> _user_id THEN
+      RAISE EXCEPTION 'Hanya pemilik organisasi yang dapat memperpanjang lisensi';
+    END IF;
+
+    SELECT count(*) INTO _active_members
+    FROM public.organization_members
+    WHERE organization_id = _organization_id AND revoked_at IS NULL;
+
+    IF _seats < _active_members THEN
+      RAISE EXCEPTION 'Jumlah kursi tidak boleh kurang dari % anggota aktif', _active_members;
+    END IF;
+  ELSIF _organization_name IS NULL OR length(btrim(_organization_name)) < 3 THEN
+    RAISE EXCEPTION 'Nama organisasi minimal 3 karakter';
+  ELSIF length(btrim(_organization_name)) > 100 THEN
+    RAISE EXCEPTION 'Nama organisasi maksimal 100 karakter';
+  END IF;
+
+  INSERT INTO public.transactions (
+    user_id, package_id, package_name, duration_months,
+    original_amount, discount_amount, amount,
+    midtrans_order_id, status, expires_at,
+    organization_id, organization_name, seats
+  )
+  VALUES (
+    _user_id, _package.id, _package.name, _package.duration_months,
+    _package.price * _seats, 0, _package.price * _seats,
+    _order_id, 'pending', now() + make_interval(mins => _expiry_minutes),
+    _organization.id, COALESCE(_organization.name, btrim(_organization_name)), _seats
+  )
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_group_checkout_transaction(UUID, UUID, TEXT, INTEGER, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Turn a paid group order into a license. Returns NULL for personal orders and
+-- the already issued license when called again.
+CREATE OR REPLACE FUNCTION public.issue_organization_license(_transaction_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _license public.organization_licenses%ROWTYPE;
+  _organization public.organizations%ROWTYPE;
+  _owner_email TEXT;
+  _member_id UUID;
+BEGIN
+  SELECT * INTO _tx FROM public.transactions WHERE id = _transaction_id;
+
+  IF NOT FOUND OR _tx.seats IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _license FROM public.organization_licenses WHERE transaction_id = _tx.id;
+
+  IF NOT FOUND THEN
+    IF _tx.organization_id IS NULL THEN
+      -- First purchase: the buyer owns the organization and takes the first seat
+      INSERT INTO public.organizations (name, owner_id)
+      VALUES (_tx.organization_name, _tx.user_id)
+      RETURNING * INTO _organization;
+
+      SELECT lower(email) INTO _owner_email FROM auth.users WHERE id = _tx.user_id;
+
+      INSERT INTO public.organization_members (organization_id, email, user_id, invited_by)
+      VALUES (_organization.id, _owner_email, _tx.user_id, _tx.user_id);
+
+      UPDATE public.transactions SET organization_id = _organization.id WHERE id = _tx.id;
+    ELSE
+      SELECT * INTO _organization
+      FROM public.organizations
+      WHERE id = _tx.organization_id
+      FOR UPDATE;
+    END IF;
+
+    INSERT INTO public.organization_licenses (organization_id, transaction_id, seats, starts_at, ends_at)
+    SELECT
+      _organization.id, _tx.id, _tx.seats,
+      GREATEST(now(), COALESCE(max(l.ends_at), now())),
+      GREATEST(now(), COALESCE(max(l.ends_at), now())) + make_interval(months => _tx.duration_months)
+    FROM public.organization_licenses l
+    WHERE l.organization_id = _organization.id AND l.ends_at > now()
+    RETURNING * INTO _license;
+
+    FOR _member_id IN
+      SELECT user_id FROM public.organization_members
+      WHERE organization_id = _organization.id AND revoked_at IS NULL AND user_id IS NOT NULL
+    LOOP
+      PERFORM public.sync_premium_role(_member_id);
+    END LOOP;
+  ELSE
+    SELECT * INTO _organization FROM public.organizations WHERE id = _license.organization_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'organization_id', _organization.id,
+    'organization_name', _organization.name,
+    'owner_id', _organization.owner_id,
+    'seats', _license.seats,
+    'starts_at', _license.starts_at,
+    'ends_at', _license.ends_at
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_organization_license(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Assign a seat. Called by the organization-members function with the signed-in owner as actor.
+CREATE OR REPLACE FUNCTION public.invite_organization_member(_organization_id UUID, _email TEXT, _actor_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _organization public.organizations%ROWTYPE;
+  _normalized TEXT := lower(btrim(_email));
+  _usage RECORD;
+  _user_id UUID;
+  _member public.organization_members%ROWTYPE;
+BEGIN
+  -- Lock the organization so two invites cannot take the last seat together
+  SELECT * INTO _organization
+  FROM public.organizations
+  WHERE id = _organization_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _organization.owner_id <> _actor_id THEN
+    RAISE EXCEPTION 'Hanya pemilik organisasi yang dapat mengundang anggota';
+  END IF;
+
+  IF _normalized IS NULL OR _normalized !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Email tidak valid';
+  END IF;
+
+  SELECT * INTO _usage FROM public.organization_seat_usage(_organization.id);
+
+  IF _usage.seats = 0 THEN
+    RAISE EXCEPTION 'Lisensi organisasi tidak aktif';
+  END IF;
+
+  IF _usage.used >= _usage.seats THEN
+    RAISE EXCEPTION 'Semua % kursi sudah terpakai', _usage.seats;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = _organization.id AND email = _normalized AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Email ini sudah menjadi anggota';
+  END IF;
+
+  SELECT id INTO _user_id FROM auth.users WHERE lower(email) = _normalized;
+
+  INSERT INTO public.organization_members (organization_id, email, user_id, invited_by)
+  VALUES (_organization.id, _normalized, _user_id, _actor_id)
+  RETURNING * INTO _member;
+
+  IF _user_id IS NOT NULL THEN
+    PERFORM public.sync_premium_role(_user_id);
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _actor_id, 'organization.invite', 'organization_member', _member.id::text,
+    jsonb_build_object('organization_id', _organization.id, 'email', _normalized)
+  );
+
+  RETURN jsonb_build_object(
+    'member_id', _member.id,
+    'email', _member.email,
+    'has_account', _user_id IS NOT NULL,
+    'organization_name', _organization.name,
+    'license_ends_at', _usage.license_ends_at
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.invite_organization_member(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Free a seat. The owner's own seat cannot be revoked.
+CREATE OR REPLACE FUNCTION public.revoke_organization_member(_member_id UUID, _actor_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _member public.organization_members%ROWTYPE;
+  _organization public.organizations%ROWTYPE;
+BEGIN
+  SELECT * INTO _member
+  FROM public.organization_members
+  WHERE id = _member_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Anggota tidak ditemukan';
+  END IF;
+
+  SELECT * INTO _organization FROM public.organizations WHERE id = _member.organization_id;
+
+  IF _organization.owner_id <> _actor_id THEN
+    RAISE EXCEPTION 'Hanya pemilik organisasi yang dapat mencabut kursi';
+  END IF;
+
+  IF _member.user_id = _organization.owner_id THEN
+    RAISE EXCEPTION 'Kursi pemilik organisasi tidak dapat dicabut';
+  END IF;
+
+  IF _member.revoked_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.organization_members
+  SET revoked_at = now(),
+      revoked_by = _actor_id
+  WHERE id = _member.id;
+
+  IF _member.user_id IS NOT NULL THEN
+    PERFORM public.sync_premium_role(_member.user_id);
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _actor_id, 'organization.revoke', 'organization_member', _member.id::text,
+    jsonb_build_object('organization_id', _organization.id, 'email', _member.email)
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_organization_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Invites sent before the invitee signed up are picked up at signup. The
+-- trigger name sorts after on_auth_user_created, so the profile exists by then.
+CREATE OR REPLACE FUNCTION public.link_organization_invites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.organization_members
+  SET user_id = NEW.id
+  WHERE email = lower(NEW.email) AND user_id IS NULL AND revoked_at IS NULL;
+
+  IF FOUND THEN
+    PERFORM public.sync_premium_role(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_auth_user_link_organization
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.link_organization_invites();
+
+-- Paid group orders issue a license instead of granting premium to the buyer alone
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _renewal JSONB;
+  _gift JSONB;
+  _license JSONB;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  -- Map Midtrans status to our transaction status
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE WHEN _fraud_status = 'accept' THEN 'paid' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Only pending orders move; a failed order may still settle, a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (_tx.status = 'pending' OR (_tx.status = 'failed' AND _next_status = 'paid')) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status = 'failed' AND _tx.auto_renewal_id IS NOT NULL THEN
+    _renewal := public.record_renewal_failure(
+      _tx.auto_renewal_id, _tx.id, 'Pembayaran ditolak (' || _transaction_status || ')'
+    );
+  END IF;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false, 'renewal', _renewal);
+  END IF;
+
+  _license := public.issue_organization_license(_tx.id);
+
+  IF _license IS NOT NULL THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false, 'organization', _license);
+  END IF;
+
+  _gift := public.issue_gift(_tx.id);
+
+  IF _gift IS NOT NULL THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false, 'gift', _gift);
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id);
+
+  IF _tx.auto_renewal_id IS NOT NULL THEN
+    -- A member who canceled while the charge was in flight stays canceled
+    UPDATE public.auto_renewals
+    SET status = 'active',
+        failed_attempts = 0,
+        last_error = NULL,
+        next_charge_at = GREATEST(now(), public.renewal_charge_time(_premium_until))
+    WHERE id = _tx.auto_renewal_id AND status <> 'canceled';
+  ELSE
+    PERFORM public.enroll_auto_renewal(_tx.id, _payload, _premium_until);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
+
+-- Manually confirmed group orders issue their license too
+CREATE OR REPLACE FUNCTION public.mark_transaction_paid(_transaction_id UUID, _actor_id UUID, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _gift JSONB;
+  _license JSONB;
+BEGIN
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to mark a transaction paid';
+  END IF;
+
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _transaction_id;
+  END IF;
+
+  IF _tx.status = 'paid' THEN
+    RAISE EXCEPTION 'Transaction % is already paid', _tx.midtrans_order_id;
+  END IF;
+
+  UPDATE public.transactions
+  SET status = 'paid',
+      paid_at = now()
+  WHERE id = _tx.id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _actor_id, 'transaction.mark_paid', 'transaction', _tx.id::text,
+    jsonb_build_object('order_id', _tx.midtrans_order_id, 'previous_status', _tx.status, 'reason', btrim(_reason))
+  );
+
+  _license := public.issue_organization_license(_tx.id);
+
+  IF _license IS NOT NULL THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', 'paid', 'upgraded', false, 'organization', _license);
+  END IF;
+
+  _gift := public.issue_gift(_tx.id);
+
+  IF _gift IS NOT NULL THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', 'paid', 'upgraded', false, 'gift', _gift);
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id, btrim(_reason));
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', 'paid',
+    'upgraded', true,
+    'premium_until', _premium_until
+  );
+END;
+$function$;
@@ -0,0 +1,450 @@
+-- Referral program. Every profile gets a code; people who sign up through
+-- /auth?ref=<code> are tracked here, and their first paid order earns the
+-- referrer extra premium days.
+ALTER TABLE public.profiles
+  ADD COLUMN referral_code TEXT UNIQUE;
+
+CREATE OR REPLACE FUNCTION public.set_referral_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.referral_code IS NULL THEN
+    NEW.referral_code := upper(substr(md5(NEW.id::text || gen_random_uuid()::text), 1, 8));
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_profiles_referral_code
+BEFORE INSERT ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.set_referral_code();
+
+UPDATE public.profiles
+SET referral_code = upper(substr(md5(id::text || gen_random_uuid()::text), 1, 8))
+WHERE referral_code IS NULL;
+
+ALTER TABLE public.profiles
+  ALTER COLUMN referral_code SET NOT NULL;
+
+CREATE TABLE public.referrals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  referred_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE, -- one referrer per user
+  code TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  converted_at TIMESTAMP WITH TIME ZONE, -- first paid order of the referred user
+  conversion_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  reward_days INTEGER, -- NULL when the conversion earned nothing
+  subscription_id UUID REFERENCES public.subscriptions(id) ON DELETE SET NULL,
+  note TEXT,
+  CHECK (referrer_id <> referred_id)
+);
+
+CREATE INDEX referrals_referrer_id_idx ON public.referrals (referrer_id);
+
+-- Enable Row Level Security (rows are written by triggers and payment functions)
+ALTER TABLE public.referrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Referrers can view their referrals"
+ON public.referrals
+FOR SELECT
+TO authenticated
+USING (auth.uid() = referrer_id);
+
+CREATE POLICY "Admins can view all referrals"
+ON public.referrals
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Expiry of a user's own purchased and granted time, ignoring organization seats.
+-- NULL when there is none or when it never ends.
+CREATE OR REPLACE FUNCTION public.personal_premium_until(_user_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN bool_or(s.ends_at IS NULL) THEN NULL ELSE max(s.ends_at) END
+  FROM public.subscriptions s
+  WHERE s.user_id = _user_id
+    AND s.revoked_at IS NULL
+    AND (s.ends_at IS NULL OR s.ends_at > now())
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.personal_premium_until(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.grant_premium(
+  _user_id UUID,
+  _months INTEGER,
+  _source TEXT,
+  _transaction_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _starts_at TIMESTAMP WITH TIME ZONE := GREATEST(now(), COALESCE(public.personal_premium_until(_user_id), now()));
+  _ends_at TIMESTAMP WITH TIME ZONE := _starts_at + make_interval(months => _months);
+BEGIN
+  INSERT INTO public.subscriptions (user_id, starts_at, ends_at, source, transaction_id, note)
+  VALUES (_user_id, _starts_at, _ends_at, _source, _transaction_id, _note);
+
+  RETURN _ends_at;
+END;
+$function$;
+
+-- Gmail-style "+tag" aliases point at the same inbox
+CREATE OR REPLACE FUNCTION public.normalize_referral_email(_email TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(lower(btrim(_email)), '\+[^@]*@', '@')
+$$;
+
+-- Record who referred a new account. Invalid codes and self-referrals are ignored
+-- so they never block a signup. Runs after on_auth_user_created (trigger names sort).
+CREATE OR REPLACE FUNCTION public.record_referral_signup()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _code TEXT := upper(btrim(NEW.raw_user_meta_data ->> 'referral_code'));
+  _referrer_id UUID;
+  _referrer_email TEXT;
+BEGIN
+  IF _code IS NULL OR _code = '' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.id, u.email INTO _referrer_id, _referrer_email
+  FROM public.profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE p.referral_code = _code;
+
+  IF _referrer_id IS NULL
+     OR _referrer_id = NEW.id
+     OR public.normalize_referral_email(_referrer_email) = public.normalize_referral_email(NEW.email) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.referrals (referrer_id, referred_id, code)
+  VALUES (_referrer_id, NEW.id, _code)
+  ON CONFLICT (referred_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_auth_user_record_referral
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.record_referral_signup();
+
+-- Reward the referrer for the referred user's first paid order. Only the first
+-- paid order counts, free orders earn nothing and a referrer earns at most
+-- 10 rewards per 30 days. Returns NULL when nothing was awarded.
+CREATE OR REPLACE FUNCTION public.award_referral(_transaction_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _reward_days CONSTANT INTEGER := 7;
+  _monthly_limit CONSTANT INTEGER := 10;
+  _tx public.transactions%ROWTYPE;
+  _referral public.referrals%ROWTYPE;
+  _recent_rewards INTEGER;
+  _starts_at TIMESTAMP WITH TIME ZONE;
+  _subscription_id UUID;
+BEGIN
+  SELECT * INTO _tx FROM public.transactions WHERE id = _transaction_id;
+
+  SELECT * INTO _referral
+  FROM public.referrals
+  WHERE referred_id = _tx.user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _referral.converted_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF _tx.amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.referrals
+  SET converted_at = now(),
+      conversion_transaction_id = _tx.id
+  WHERE id = _referral.id;
+
+  SELECT count(*) INTO _recent_rewards
+  FROM public.referrals
+  WHERE referrer_id = _referral.referrer_id
+    AND reward_days IS NOT NULL
+    AND converted_at > now() - interval '30 days';
+
+  IF _recent_rewards >= _monthly_limit THEN
+    UPDATE public.referrals
+    SET note = 'Batas hadiah 30 hari tercapai'
+    WHERE id = _referral.id;
+    RETURN NULL;
+  END IF;
+
+  _starts_at := GREATEST(now(), COALESCE(public.personal_premium_until(_referral.referrer_id), now()));
+
+  INSERT INTO public.subscriptions (user_id, starts_at, ends_at, source, note)
+  VALUES (
+    _referral.referrer_id, _starts_at, _starts_at + make_interval(days => _reward_days),
+    'referral', 'Referral ' || _referral.referred_id
+  )
+  RETURNING id INTO _subscription_id;
+
+  UPDATE public.referrals
+  SET reward_days = _reward_days,
+      subscription_id = _subscription_id
+  WHERE id = _referral.id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    NULL, 'referral.reward', 'referral', _referral.id::text,
+    jsonb_build_object('referrer_id', _referral.referrer_id, 'transaction_id', _tx.id, 'reward_days', _reward_days)
+  );
+
+  RETURN jsonb_build_object(
+    'referrer_id', _referral.referrer_id,
+    'reward_days', _reward_days,
+    'premium_until', _starts_at + make_interval(days => _reward_days)
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.award_referral(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Referral dashboard of the signed-in user. Referred people are shown by first name only.
+CREATE OR REPLACE FUNCTION public.my_referrals()
+RETURNS TABLE (
+  referred_name TEXT,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  converted_at TIMESTAMP WITH TIME ZONE,
+  reward_days INTEGER,
+  note TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT split_part(COALESCE(p.nama, 'Pengguna'), ' ', 1), r.created_at, r.converted_at, r.reward_days, r.note
+  FROM public.referrals r
+  LEFT JOIN public.profiles p ON p.id = r.referred_id
+  WHERE r.referrer_id = auth.uid()
+  ORDER BY r.created_at DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.my_referrals() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.my_referrals() TO authenticated;
+
+-- Paid orders convert referrals, whatever was bought
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _renewal JSONB;
+  _gift JSONB;
+  _license JSONB;
+  _referral JSONB;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  -- Map Midtrans status to our transaction status
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE WHEN _fraud_status = 'accept' THEN 'paid' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Only pending orders move; a failed order may still settle, a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (_tx.status = 'pending' OR (_tx.status = 'failed' AND _next_status = 'paid')) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status = 'failed' AND _tx.auto_renewal_id IS NOT NULL THEN
+    _renewal := public.record_renewal_failure(
+      _tx.auto_renewal_id, _tx.id, 'Pembayaran ditolak (' || _transaction_status || ')'
+    );
+  END IF;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _next_status, 'upgraded', false, 'renewal', _renewal);
+  END IF;
+
+  _referral := public.award_referral(_tx.id);
+
+  _license := public.issue_organization_license(_tx.id);
+
+  IF _license IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _next_status, 'upgraded', false,
+      'organization', _license, 'referral', _referral
+    );
+  END IF;
+
+  _gift := public.issue_gift(_tx.id);
+
+  IF _gift IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _next_status, 'upgraded', false,
+      'gift', _gift, 'referral', _referral
+    );
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id);
+
+  IF _tx.auto_renewal_id IS NOT NULL THEN
+    -- A member who canceled while the charge was in flight stays canceled
+    UPDATE public.auto_renewals
+    SET status = 'active',
+        failed_attempts = 0,
+        last_error = NULL,
+        next_charge_at = GREATEST(now(), public.renewal_charge_time(_premium_until))
+    WHERE id = _tx.auto_renewal_id AND status <> 'canceled';
+  ELSE
+    PERFORM public.enroll_auto_renewal(_tx.id, _payload, _premium_until);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'upgraded', true,
+    'premium_until', _premium_until,
+    'referral', _referral
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.mark_transaction_paid(_transaction_id UUID, _actor_id UUID, _reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _gift JSONB;
+  _license JSONB;
+  _referral JSONB;
+BEGIN
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to mark a transaction paid';
+  END IF;
+
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _transaction_id;
+  END IF;
+
+  IF _tx.status = 'paid' THEN
+    RAISE EXCEPTION 'Transaction % is already paid', _tx.midtrans_order_id;
+  END IF;
+
+  UPDATE public.transactions
+  SET status = 'paid',
+      paid_at = now()
+  WHERE id = _tx.id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _actor_id, 'transaction.mark_paid', 'transaction', _tx.id::text,
+    jsonb_build_object('order_id', _tx.midtrans_order_id, 'previous_status', _tx.status, 'reason', btrim(_reason))
+  );
+
+  _referral := public.award_referral(_tx.id);
+
+  _license := public.issue_organization_license(_tx.id);
+
+  IF _license IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', 'paid', 'upgraded', false,
+      'organization', _license, 'referral', _referral
+    );
+  END IF;
+
+  _gift := public.issue_gift(_tx.id);
+
+  IF _gift IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', 'paid', 'upgraded', false,
+      'gift', _gift, 'referral', _referral
+    );
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id, btrim(_reason));
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', 'paid',
+    'upgraded', true,
+    'premium_until', _premium_until,
+    'referral', _referral
+  );
+END;
+$function$;
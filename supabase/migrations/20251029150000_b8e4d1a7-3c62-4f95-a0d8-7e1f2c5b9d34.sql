@@ -0,0 +1,212 @@
+-- Free premium trial for new accounts. Admins switch it on and pick its length;
+-- every account and every email gets at most one trial.
+CREATE TABLE public.trial_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id), -- single row
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  duration_days INTEGER NOT NULL DEFAULT 7 CHECK (duration_days BETWEEN 1 AND 90),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.trial_settings (id) VALUES (true);
+
+CREATE TRIGGER update_trial_settings_updated_at
+BEFORE UPDATE ON public.trial_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.trial_settings ENABLE ROW LEVEL SECURITY;
+
+-- Signup and pricing pages mention the trial, so anyone may read the settings
+CREATE POLICY "Anyone can view trial settings"
+ON public.trial_settings
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can update trial settings"
+ON public.trial_settings
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Rows outlive deleted accounts so the email cannot claim a second trial
+CREATE TABLE public.trials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL,
+  email TEXT NOT NULL UNIQUE, -- normalized like referral emails
+  subscription_id UUID REFERENCES public.subscriptions(id) ON DELETE SET NULL,
+  duration_days INTEGER NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  expiry_notified_at TIMESTAMP WITH TIME ZONE,
+  converted_at TIMESTAMP WITH TIME ZONE, -- first paid order after the trial started
+  conversion_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL
+);
+
+CREATE INDEX trials_ends_at_idx ON public.trials (ends_at) WHERE expiry_notified_at IS NULL;
+
+ALTER TABLE public.trials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own trial"
+ON public.trials
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all trials"
+ON public.trials
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Start the trial of a new account when trials are switched on. Runs after
+-- on_auth_user_created (trigger names sort), so the profile already exists.
+CREATE OR REPLACE FUNCTION public.start_signup_trial()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _settings public.trial_settings%ROWTYPE;
+  _ends_at TIMESTAMP WITH TIME ZONE;
+  _subscription_id UUID;
+BEGIN
+  SELECT * INTO _settings FROM public.trial_settings;
+
+  IF NOT _settings.enabled OR NEW.email IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.trials WHERE email = public.normalize_referral_email(NEW.email)) THEN
+    RETURN NEW;
+  END IF;
+
+  _ends_at := now() + make_interval(days => _settings.duration_days);
+
+  INSERT INTO public.subscriptions (user_id, starts_at, ends_at, source, note)
+  VALUES (NEW.id, now(), _ends_at, 'trial', 'Trial ' || _settings.duration_days || ' hari')
+  RETURNING id INTO _subscription_id;
+
+  INSERT INTO public.trials (user_id, email, subscription_id, duration_days, ends_at)
+  VALUES (NEW.id, public.normalize_referral_email(NEW.email), _subscription_id, _settings.duration_days, _ends_at);
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_auth_user_start_trial
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.start_signup_trial();
+
+-- A trial converts with the user's first paid order, whatever was bought
+CREATE OR REPLACE FUNCTION public.record_trial_conversion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.trials
+  SET converted_at = now(),
+      conversion_transaction_id = NEW.id
+  WHERE user_id = NEW.user_id
+    AND converted_at IS NULL;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_transaction_paid_convert_trial
+AFTER UPDATE OF status ON public.transactions
+FOR EACH ROW
+WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' AND NEW.amount > 0)
+EXECUTE FUNCTION public.record_trial_conversion();
+
+-- Claim ended, unconverted trials for the expiry email and bring the users'
+-- roles in line. Each trial is returned once.
+CREATE OR REPLACE FUNCTION public.claim_ended_trials(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (trial_id UUID, user_id UUID, duration_days INTEGER, ends_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _trial RECORD;
+BEGIN
+  FOR _trial IN
+    UPDATE public.trials t
+    SET expiry_notified_at = now()
+    WHERE t.id IN (
+      SELECT due.id FROM public.trials due
+      WHERE due.expiry_notified_at IS NULL
+        AND due.ends_at <= now()
+        AND due.user_id IS NOT NULL
+      ORDER BY due.ends_at
+      LIMIT _limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING t.id, t.user_id, t.duration_days, t.ends_at, t.converted_at
+  LOOP
+    PERFORM public.sync_premium_role(_trial.user_id);
+
+    -- Members who already paid need no nudge
+    IF _trial.converted_at IS NULL THEN
+      trial_id := _trial.id;
+      user_id := _trial.user_id;
+      duration_days := _trial.duration_days;
+      ends_at := _trial.ends_at;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_ended_trials(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Trials started and converted per signup month, for the admin report
+CREATE OR REPLACE FUNCTION public.trial_report()
+RETURNS TABLE (
+  month DATE,
+  started INTEGER,
+  active INTEGER,
+  converted INTEGER,
+  converted_during_trial INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc('month', t.started_at AT TIME ZONE 'Asia/Jakarta')::DATE,
+    count(*)::INTEGER,
+    count(*) FILTER (WHERE t.ends_at > now())::INTEGER,
+    count(t.converted_at)::INTEGER,
+    count(*) FILTER (WHERE t.converted_at <= t.ends_at)::INTEGER
+  FROM public.trials t
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY 1
+  ORDER BY 1 DESC
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trial_report() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.trial_report() TO authenticated;
+
+-- Send the trial expiry emails every hour. Uses the same Vault secrets as reconcile-payments.
+SELECT cron.schedule(
+  'trial-expiry',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/trial-expiry',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,283 @@
+-- Prorated upgrades: a member moving to a longer package pays the new price minus
+-- the unused value of the paid terms they already have, and the new term replaces
+-- those terms instead of stacking after them.
+ALTER TABLE public.transactions
+ADD COLUMN proration_credit INTEGER NOT NULL DEFAULT 0 CHECK (proration_credit >= 0),
+ADD COLUMN upgrade_from_package_name TEXT;
+
+-- What the unused paid time of a member is worth against a longer package.
+-- A term is worth what was paid for it (including earlier credit), spread evenly
+-- over its length; stacked terms that have not started count in full.
+CREATE OR REPLACE FUNCTION public.evaluate_upgrade(_user_id UUID, _package_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _credit INTEGER;
+  _current_months INTEGER;
+  _current_name TEXT;
+  _current_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO _package FROM public.premium_packages WHERE id = _package_id;
+
+  IF NOT FOUND OR _package.is_group THEN
+    RETURN jsonb_build_object('eligible', false);
+  END IF;
+
+  SELECT
+    floor(sum(
+      (t.amount + t.proration_credit)
+      * extract(epoch FROM s.ends_at - GREATEST(s.starts_at, now()))
+      / extract(epoch FROM s.ends_at - s.starts_at)
+    ))::INTEGER,
+    max(t.duration_months),
+    max(s.ends_at)
+  INTO _credit, _current_months, _current_until
+  FROM public.subscriptions s
+  JOIN public.transactions t ON t.id = s.transaction_id
+  WHERE s.user_id = _user_id
+    AND s.source = 'payment'
+    AND s.revoked_at IS NULL
+    AND s.ends_at > now();
+
+  IF _credit IS NULL OR _credit <= 0 OR _package.duration_months <= _current_months THEN
+    RETURN jsonb_build_object('eligible', false);
+  END IF;
+
+  -- The term running right now names the package being upgraded from
+  SELECT t.package_name INTO _current_name
+  FROM public.subscriptions s
+  JOIN public.transactions t ON t.id = s.transaction_id
+  WHERE s.user_id = _user_id
+    AND s.source = 'payment'
+    AND s.revoked_at IS NULL
+    AND s.ends_at > now()
+  ORDER BY s.starts_at
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'eligible', true,
+    'credit', _credit,
+    'current_package_name', _current_name,
+    'current_until', _current_until,
+    'remaining_days', ceil(extract(epoch FROM _current_until - now()) / 86400)::INTEGER
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_upgrade(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Upgrade credit of the signed-in user, for the pricing page
+CREATE OR REPLACE FUNCTION public.preview_upgrade(_package_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT public.evaluate_upgrade(auth.uid(), _package_id);
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_upgrade(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_upgrade(UUID) TO authenticated;
+
+-- Personal orders for a longer package now carry the upgrade credit. The credit
+-- is taken after the voucher; when it would cover the whole price the order
+-- stacks as before. A member has one open upgrade order at a time, so the
+-- same unused days are never credited to two orders.
+CREATE OR REPLACE FUNCTION public.create_checkout_transaction(
+  _user_id UUID,
+  _package_id UUID,
+  _order_id TEXT,
+  _voucher_code TEXT DEFAULT NULL,
+  _expiry_minutes INTEGER DEFAULT 1440,
+  _auto_renew BOOLEAN DEFAULT false,
+  _gift_recipient_email TEXT DEFAULT NULL,
+  _gift_message TEXT DEFAULT NULL
+)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _quote JSONB;
+  _upgrade JSONB;
+  _credit INTEGER := 0;
+  _tx public.transactions%ROWTYPE;
+  _is_gift BOOLEAN := _gift_recipient_email IS NOT NULL AND btrim(_gift_recipient_email) <> '';
+BEGIN
+  IF _is_gift AND btrim(_gift_recipient_email) !~* '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Email penerima hadiah tidak valid';
+  END IF;
+
+  IF _is_gift AND length(_gift_message) > 500 THEN
+    RAISE EXCEPTION 'Pesan hadiah maksimal 500 karakter';
+  END IF;
+
+  IF _voucher_code IS NOT NULL AND btrim(_voucher_code) <> '' THEN
+    PERFORM 1 FROM public.vouchers
+    WHERE upper(code) = upper(btrim(_voucher_code))
+    FOR UPDATE;
+  END IF;
+
+  _quote := public.evaluate_voucher(_voucher_code, _package_id, _user_id);
+
+  IF NOT (_quote ->> 'valid')::BOOLEAN THEN
+    RAISE EXCEPTION '%', _quote ->> 'message';
+  END IF;
+
+  SELECT * INTO _package FROM public.premium_packages WHERE id = _package_id;
+
+  IF NOT _is_gift THEN
+    _upgrade := public.evaluate_upgrade(_user_id, _package_id);
+
+    IF (_upgrade ->> 'eligible')::BOOLEAN
+       AND (_upgrade ->> 'credit')::INTEGER < (_quote ->> 'final_amount')::INTEGER THEN
+      _credit := (_upgrade ->> 'credit')::INTEGER;
+    END IF;
+  END IF;
+
+  IF _credit > 0 THEN
+    -- Serializes checkouts of this member
+    PERFORM 1 FROM public.profiles WHERE id = _user_id FOR UPDATE;
+
+    IF EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.user_id = _user_id
+        AND t.proration_credit > 0
+        AND (t.status = 'review' OR (t.status = 'pending' AND (t.expires_at IS NULL OR t.expires_at > now())))
+    ) THEN
+      RAISE EXCEPTION 'Selesaikan atau batalkan pesanan upgrade Anda yang belum dibayar terlebih dahulu';
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (
+    user_id, package_id, package_name, duration_months,
+    original_amount, discount_amount, amount,
+    voucher_id, voucher_code, midtrans_order_id, status, expires_at, auto_renew,
+    proration_credit, upgrade_from_package_name
+  )
+  VALUES (
+    _user_id, _package.id, _package.name, _package.duration_months,
+    (_quote ->> 'original_amount')::INTEGER,
+    (_quote ->> 'discount_amount')::INTEGER,
+    (_quote ->> 'final_amount')::INTEGER - _credit,
+    (_quote ->> 'voucher_id')::UUID,
+    _quote ->> 'code',
+    _order_id,
+    'pending',
+    now() + make_interval(mins => _expiry_minutes),
+    _auto_renew AND NOT _is_gift,
+    _credit,
+    CASE WHEN _credit > 0 THEN _upgrade ->> 'current_package_name' END
+  )
+  RETURNING * INTO _tx;
+
+  IF _is_gift THEN
+    INSERT INTO public.gifts (transaction_id, purchaser_id, recipient_email, message, package_name, duration_months)
+    VALUES (
+      _tx.id, _user_id, lower(btrim(_gift_recipient_email)), NULLIF(btrim(_gift_message), ''),
+      _package.name, _package.duration_months
+    );
+  END IF;
+
+  RETURN _tx;
+END;
+$function$;
+
+-- A paid upgrade ends the paid terms it was credited for and starts now. Terms
+-- bought after the upgrade order was created were not credited and stay, as
+-- does free time (trial, referral, admin grants); the ones stacked for later
+-- move to after the new term.
+CREATE OR REPLACE FUNCTION public.grant_premium(
+  _user_id UUID,
+  _months INTEGER,
+  _source TEXT,
+  _transaction_id UUID DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _replaced INTEGER;
+  _starts_at TIMESTAMP WITH TIME ZONE;
+  _ends_at TIMESTAMP WITH TIME ZONE;
+  _shift INTERVAL;
+BEGIN
+  IF _source = 'payment' AND _transaction_id IS NOT NULL THEN
+    SELECT * INTO _tx FROM public.transactions WHERE id = _transaction_id;
+  END IF;
+
+  IF _tx.proration_credit > 0 THEN
+    -- Running terms end now; stacked ones never start
+    UPDATE public.subscriptions
+    SET ends_at = CASE WHEN starts_at < now() THEN now() ELSE ends_at END,
+        revoked_at = CASE WHEN starts_at < now() THEN revoked_at ELSE now() END,
+        note = concat_ws(' · ', note, 'Diganti upgrade ' || _tx.midtrans_order_id)
+    WHERE user_id = _user_id
+      AND source = 'payment'
+      AND revoked_at IS NULL
+      AND ends_at > now()
+      AND created_at < _tx.created_at;
+
+    GET DIAGNOSTICS _replaced = ROW_COUNT;
+
+    _starts_at := now();
+  ELSE
+    _starts_at := GREATEST(now(), COALESCE(public.personal_premium_until(_user_id), now()));
+  END IF;
+
+  _ends_at := _starts_at + make_interval(months => _months);
+
+  IF _tx.proration_credit > 0 THEN
+    SELECT _ends_at - min(starts_at) INTO _shift
+    FROM public.subscriptions
+    WHERE user_id = _user_id AND revoked_at IS NULL AND starts_at >= now();
+
+    IF _shift > interval '0' THEN
+      UPDATE public.subscriptions
+      SET starts_at = starts_at + _shift,
+          ends_at = ends_at + _shift
+      WHERE user_id = _user_id AND revoked_at IS NULL AND starts_at >= now();
+    END IF;
+  END IF;
+
+  INSERT INTO public.subscriptions (user_id, starts_at, ends_at, source, transaction_id, note)
+  VALUES (_user_id, _starts_at, _ends_at, _source, _transaction_id, _note);
+
+  IF _tx.proration_credit > 0 THEN
+    -- Auto-renew was scheduled against the old end date
+    UPDATE public.auto_renewals
+    SET next_charge_at = GREATEST(now(), public.renewal_charge_time(COALESCE(public.personal_premium_until(_user_id), _ends_at)))
+    WHERE user_id = _user_id AND status <> 'canceled';
+
+    INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+    VALUES (
+      NULL, 'subscription.upgrade', 'transaction', _tx.id::text,
+      jsonb_build_object(
+        'order_id', _tx.midtrans_order_id,
+        'from_package', _tx.upgrade_from_package_name,
+        'to_package', _tx.package_name,
+        'credit', _tx.proration_credit,
+        'replaced_terms', _replaced,
+        'moved_terms_by', _shift
+      )
+    );
+
+    -- Stacked terms now end after the new one
+    RETURN GREATEST(_ends_at, public.personal_premium_until(_user_id));
+  END IF;
+
+  RETURN _ends_at;
+END;
+$function$;
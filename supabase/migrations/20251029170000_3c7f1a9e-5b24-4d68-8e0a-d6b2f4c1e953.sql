@@ -0,0 +1,141 @@
+-- PPN on premium orders. A package price is either tax-inclusive (what the member
+-- pays) or net with PPN added on top, and every order records the tax it carries.
+CREATE TABLE public.tax_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id), -- single row
+  default_rate NUMERIC(5,2) NOT NULL DEFAULT 11 CHECK (default_rate >= 0 AND default_rate < 100),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.tax_settings (id) VALUES (true);
+
+CREATE TRIGGER update_tax_settings_updated_at
+BEFORE UPDATE ON public.tax_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tax_settings ENABLE ROW LEVEL SECURITY;
+
+-- The pricing page shows the rate, so anyone may read it
+CREATE POLICY "Anyone can view tax settings"
+ON public.tax_settings
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can update tax settings"
+ON public.tax_settings
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Existing prices are what members pay today, so they stay tax-inclusive
+ALTER TABLE public.premium_packages
+ADD COLUMN price_includes_tax BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN tax_rate NUMERIC(5,2) CHECK (tax_rate >= 0 AND tax_rate < 100); -- NULL uses the default rate
+
+-- amount stays the gross total charged; the net part is amount - tax_amount.
+-- Orders from before this migration carry no tax.
+ALTER TABLE public.transactions
+ADD COLUMN tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN tax_inclusive BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN tax_amount INTEGER NOT NULL DEFAULT 0 CHECK (tax_amount >= 0);
+
+-- Tax every new order from its package, whichever checkout created it. Prices
+-- without tax get PPN added to the amount charged.
+CREATE OR REPLACE FUNCTION public.set_transaction_tax()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+BEGIN
+  SELECT * INTO _package FROM public.premium_packages WHERE id = NEW.package_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.tax_rate := COALESCE(_package.tax_rate, (SELECT default_rate FROM public.tax_settings));
+  NEW.tax_inclusive := _package.price_includes_tax;
+
+  IF NEW.tax_inclusive THEN
+    NEW.tax_amount := round(NEW.amount * NEW.tax_rate / (100 + NEW.tax_rate));
+  ELSE
+    NEW.tax_amount := round(NEW.amount * NEW.tax_rate / 100);
+    NEW.amount := NEW.amount + NEW.tax_amount;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_transaction_tax
+BEFORE INSERT ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_transaction_tax();
+
+-- Upgrade credit is in package prices, so PPN that was added on top of a net
+-- price is not part of a term's value
+CREATE OR REPLACE FUNCTION public.evaluate_upgrade(_user_id UUID, _package_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _credit INTEGER;
+  _current_months INTEGER;
+  _current_name TEXT;
+  _current_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO _package FROM public.premium_packages WHERE id = _package_id;
+
+  IF NOT FOUND OR _package.is_group THEN
+    RETURN jsonb_build_object('eligible', false);
+  END IF;
+
+  SELECT
+    floor(sum(
+      (t.amount - CASE WHEN t.tax_inclusive THEN 0 ELSE t.tax_amount END + t.proration_credit)
+      * extract(epoch FROM s.ends_at - GREATEST(s.starts_at, now()))
+      / extract(epoch FROM s.ends_at - s.starts_at)
+    ))::INTEGER,
+    max(t.duration_months),
+    max(s.ends_at)
+  INTO _credit, _current_months, _current_until
+  FROM public.subscriptions s
+  JOIN public.transactions t ON t.id = s.transaction_id
+  WHERE s.user_id = _user_id
+    AND s.source = 'payment'
+    AND s.revoked_at IS NULL
+    AND s.ends_at > now();
+
+  IF _credit IS NULL OR _credit <= 0 OR _package.duration_months <= _current_months THEN
+    RETURN jsonb_build_object('eligible', false);
+  END IF;
+
+  -- The term running right now names the package being upgraded from
+  SELECT t.package_name INTO _current_name
+  FROM public.subscriptions s
+  JOIN public.transactions t ON t.id = s.transaction_id
+  WHERE s.user_id = _user_id
+    AND s.source = 'payment'
+    AND s.revoked_at IS NULL
+    AND s.ends_at > now()
+  ORDER BY s.starts_at
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'eligible', true,
+    'credit', _credit,
+    'current_package_name', _current_name,
+    'current_until', _current_until,
+    'remaining_days', ceil(extract(epoch FROM _current_until - now()) / 86400)::INTEGER
+  );
+END;
+$function$;
@@ -0,0 +1,124 @@
+-- Transactional emails are queued here by the functions that trigger them and
+-- delivered by the email-worker function, which retries failures with backoff.
+CREATE TABLE public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template TEXT NOT NULL, -- a name from the email template registry
+  -- Either an address, or a user whose account email is looked up when sending
+  recipient TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Producers that may run twice for the same event (webhook retries) set this
+  dedupe_key TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  transport TEXT,
+  provider_message_id TEXT,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (recipient IS NOT NULL OR user_id IS NOT NULL)
+);
+
+CREATE INDEX idx_email_outbox_due ON public.email_outbox (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_email_outbox_created_at ON public.email_outbox (created_at DESC);
+
+CREATE TRIGGER update_email_outbox_updated_at
+BEFORE UPDATE ON public.email_outbox
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the email outbox"
+ON public.email_outbox
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Claim due emails for one worker run. A run that died mid-send leaves rows in
+-- 'sending'; they are picked up again after 10 minutes.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_outbox o
+  SET status = 'sending',
+      attempts = o.attempts + 1,
+      claimed_at = now()
+  WHERE o.id IN (
+    SELECT d.id
+    FROM public.email_outbox d
+    WHERE (d.status = 'pending' AND d.next_attempt_at <= now())
+       OR (d.status = 'sending' AND d.claimed_at < now() - INTERVAL '10 minutes')
+    ORDER BY d.next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Admin action: queue a sent or failed email again with a fresh set of attempts
+CREATE OR REPLACE FUNCTION public.requeue_email(_email_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _email public.email_outbox%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO _email FROM public.email_outbox WHERE id = _email_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email not found';
+  END IF;
+
+  IF _email.status NOT IN ('sent', 'failed') THEN
+    RAISE EXCEPTION 'Email is still queued';
+  END IF;
+
+  UPDATE public.email_outbox
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = now(),
+      last_error = NULL
+  WHERE id = _email_id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    auth.uid(), 'email.requeue', 'email_outbox', _email_id::text,
+    jsonb_build_object('template', _email.template, 'previous_status', _email.status)
+  );
+END;
+$function$;
+
+-- Deliver queued emails every minute. Uses the same Vault secrets as reconcile-payments.
+SELECT cron.schedule(
+  'email-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/email-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,71 @@
+-- Premium benefits as data: the features admins list once, and which package
+-- includes which, in the order that package shows them.
+CREATE TABLE public.package_features (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT,
+  icon TEXT NOT NULL DEFAULT 'Check', -- a lucide icon name the frontend knows
+  -- Free members have it too; shown as included in the "Gratis" comparison column
+  in_free_tier BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0, -- order on Home and in the comparison table
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_package_features_updated_at
+BEFORE UPDATE ON public.package_features
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.premium_package_features (
+  package_id UUID NOT NULL REFERENCES public.premium_packages(id) ON DELETE CASCADE,
+  feature_id UUID NOT NULL REFERENCES public.package_features(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0, -- order on this package's pricing card
+  PRIMARY KEY (package_id, feature_id)
+);
+
+CREATE INDEX idx_premium_package_features_feature_id ON public.premium_package_features (feature_id);
+
+ALTER TABLE public.package_features ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.premium_package_features ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active package features"
+ON public.package_features
+FOR SELECT
+USING (is_active = true OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage package features"
+ON public.package_features
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view package feature assignments"
+ON public.premium_package_features
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage package feature assignments"
+ON public.premium_package_features
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The benefits that used to be hardcoded on the pricing page, Home and the
+-- welcome email. Every existing package keeps all of them.
+INSERT INTO public.package_features (title, description, icon, in_free_tier, sort_order) VALUES
+  ('Akses konten dasar', 'Materi edukasi keuangan dasar untuk semua member', 'BookOpen', true, 0),
+  ('Akses Materi Eksklusif', 'Dapatkan akses ke semua konten premium termasuk panduan mendalam dan strategi advanced', 'BookOpen', false, 1),
+  ('Video Premium & Studi Kasus', 'Tonton video tutorial eksklusif dan analisis studi kasus nyata dari para ahli', 'Video', false, 2),
+  ('Konsultasi dengan Mentor', 'Dapatkan kesempatan konsultasi singkat dengan mentor berpengalaman', 'MessageCircle', false, 3),
+  ('Template & Tools Premium', 'Akses template perencanaan keuangan dan tools kalkulasi yang powerful', 'TrendingUp', false, 4),
+  ('Webinar Eksklusif', 'Ikuti webinar khusus member premium dengan pembicara ahli keuangan', 'Users', false, 5),
+  ('Akses Prioritas', 'Dapatkan akses lebih awal ke fitur-fitur terbaru dan konten yang akan datang', 'Zap', false, 6);
+
+INSERT INTO public.premium_package_features (package_id, feature_id, sort_order)
+SELECT p.id, f.id, f.sort_order
+FROM public.premium_packages p
+CROSS JOIN public.package_features f;
@@ -0,0 +1,334 @@
+-- Card payments Midtrans flags as challenged wait in status 'review' until an
+-- admin approves or denies them through the provider.
+ALTER TABLE public.transactions
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN review_decision TEXT CHECK (review_decision IN ('approve', 'deny')),
+  ADD COLUMN review_reason TEXT;
+
+CREATE INDEX transactions_review_idx ON public.transactions (created_at) WHERE status = 'review';
+
+-- A voucher use counts while its order is pending, under review or paid
+CREATE OR REPLACE FUNCTION public.evaluate_voucher(_code TEXT, _package_id UUID, _user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _voucher public.vouchers%ROWTYPE;
+  _total_uses INTEGER;
+  _user_uses INTEGER;
+  _discount INTEGER;
+BEGIN
+  SELECT * INTO _package
+  FROM public.premium_packages
+  WHERE id = _package_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Paket premium tidak ditemukan');
+  END IF;
+
+  IF _code IS NULL OR btrim(_code) = '' THEN
+    RETURN jsonb_build_object(
+      'valid', true,
+      'original_amount', _package.price,
+      'discount_amount', 0,
+      'final_amount', _package.price
+    );
+  END IF;
+
+  SELECT * INTO _voucher
+  FROM public.vouchers
+  WHERE upper(code) = upper(btrim(_code));
+
+  IF NOT FOUND OR NOT _voucher.is_active THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak valid');
+  END IF;
+
+  IF (_voucher.starts_at IS NOT NULL AND now() < _voucher.starts_at)
+     OR (_voucher.ends_at IS NOT NULL AND now() >= _voucher.ends_at) THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher sedang tidak berlaku');
+  END IF;
+
+  IF COALESCE(array_length(_voucher.package_ids, 1), 0) > 0
+     AND NOT (_package.id = ANY (_voucher.package_ids)) THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak berlaku untuk paket ini');
+  END IF;
+
+  SELECT count(*), count(*) FILTER (WHERE user_id = _user_id)
+  INTO _total_uses, _user_uses
+  FROM public.transactions
+  WHERE voucher_id = _voucher.id AND status IN ('pending', 'review', 'paid');
+
+  IF _voucher.max_uses IS NOT NULL AND _total_uses >= _voucher.max_uses THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kuota kode voucher sudah habis');
+  END IF;
+
+  IF _voucher.max_uses_per_user IS NOT NULL AND _user_uses >= _voucher.max_uses_per_user THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Anda sudah menggunakan kode voucher ini');
+  END IF;
+
+  _discount := CASE
+    WHEN _voucher.discount_type = 'percentage' THEN floor(_package.price * _voucher.discount_value / 100.0)::INTEGER
+    ELSE _voucher.discount_value
+  END;
+
+  -- Midtrans cannot charge zero, so a voucher never makes an order free
+  IF _discount >= _package.price THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak berlaku untuk paket ini');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'voucher_id', _voucher.id,
+    'code', _voucher.code,
+    'original_amount', _package.price,
+    'discount_amount', _discount,
+    'final_amount', _package.price - _discount
+  );
+END;
+$function$;
+
+-- A renewal charge under review blocks the next attempt like a pending one
+CREATE OR REPLACE FUNCTION public.start_renewal_charge(_renewal_id UUID, _order_id TEXT)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _renewal public.auto_renewals%ROWTYPE;
+  _package public.premium_packages%ROWTYPE;
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _renewal
+  FROM public.auto_renewals
+  WHERE id = _renewal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _renewal.status = 'canceled' OR _renewal.next_charge_at > now() THEN
+    RAISE EXCEPTION 'Auto renewal is not due';
+  END IF;
+
+  -- Never charge twice while an earlier attempt is still being processed
+  IF EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE auto_renewal_id = _renewal.id
+      AND ((status = 'pending' AND expires_at > now()) OR status = 'review')
+  ) THEN
+    RAISE EXCEPTION 'A renewal charge is already in progress';
+  END IF;
+
+  IF _renewal.token_expires_at IS NOT NULL AND _renewal.token_expires_at <= now() THEN
+    RAISE EXCEPTION 'Metode pembayaran tersimpan sudah kedaluwarsa';
+  END IF;
+
+  SELECT * INTO _package
+  FROM public.premium_packages
+  WHERE id = _renewal.package_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Paket premium tidak lagi tersedia';
+  END IF;
+
+  UPDATE public.auto_renewals SET last_charge_at = now() WHERE id = _renewal.id;
+
+  INSERT INTO public.transactions (
+    user_id, package_id, package_name, duration_months,
+    original_amount, discount_amount, amount,
+    midtrans_order_id, status, expires_at, auto_renewal_id
+  )
+  VALUES (
+    _renewal.user_id, _package.id, _package.name, _package.duration_months,
+    _package.price, 0, _package.price,
+    _order_id, 'pending', now() + INTERVAL '1 day', _renewal.id
+  )
+  RETURNING * INTO _tx;
+
+  RETURN _tx;
+END;
+$function$;
+
+-- Challenged captures go to review. previous_status lets callers tell an order
+-- that just entered or left review.
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _renewal JSONB;
+  _gift JSONB;
+  _license JSONB;
+  _referral JSONB;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  -- Map Midtrans status to our transaction status. A challenged card capture
+  -- waits for an admin to approve or deny it.
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE _fraud_status WHEN 'accept' THEN 'paid' WHEN 'challenge' THEN 'review' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Pending orders move anywhere; one under review only settles or fails; a
+  -- failed order may still settle; a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (
+       _tx.status = 'pending'
+       OR (_tx.status = 'review' AND _next_status IN ('paid', 'failed'))
+       OR (_tx.status = 'failed' AND _next_status = 'paid')
+     ) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status = 'failed' AND _tx.auto_renewal_id IS NOT NULL THEN
+    _renewal := public.record_renewal_failure(
+      _tx.auto_renewal_id, _tx.id, 'Pembayaran ditolak (' || _transaction_status || ')'
+    );
+  END IF;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _next_status, 'previous_status', _tx.status,
+      'upgraded', false, 'renewal', _renewal
+    );
+  END IF;
+
+  _referral := public.award_referral(_tx.id);
+
+  _license := public.issue_organization_license(_tx.id);
+
+  IF _license IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _next_status, 'previous_status', _tx.status, 'upgraded', false,
+      'organization', _license, 'referral', _referral
+    );
+  END IF;
+
+  _gift := public.issue_gift(_tx.id);
+
+  IF _gift IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _next_status, 'previous_status', _tx.status, 'upgraded', false,
+      'gift', _gift, 'referral', _referral
+    );
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id);
+
+  IF _tx.auto_renewal_id IS NOT NULL THEN
+    -- A member who canceled while the charge was in flight stays canceled
+    UPDATE public.auto_renewals
+    SET status = 'active',
+        failed_attempts = 0,
+        last_error = NULL,
+        next_charge_at = GREATEST(now(), public.renewal_charge_time(_premium_until))
+    WHERE id = _tx.auto_renewal_id AND status <> 'canceled';
+  ELSE
+    PERFORM public.enroll_auto_renewal(_tx.id, _payload, _premium_until);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'previous_status', _tx.status,
+    'upgraded', true,
+    'premium_until', _premium_until,
+    'referral', _referral
+  );
+END;
+$function$;
+
+-- Records the admin's decision on a challenged order once the provider has
+-- accepted it. The order moves when the provider's answer is applied.
+CREATE OR REPLACE FUNCTION public.record_payment_review(
+  _transaction_id UUID,
+  _actor_id UUID,
+  _decision TEXT,
+  _reason TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  IF _decision NOT IN ('approve', 'deny') THEN
+    RAISE EXCEPTION 'Unknown review decision: %', _decision;
+  END IF;
+
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required to review a payment';
+  END IF;
+
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _transaction_id;
+  END IF;
+
+  UPDATE public.transactions
+  SET reviewed_by = _actor_id,
+      reviewed_at = now(),
+      review_decision = _decision,
+      review_reason = btrim(_reason)
+  WHERE id = _tx.id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _actor_id, 'transaction.review_' || _decision, 'transaction', _tx.id::text,
+    jsonb_build_object('order_id', _tx.midtrans_order_id, 'status', _tx.status, 'reason', btrim(_reason))
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_review(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,53 @@
+-- The Snap session behind a checkout, so create-payment can reopen an
+-- unfinished one instead of starting a second order for the same package.
+ALTER TABLE public.transactions
+  ADD COLUMN snap_token TEXT,
+  ADD COLUMN canceled_at TIMESTAMP WITH TIME ZONE;
+
+-- Recent checkouts per user, for resuming and the rate limit in create-payment
+CREATE INDEX transactions_user_created_idx ON public.transactions (user_id, created_at);
+
+-- A member gives up on an order they have not paid yet. The order ends as
+-- failed like an expired one; canceled_at tells the two apart in the history.
+CREATE OR REPLACE FUNCTION public.cancel_checkout_transaction(_transaction_id UUID, _user_id UUID)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id AND user_id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order tidak ditemukan';
+  END IF;
+
+  IF _tx.status <> 'pending' THEN
+    RAISE EXCEPTION 'Hanya order yang menunggu pembayaran yang dapat dibatalkan';
+  END IF;
+
+  IF _tx.auto_renewal_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Perpanjangan otomatis dihentikan dari halaman profil';
+  END IF;
+
+  UPDATE public.transactions
+  SET status = 'failed', canceled_at = now()
+  WHERE id = _tx.id
+  RETURNING * INTO _tx;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _user_id, 'transaction.cancel', 'transaction', _tx.id::text,
+    jsonb_build_object('order_id', _tx.midtrans_order_id, 'amount', _tx.amount)
+  );
+
+  RETURN _tx;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_checkout_transaction(UUID, UUID) FROM PUBLIC, anon, authenticated;
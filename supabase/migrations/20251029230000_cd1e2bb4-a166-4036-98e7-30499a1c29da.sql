@@ -0,0 +1,856 @@
+-- Refunds and chargebacks. A refunded order keeps its paid_at; refunded_amount
+-- is the running total the provider has returned to the buyer.
+ALTER TABLE public.transactions
+  ADD COLUMN refunded_amount INTEGER NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0),
+  ADD COLUMN refunded_at TIMESTAMP WITH TIME ZONE;
+
+-- A gift whose order was refunded before anyone redeemed it
+ALTER TABLE public.gifts
+  ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE;
+
+-- Refunds an admin started through the provider. Refunds made in the Midtrans
+-- dashboard and chargebacks only reach us as notifications. A refund is
+-- written as pending before the provider is called, so one the provider
+-- accepted is never lost; refunded_before is the order's refunded_amount at
+-- that moment, which keeps the refund_key the same when the admin retries.
+CREATE TABLE public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  refunded_before INTEGER NOT NULL CHECK (refunded_before >= 0),
+  reason TEXT NOT NULL,
+  refund_key TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  error TEXT,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  provider_response JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX refunds_transaction_id_idx ON public.refunds (transaction_id);
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all refunds"
+ON public.refunds
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Every partial refund of an order arrives with the same transaction and
+-- status; the running refund_amount tells them apart
+DROP INDEX public.payment_events_dedupe_idx;
+
+CREATE UNIQUE INDEX payment_events_dedupe_idx
+ON public.payment_events (
+  midtrans_transaction_id, transaction_status, COALESCE(fraud_status, ''),
+  COALESCE(payload ->> 'refund_amount', '')
+);
+
+-- A voucher use counts while its order is pending, under review or paid. A
+-- full refund gives the use back; a chargeback does not.
+CREATE OR REPLACE FUNCTION public.evaluate_voucher(_code TEXT, _package_id UUID, _user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _voucher public.vouchers%ROWTYPE;
+  _total_uses INTEGER;
+  _user_uses INTEGER;
+  _discount INTEGER;
+BEGIN
+  SELECT * INTO _package
+  FROM public.premium_packages
+  WHERE id = _package_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Paket premium tidak ditemukan');
+  END IF;
+
+  IF _code IS NULL OR btrim(_code) = '' THEN
+    RETURN jsonb_build_object(
+      'valid', true,
+      'original_amount', _package.price,
+      'discount_amount', 0,
+      'final_amount', _package.price
+    );
+  END IF;
+
+  SELECT * INTO _voucher
+  FROM public.vouchers
+  WHERE upper(code) = upper(btrim(_code));
+
+  IF NOT FOUND OR NOT _voucher.is_active THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak valid');
+  END IF;
+
+  IF (_voucher.starts_at IS NOT NULL AND now() < _voucher.starts_at)
+     OR (_voucher.ends_at IS NOT NULL AND now() >= _voucher.ends_at) THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher sedang tidak berlaku');
+  END IF;
+
+  IF COALESCE(array_length(_voucher.package_ids, 1), 0) > 0
+     AND NOT (_package.id = ANY (_voucher.package_ids)) THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak berlaku untuk paket ini');
+  END IF;
+
+  SELECT count(*), count(*) FILTER (WHERE user_id = _user_id)
+  INTO _total_uses, _user_uses
+  FROM public.transactions
+  WHERE voucher_id = _voucher.id AND status IN ('pending', 'review', 'paid', 'partially_refunded', 'charged_back');
+
+  IF _voucher.max_uses IS NOT NULL AND _total_uses >= _voucher.max_uses THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kuota kode voucher sudah habis');
+  END IF;
+
+  IF _voucher.max_uses_per_user IS NOT NULL AND _user_uses >= _voucher.max_uses_per_user THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Anda sudah menggunakan kode voucher ini');
+  END IF;
+
+  _discount := CASE
+    WHEN _voucher.discount_type = 'percentage' THEN floor(_package.price * _voucher.discount_value / 100.0)::INTEGER
+    ELSE _voucher.discount_value
+  END;
+
+  -- Midtrans cannot charge zero, so a voucher never makes an order free
+  IF _discount >= _package.price THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode voucher tidak berlaku untuk paket ini');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'voucher_id', _voucher.id,
+    'code', _voucher.code,
+    'original_amount', _package.price,
+    'discount_amount', _discount,
+    'final_amount', _package.price - _discount
+  );
+END;
+$function$;
+
+
+-- Cut _removed off the end of a subscription. The cut never reaches into the
+-- past, and terms stacked after it move up to close the gap. Returns the
+-- user's personal premium expiry afterwards.
+CREATE OR REPLACE FUNCTION public.shorten_subscription(_subscription_id UUID, _removed INTERVAL, _note TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _subscription public.subscriptions%ROWTYPE;
+  _new_end TIMESTAMP WITH TIME ZONE;
+  _shift INTERVAL;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO _subscription
+  FROM public.subscriptions
+  WHERE id = _subscription_id
+  FOR UPDATE;
+
+  IF _subscription.revoked_at IS NOT NULL OR _subscription.ends_at IS NULL OR _subscription.ends_at <= now() THEN
+    RETURN public.personal_premium_until(_subscription.user_id);
+  END IF;
+
+  _new_end := GREATEST(_subscription.ends_at - _removed, now(), _subscription.starts_at);
+  _shift := _subscription.ends_at - _new_end;
+
+  -- A stacked term that has not started yet disappears entirely
+  UPDATE public.subscriptions
+  SET ends_at = CASE WHEN _new_end > starts_at THEN _new_end ELSE ends_at END,
+      revoked_at = CASE WHEN _new_end > starts_at THEN revoked_at ELSE now() END,
+      note = concat_ws(' · ', note, _note)
+  WHERE id = _subscription.id;
+
+  UPDATE public.subscriptions
+  SET starts_at = starts_at - _shift,
+      ends_at = ends_at - _shift
+  WHERE user_id = _subscription.user_id
+    AND id <> _subscription.id
+    AND revoked_at IS NULL
+    AND starts_at >= _subscription.ends_at;
+
+  _premium_until := public.personal_premium_until(_subscription.user_id);
+
+  -- Auto-renew was scheduled against the old end date
+  IF _premium_until IS NOT NULL THEN
+    UPDATE public.auto_renewals
+    SET next_charge_at = GREATEST(now(), public.renewal_charge_time(_premium_until))
+    WHERE user_id = _subscription.user_id AND status <> 'canceled';
+  END IF;
+
+  RETURN _premium_until;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.shorten_subscription(UUID, INTERVAL, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Take back premium time bought by an order: the subscription it granted
+-- (including a redeemed gift) or the organization license it issued, cut as
+-- shorten_subscription does.
+CREATE OR REPLACE FUNCTION public.revoke_premium_time(_transaction_id UUID, _removed INTERVAL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _subscription public.subscriptions%ROWTYPE;
+  _license public.organization_licenses%ROWTYPE;
+  _new_end TIMESTAMP WITH TIME ZONE;
+  _shift INTERVAL;
+  _member_id UUID;
+BEGIN
+  SELECT * INTO _subscription
+  FROM public.subscriptions
+  WHERE transaction_id = _transaction_id AND revoked_at IS NULL;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'user_id', _subscription.user_id,
+      'premium_until', public.shorten_subscription(_subscription.id, _removed, 'Dikurangi karena refund')
+    );
+  END IF;
+
+  SELECT * INTO _license
+  FROM public.organization_licenses
+  WHERE transaction_id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF _license.ends_at > now() THEN
+    _new_end := GREATEST(_license.ends_at - _removed, now(), _license.starts_at);
+    _shift := _license.ends_at - _new_end;
+
+    -- Licenses have no revoked flag; one that has not started is removed
+    IF _new_end > _license.starts_at THEN
+      UPDATE public.organization_licenses SET ends_at = _new_end WHERE id = _license.id;
+    ELSE
+      DELETE FROM public.organization_licenses WHERE id = _license.id;
+    END IF;
+
+    UPDATE public.organization_licenses
+    SET starts_at = starts_at - _shift,
+        ends_at = ends_at - _shift
+    WHERE organization_id = _license.organization_id
+      AND id <> _license.id
+      AND starts_at >= _license.ends_at;
+
+    FOR _member_id IN
+      SELECT user_id FROM public.organization_members
+      WHERE organization_id = _license.organization_id AND revoked_at IS NULL AND user_id IS NOT NULL
+    LOOP
+      PERFORM public.sync_premium_role(_member_id);
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'organization_id', _license.organization_id,
+    'ends_at', (
+      SELECT max(l.ends_at) FROM public.organization_licenses l
+      WHERE l.organization_id = _license.organization_id
+    )
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_premium_time(UUID, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Move a paid order to its refunded state once the provider has returned
+-- money. _refunded_total is everything returned so far, so applying the same
+-- refund twice (admin action and notification) changes nothing. The premium
+-- time the refunded share paid for is revoked.
+CREATE OR REPLACE FUNCTION public.apply_refund(
+  _transaction_id UUID,
+  _refunded_total INTEGER,
+  _chargeback BOOLEAN DEFAULT false,
+  _actor_id UUID DEFAULT NULL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _total INTEGER;
+  _delta INTEGER;
+  _next_status TEXT;
+  _revoked JSONB;
+  _gift_revoked BOOLEAN := false;
+  _referral public.referrals%ROWTYPE;
+BEGIN
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _transaction_id;
+  END IF;
+
+  IF _tx.status NOT IN ('paid', 'partially_refunded', 'refunded', 'charged_back') THEN
+    RAISE EXCEPTION 'Hanya order yang sudah dibayar yang dapat dikembalikan';
+  END IF;
+
+  _total := LEAST(GREATEST(_refunded_total, _tx.refunded_amount), _tx.amount);
+  _delta := _total - _tx.refunded_amount;
+
+  -- Nothing new, unless a chargeback lands on an order refunded earlier
+  IF _delta <= 0 AND NOT (_chargeback AND _tx.status <> 'charged_back') THEN
+    RETURN NULL;
+  END IF;
+
+  _next_status := CASE
+    WHEN _chargeback THEN 'charged_back'
+    WHEN _total >= _tx.amount THEN 'refunded'
+    ELSE 'partially_refunded'
+  END;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      refunded_amount = _total,
+      refunded_at = now()
+  WHERE id = _tx.id;
+
+  -- Admin refunds this total covers are done, whether the admin action or
+  -- the provider's notification for them got here first
+  UPDATE public.refunds
+  SET status = 'completed',
+      completed_at = now()
+  WHERE transaction_id = _tx.id
+    AND status = 'pending'
+    AND refunded_before + amount <= _total;
+
+  IF _delta > 0 THEN
+    _revoked := public.revoke_premium_time(
+      _tx.id, make_interval(months => _tx.duration_months) * (_delta::DOUBLE PRECISION / _tx.amount)
+    );
+  END IF;
+
+  IF _next_status <> 'partially_refunded' THEN
+    -- A code nobody redeemed yet stops working
+    UPDATE public.gifts
+    SET revoked_at = now()
+    WHERE transaction_id = _tx.id AND redeemed_at IS NULL AND revoked_at IS NULL;
+
+    _gift_revoked := FOUND;
+
+    -- The referral this order converted no longer earns its reward
+    SELECT * INTO _referral
+    FROM public.referrals
+    WHERE conversion_transaction_id = _tx.id AND reward_days IS NOT NULL
+    FOR UPDATE;
+
+    IF FOUND THEN
+      IF _referral.subscription_id IS NOT NULL THEN
+        PERFORM public.shorten_subscription(
+          _referral.subscription_id, make_interval(days => _referral.reward_days), 'Hadiah referral dibatalkan'
+        );
+      END IF;
+
+      UPDATE public.referrals
+      SET reward_days = NULL,
+          note = CASE WHEN _chargeback THEN 'Order dibatalkan lewat chargeback' ELSE 'Order dikembalikan' END
+      WHERE id = _referral.id;
+    END IF;
+
+    -- Do not charge a card again for a membership the buyer took back
+    IF _tx.auto_renew OR _tx.auto_renewal_id IS NOT NULL THEN
+      UPDATE public.auto_renewals
+      SET status = 'canceled',
+          canceled_at = now(),
+          cancel_reason = CASE WHEN _chargeback THEN 'chargeback' ELSE 'refund' END
+      WHERE user_id = _tx.user_id AND status <> 'canceled';
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    _actor_id,
+    CASE WHEN _chargeback THEN 'transaction.chargeback' ELSE 'transaction.refund' END,
+    'transaction', _tx.id::text,
+    jsonb_build_object(
+      'order_id', _tx.midtrans_order_id,
+      'amount', _delta,
+      'refunded_amount', _total,
+      'reason', _reason
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'transaction_id', _tx.id,
+    'user_id', _tx.user_id,
+    'order_id', _tx.midtrans_order_id,
+    'package_name', _tx.package_name,
+    'status', _next_status,
+    'previous_status', _tx.status,
+    'amount', _tx.amount,
+    'refund_amount', _delta,
+    'refunded_amount', _total,
+    'premium_until', _revoked ->> 'premium_until',
+    'gift_revoked', _gift_revoked
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_refund(UUID, INTEGER, BOOLEAN, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Reserve a refund before the provider is asked for it. Its key comes from
+-- what the order had refunded so far, so retrying after a timeout or a failed
+-- write sends the provider the same key instead of a second refund.
+CREATE OR REPLACE FUNCTION public.begin_refund(
+  _transaction_id UUID,
+  _actor_id UUID,
+  _amount INTEGER,
+  _reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _refund public.refunds%ROWTYPE;
+  _remaining INTEGER;
+  _key TEXT;
+BEGIN
+  IF _reason IS NULL OR btrim(_reason) = '' THEN
+    RAISE EXCEPTION 'Alasan refund harus diisi';
+  END IF;
+
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE id = _transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _transaction_id;
+  END IF;
+
+  IF _tx.status NOT IN ('paid', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Hanya order yang sudah dibayar yang dapat dikembalikan';
+  END IF;
+
+  _remaining := _tx.amount - _tx.refunded_amount;
+  IF _amount IS NULL OR _amount <= 0 OR _amount > _remaining THEN
+    RAISE EXCEPTION 'Jumlah refund harus antara 1 dan %', _remaining;
+  END IF;
+
+  _key := _tx.midtrans_order_id || '-r' || _tx.refunded_amount;
+
+  SELECT * INTO _refund
+  FROM public.refunds
+  WHERE refund_key = _key
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.refunds (transaction_id, amount, refunded_before, reason, refund_key, requested_by)
+    VALUES (_tx.id, _amount, _tx.refunded_amount, btrim(_reason), _key, _actor_id)
+    RETURNING * INTO _refund;
+  -- The provider may already have made a pending refund; only the same
+  -- amount can be sent again under its key
+  ELSIF _refund.status = 'pending' AND _refund.amount <> _amount THEN
+    RAISE EXCEPTION 'Refund sebesar % untuk order ini belum selesai; ulangi dengan jumlah yang sama', _refund.amount;
+  ELSE
+    UPDATE public.refunds
+    SET amount = _amount,
+        reason = btrim(_reason),
+        requested_by = _actor_id,
+        status = 'pending',
+        error = NULL
+    WHERE id = _refund.id
+    RETURNING * INTO _refund;
+  END IF;
+
+  RETURN jsonb_build_object('id', _refund.id, 'refund_key', _refund.refund_key, 'amount', _refund.amount);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_refund(UUID, UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Settle a reserved refund with the provider's answer. One the provider
+-- accepted is applied to the order (its notification may already have been);
+-- one it rejected is marked failed and can be retried.
+CREATE OR REPLACE FUNCTION public.finish_refund(
+  _refund_id UUID,
+  _response JSONB DEFAULT NULL,
+  _error TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _refund public.refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO _refund
+  FROM public.refunds
+  WHERE id = _refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found: %', _refund_id;
+  END IF;
+
+  IF _error IS NOT NULL THEN
+    UPDATE public.refunds
+    SET status = 'failed', error = _error
+    WHERE id = _refund.id AND status = 'pending';
+
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.refunds SET provider_response = _response WHERE id = _refund.id;
+
+  RETURN public.apply_refund(
+    _refund.transaction_id, _refund.refunded_before + _refund.amount, false, _refund.requested_by, _refund.reason
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.finish_refund(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- A partly refunded term is worth the share that was kept. Its length was cut
+-- by the same share, so the value per remaining day does not change.
+CREATE OR REPLACE FUNCTION public.evaluate_upgrade(_user_id UUID, _package_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _package public.premium_packages%ROWTYPE;
+  _credit INTEGER;
+  _current_months INTEGER;
+  _current_name TEXT;
+  _current_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO _package FROM public.premium_packages WHERE id = _package_id;
+
+  IF NOT FOUND OR _package.is_group THEN
+    RETURN jsonb_build_object('eligible', false);
+  END IF;
+
+  SELECT
+    floor(sum(
+      (t.amount - CASE WHEN t.tax_inclusive THEN 0 ELSE t.tax_amount END + t.proration_credit)
+      * (t.amount - t.refunded_amount)::NUMERIC / t.amount
+      * extract(epoch FROM s.ends_at - GREATEST(s.starts_at, now()))
+      / extract(epoch FROM s.ends_at - s.starts_at)
+    ))::INTEGER,
+    max(t.duration_months),
+    max(s.ends_at)
+  INTO _credit, _current_months, _current_until
+  FROM public.subscriptions s
+  JOIN public.transactions t ON t.id = s.transaction_id
+  WHERE s.user_id = _user_id
+    AND s.source = 'payment'
+    AND s.revoked_at IS NULL
+    AND s.ends_at > now();
+
+  IF _credit IS NULL OR _credit <= 0 OR _package.duration_months <= _current_months THEN
+    RETURN jsonb_build_object('eligible', false);
+  END IF;
+
+  -- The term running right now names the package being upgraded from
+  SELECT t.package_name INTO _current_name
+  FROM public.subscriptions s
+  JOIN public.transactions t ON t.id = s.transaction_id
+  WHERE s.user_id = _user_id
+    AND s.source = 'payment'
+    AND s.revoked_at IS NULL
+    AND s.ends_at > now()
+  ORDER BY s.starts_at
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'eligible', true,
+    'credit', _credit,
+    'current_package_name', _current_name,
+    'current_until', _current_until,
+    'remaining_days', ceil(extract(epoch FROM _current_until - now()) / 86400)::INTEGER
+  );
+END;
+$function$;
+
+-- Refund and chargeback notifications move a paid order to its refunded
+-- state through apply_refund instead of falling through as pending.
+CREATE OR REPLACE FUNCTION public.apply_payment_notification(_payload JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _tx public.transactions%ROWTYPE;
+  _transaction_status TEXT := _payload ->> 'transaction_status';
+  _fraud_status TEXT := _payload ->> 'fraud_status';
+  _next_status TEXT;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _renewal JSONB;
+  _gift JSONB;
+  _license JSONB;
+  _referral JSONB;
+  _refunded_total INTEGER;
+  _refund JSONB;
+BEGIN
+  -- Lock the row so concurrent notifications for one order are serialized
+  SELECT * INTO _tx
+  FROM public.transactions
+  WHERE midtrans_order_id = _payload ->> 'order_id'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found: %', _payload ->> 'order_id';
+  END IF;
+
+  INSERT INTO public.payment_events (
+    order_id, midtrans_transaction_id, transaction_status, fraud_status,
+    status_code, gross_amount, payment_type, payload
+  )
+  VALUES (
+    _tx.midtrans_order_id, _payload ->> 'transaction_id', _transaction_status, _fraud_status,
+    _payload ->> 'status_code', _payload ->> 'gross_amount', _payload ->> 'payment_type', _payload
+  )
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  IF _transaction_status IN ('refund', 'partial_refund', 'chargeback', 'partial_chargeback') THEN
+    IF _tx.status NOT IN ('paid', 'partially_refunded', 'refunded', 'charged_back') THEN
+      RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+    END IF;
+
+    -- refund_amount is the total returned so far across all refunds of the order
+    _refunded_total := CASE
+      WHEN _transaction_status = 'chargeback' THEN _tx.amount
+      ELSE COALESCE((_payload ->> 'refund_amount')::NUMERIC::INTEGER, _tx.amount)
+    END;
+
+    _refund := public.apply_refund(
+      _tx.id,
+      _refunded_total,
+      _transaction_status IN ('chargeback', 'partial_chargeback'),
+      NULL,
+      _payload -> 'refunds' -> -1 ->> 'reason'
+    );
+
+    IF _refund IS NULL THEN
+      RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+    END IF;
+
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _refund ->> 'status', 'previous_status', _tx.status,
+      'upgraded', false, 'refund', _refund
+    );
+  END IF;
+
+  -- Map Midtrans status to our transaction status. A challenged card capture
+  -- waits for an admin to approve or deny it.
+  IF _transaction_status = 'capture' THEN
+    _next_status := CASE _fraud_status WHEN 'accept' THEN 'paid' WHEN 'challenge' THEN 'review' ELSE 'pending' END;
+  ELSIF _transaction_status = 'settlement' THEN
+    _next_status := 'paid';
+  ELSIF _transaction_status IN ('deny', 'expire', 'cancel') THEN
+    _next_status := 'failed';
+  ELSE
+    _next_status := 'pending';
+  END IF;
+
+  -- Pending orders move anywhere; one under review only settles or fails; a
+  -- failed order may still settle; a paid one never changes
+  IF _next_status = _tx.status
+     OR NOT (
+       _tx.status = 'pending'
+       OR (_tx.status = 'review' AND _next_status IN ('paid', 'failed'))
+       OR (_tx.status = 'failed' AND _next_status = 'paid')
+     ) THEN
+    RETURN jsonb_build_object('duplicate', false, 'status', _tx.status, 'upgraded', false);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = _next_status,
+      midtrans_transaction_id = _payload ->> 'transaction_id',
+      payment_type = _payload ->> 'payment_type',
+      paid_at = CASE WHEN _next_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = _tx.id;
+
+  IF _next_status = 'failed' AND _tx.auto_renewal_id IS NOT NULL THEN
+    _renewal := public.record_renewal_failure(
+      _tx.auto_renewal_id, _tx.id, 'Pembayaran ditolak (' || _transaction_status || ')'
+    );
+  END IF;
+
+  IF _next_status <> 'paid' THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _next_status, 'previous_status', _tx.status,
+      'upgraded', false, 'renewal', _renewal
+    );
+  END IF;
+
+  _referral := public.award_referral(_tx.id);
+
+  _license := public.issue_organization_license(_tx.id);
+
+  IF _license IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _next_status, 'previous_status', _tx.status, 'upgraded', false,
+      'organization', _license, 'referral', _referral
+    );
+  END IF;
+
+  _gift := public.issue_gift(_tx.id);
+
+  IF _gift IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'duplicate', false, 'status', _next_status, 'previous_status', _tx.status, 'upgraded', false,
+      'gift', _gift, 'referral', _referral
+    );
+  END IF;
+
+  _premium_until := public.grant_premium(_tx.user_id, _tx.duration_months, 'payment', _tx.id);
+
+  IF _tx.auto_renewal_id IS NOT NULL THEN
+    -- A member who canceled while the charge was in flight stays canceled
+    UPDATE public.auto_renewals
+    SET status = 'active',
+        failed_attempts = 0,
+        last_error = NULL,
+        next_charge_at = GREATEST(now(), public.renewal_charge_time(_premium_until))
+    WHERE id = _tx.auto_renewal_id AND status <> 'canceled';
+  ELSE
+    PERFORM public.enroll_auto_renewal(_tx.id, _payload, _premium_until);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duplicate', false,
+    'status', _next_status,
+    'previous_status', _tx.status,
+    'upgraded', true,
+    'premium_until', _premium_until,
+    'referral', _referral
+  );
+END;
+$function$;
+
+-- A code whose order was refunded in full no longer works
+CREATE OR REPLACE FUNCTION public.preview_gift(_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _gift public.gifts%ROWTYPE;
+  _sender TEXT;
+BEGIN
+  SELECT * INTO _gift FROM public.gifts WHERE code = upper(btrim(_code));
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('valid', false, 'message', 'Kode hadiah tidak ditemukan');
+  END IF;
+
+  SELECT nama INTO _sender FROM public.profiles WHERE id = _gift.purchaser_id;
+
+  RETURN jsonb_build_object(
+    'valid', _gift.redeemed_at IS NULL AND _gift.revoked_at IS NULL,
+    'message', CASE
+      WHEN _gift.redeemed_at IS NOT NULL THEN 'Kode hadiah sudah digunakan'
+      WHEN _gift.revoked_at IS NOT NULL THEN 'Kode hadiah sudah tidak berlaku'
+    END,
+    'code', _gift.code,
+    'sender_name', _sender,
+    'gift_message', _gift.message,
+    'package_name', _gift.package_name,
+    'duration_months', _gift.duration_months
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_gift(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.preview_gift(TEXT) TO anon, authenticated;
+
+-- A partly refunded gift grants the share that was not refunded
+CREATE OR REPLACE FUNCTION public.redeem_gift(_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _gift public.gifts%ROWTYPE;
+  _tx public.transactions%ROWTYPE;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Silakan masuk untuk menukarkan kode hadiah';
+  END IF;
+
+  SELECT * INTO _gift
+  FROM public.gifts
+  WHERE code = upper(btrim(_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kode hadiah tidak ditemukan';
+  END IF;
+
+  IF _gift.redeemed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Kode hadiah sudah digunakan';
+  END IF;
+
+  IF _gift.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Kode hadiah sudah tidak berlaku';
+  END IF;
+
+  _premium_until := public.grant_premium(
+    auth.uid(), _gift.duration_months, 'gift', _gift.transaction_id, 'Hadiah ' || _gift.code
+  );
+
+  SELECT * INTO _tx FROM public.transactions WHERE id = _gift.transaction_id;
+
+  -- Part of the order was refunded before the code was redeemed
+  IF _tx.refunded_amount > 0 THEN
+    _premium_until := public.revoke_premium_time(
+      _tx.id, make_interval(months => _gift.duration_months) * (_tx.refunded_amount::DOUBLE PRECISION / _tx.amount)
+    ) ->> 'premium_until';
+  END IF;
+
+  UPDATE public.gifts
+  SET redeemed_by = auth.uid(),
+      redeemed_at = now()
+  WHERE id = _gift.id;
+
+  INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+  VALUES (
+    auth.uid(), 'gift.redeem', 'gift', _gift.id::text,
+    jsonb_build_object('code', _gift.code, 'purchaser_id', _gift.purchaser_id)
+  );
+
+  RETURN jsonb_build_object(
+    'premium_until', _premium_until,
+    'package_name', _gift.package_name,
+    'duration_months', _gift.duration_months
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_gift(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_gift(TEXT) TO authenticated;
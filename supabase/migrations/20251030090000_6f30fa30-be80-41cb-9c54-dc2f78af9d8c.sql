@@ -0,0 +1,138 @@
+-- The expiry job used to claim a reminder and then queue its email in a second
+-- call, so a failed insert left the reminder claimed and never sent. The claim
+-- functions now queue the email in the same transaction as the claim.
+-- Reminders also skip premium that ends with a signup trial.
+
+-- Claim the reminders that are due: the closest of 7, 3 and 1 days before the
+-- member's premium ends. Members on active auto-renew are charged a day early
+-- and are not reminded, and neither are members whose time ends with a trial:
+-- trial-expiry emails them when it is over.
+CREATE OR REPLACE FUNCTION public.claim_premium_reminders(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (user_id UUID, kind TEXT, premium_until TIMESTAMP WITH TIME ZONE, days_left INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _due RECORD;
+BEGIN
+  FOR _due IN
+    SELECT
+      p.id,
+      e.premium_until AS ends_at,
+      CASE
+        WHEN e.premium_until <= now() + INTERVAL '1 day' THEN 1
+        WHEN e.premium_until <= now() + INTERVAL '3 days' THEN 3
+        ELSE 7
+      END AS threshold
+    FROM public.profiles p
+    CROSS JOIN LATERAL public.current_entitlement(p.id) e
+    WHERE p.role = 'premium'
+      AND p.premium_until <= now() + INTERVAL '7 days'
+      AND e.is_premium
+      AND e.premium_until <= now() + INTERVAL '7 days'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.auto_renewals r
+        WHERE r.user_id = p.id AND r.status = 'active'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.subscriptions s
+        WHERE s.user_id = p.id
+          AND s.source = 'trial'
+          AND s.revoked_at IS NULL
+          AND s.ends_at = e.premium_until
+      )
+    ORDER BY e.premium_until
+    LIMIT _limit
+  LOOP
+    INSERT INTO public.premium_notifications (user_id, kind, premium_until)
+    VALUES (_due.id, 'reminder_' || _due.threshold, _due.ends_at)
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      user_id := _due.id;
+      kind := 'reminder_' || _due.threshold;
+      premium_until := _due.ends_at;
+      days_left := ceil(extract(epoch FROM _due.ends_at - now()) / 86400)::INTEGER;
+
+      INSERT INTO public.email_outbox (template, user_id, variables, dedupe_key)
+      VALUES (
+        'premium_expiring', _due.id,
+        jsonb_build_object('days_left', days_left, 'premium_until', _due.ends_at),
+        concat_ws(':', kind, _due.id, to_jsonb(_due.ends_at) #>> '{}')
+      )
+      ON CONFLICT (dedupe_key) DO NOTHING;
+
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_premium_reminders(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Downgrade members whose premium has ended but whose role still says premium,
+-- and claim their "premium ended" email. Ended trials are emailed by the
+-- trial-expiry job instead.
+CREATE OR REPLACE FUNCTION public.claim_expired_premium(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (user_id UUID, premium_until TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _expired RECORD;
+  _last_source TEXT;
+BEGIN
+  FOR _expired IN
+    SELECT p.id, p.premium_until AS ended_at
+    FROM public.profiles p
+    WHERE p.role = 'premium'
+      AND NOT (SELECT e.is_premium FROM public.current_entitlement(p.id) e)
+    ORDER BY p.premium_until NULLS FIRST
+    LIMIT _limit
+    FOR UPDATE OF p SKIP LOCKED
+  LOOP
+    PERFORM public.sync_premium_role(_expired.id);
+
+    INSERT INTO public.audit_logs (actor_id, action, target_type, target_id, details)
+    VALUES (
+      NULL, 'premium.expired', 'user', _expired.id::text,
+      jsonb_build_object('premium_until', _expired.ended_at)
+    );
+
+    IF _expired.ended_at IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    SELECT s.source INTO _last_source
+    FROM public.subscriptions s
+    WHERE s.user_id = _expired.id AND s.ends_at <= now()
+    ORDER BY s.ends_at DESC
+    LIMIT 1;
+
+    IF _last_source IS DISTINCT FROM 'trial' THEN
+      INSERT INTO public.premium_notifications (user_id, kind, premium_until)
+      VALUES (_expired.id, 'ended', _expired.ended_at)
+      ON CONFLICT DO NOTHING;
+
+      IF FOUND THEN
+        user_id := _expired.id;
+        premium_until := _expired.ended_at;
+
+        INSERT INTO public.email_outbox (template, user_id, variables, dedupe_key)
+        VALUES (
+          'premium_ended', _expired.id,
+          jsonb_build_object('premium_until', _expired.ended_at),
+          concat_ws(':', 'ended', _expired.id, to_jsonb(_expired.ended_at) #>> '{}')
+        )
+        ON CONFLICT (dedupe_key) DO NOTHING;
+
+        RETURN NEXT;
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_expired_premium(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,65 @@
+-- Like the premium expiry emails, the end-of-trial email is queued in the same
+-- transaction that claims the trial, so a failed insert cannot leave a trial
+-- claimed with no email.
+
+-- Claim ended, unconverted trials, queue their expiry email and bring the
+-- users' roles in line. Each trial is returned once.
+CREATE OR REPLACE FUNCTION public.claim_ended_trials(_limit INTEGER DEFAULT 100)
+RETURNS TABLE (trial_id UUID, user_id UUID, duration_days INTEGER, ends_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _trial RECORD;
+  _packages JSONB;
+BEGIN
+  -- Personal packages only; group licenses are bought by organizations
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object('name', p.name, 'price', p.price, 'duration_months', p.duration_months)
+      ORDER BY p.price
+    ),
+    '[]'::jsonb
+  ) INTO _packages
+  FROM public.premium_packages p
+  WHERE p.is_active AND NOT p.is_group;
+
+  FOR _trial IN
+    UPDATE public.trials t
+    SET expiry_notified_at = now()
+    WHERE t.id IN (
+      SELECT due.id FROM public.trials due
+      WHERE due.expiry_notified_at IS NULL
+        AND due.ends_at <= now()
+        AND due.user_id IS NOT NULL
+      ORDER BY due.ends_at
+      LIMIT _limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING t.id, t.user_id, t.duration_days, t.ends_at, t.converted_at
+  LOOP
+    PERFORM public.sync_premium_role(_trial.user_id);
+
+    -- Members who already paid need no nudge
+    IF _trial.converted_at IS NULL THEN
+      trial_id := _trial.id;
+      user_id := _trial.user_id;
+      duration_days := _trial.duration_days;
+      ends_at := _trial.ends_at;
+
+      INSERT INTO public.email_outbox (template, user_id, variables, dedupe_key)
+      VALUES (
+        'trial_ended', _trial.user_id,
+        jsonb_build_object('duration_days', _trial.duration_days, 'packages', _packages),
+        'trial_ended:' || _trial.id
+      )
+      ON CONFLICT (dedupe_key) DO NOTHING;
+
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_ended_trials(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,129 @@
+-- Emails about a payment are queued by the database in the transaction that
+-- records it. Queued by the edge functions afterwards, a failed insert lost
+-- the email for good: the provider's retry of the notification is a duplicate
+-- and changes nothing. The triggers are deferred to commit, so they see the
+-- premium, gift or license the same transaction granted after the status.
+
+-- Welcome email once an order is paid, or the gift code for a gift order
+CREATE OR REPLACE FUNCTION public.queue_paid_order_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _gift public.gifts%ROWTYPE;
+  _premium_until TIMESTAMP WITH TIME ZONE;
+  _benefits JSONB;
+BEGIN
+  SELECT * INTO _gift FROM public.gifts WHERE transaction_id = NEW.id;
+
+  IF FOUND THEN
+    IF _gift.code IS NOT NULL THEN
+      INSERT INTO public.email_outbox (template, recipient, variables, dedupe_key)
+      VALUES (
+        'gift_received', _gift.recipient_email,
+        jsonb_build_object(
+          'sender_name', COALESCE(NULLIF((SELECT p.nama FROM public.profiles p WHERE p.id = _gift.purchaser_id), ''), 'Seorang teman'),
+          'message', _gift.message,
+          'package_name', _gift.package_name,
+          'duration_months', _gift.duration_months,
+          'code', _gift.code
+        ),
+        'gift_received:' || _gift.id
+      )
+      ON CONFLICT (dedupe_key) DO NOTHING;
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  -- The buyer of a group license holds its first seat
+  SELECT l.ends_at INTO _premium_until
+  FROM public.organization_licenses l
+  WHERE l.transaction_id = NEW.id;
+
+  IF NOT FOUND THEN
+    _premium_until := public.personal_premium_until(NEW.user_id);
+  END IF;
+
+  -- The benefits the bought package lists, as they stand when the order is paid
+  SELECT COALESCE(jsonb_agg(f.title ORDER BY ppf.sort_order), '[]'::jsonb) INTO _benefits
+  FROM public.premium_package_features ppf
+  JOIN public.package_features f ON f.id = ppf.feature_id
+  WHERE ppf.package_id = NEW.package_id AND f.is_active;
+
+  INSERT INTO public.email_outbox (template, user_id, variables, dedupe_key)
+  VALUES (
+    'premium_welcome', NEW.user_id,
+    jsonb_build_object(
+      'package_name', NEW.package_name,
+      'duration_months', NEW.duration_months,
+      'amount', NEW.amount,
+      'premium_until', _premium_until,
+      'benefits', _benefits
+    ),
+    'premium_welcome:' || NEW.id
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE CONSTRAINT TRIGGER queue_transaction_paid_email
+AFTER UPDATE OF status ON public.transactions
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid')
+EXECUTE FUNCTION public.queue_paid_order_email();
+
+-- Confirms money went back to the buyer, once per refunded total. A chargeback
+-- is the buyer's bank reversing the charge, not a refund from us, so it gets none.
+CREATE OR REPLACE FUNCTION public.queue_refund_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  _premium_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NEW.status = 'charged_back' THEN
+    RETURN NULL;
+  END IF;
+
+  -- The premium left after the refunded time was taken back
+  SELECT l.ends_at INTO _premium_until
+  FROM public.organization_licenses l
+  WHERE l.transaction_id = NEW.id;
+
+  IF NOT FOUND THEN
+    _premium_until := public.personal_premium_until(NEW.user_id);
+  END IF;
+
+  INSERT INTO public.email_outbox (template, user_id, variables, dedupe_key)
+  VALUES (
+    'payment_refunded', NEW.user_id,
+    jsonb_build_object(
+      'order_id', NEW.midtrans_order_id,
+      'package_name', NEW.package_name,
+      'amount', NEW.amount,
+      'refund_amount', NEW.refunded_amount - OLD.refunded_amount,
+      'refunded_amount', NEW.refunded_amount,
+      'premium_until', _premium_until
+    ),
+    'payment_refunded:' || NEW.id || ':' || NEW.refunded_amount
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE CONSTRAINT TRIGGER queue_transaction_refund_email
+AFTER UPDATE OF refunded_amount ON public.transactions
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (NEW.refunded_amount > OLD.refunded_amount)
+EXECUTE FUNCTION public.queue_refund_email();